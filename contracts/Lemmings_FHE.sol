@@ -1,6 +1,6 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract LemmingsFHE is SepoliaConfig {
@@ -17,33 +17,91 @@ contract LemmingsFHE is SepoliaConfig {
     uint256 public currentBatchId;
     mapping(uint256 => bool) public isBatchOpen;
 
+    struct Level {
+        bytes32 contentHash;     // keccak256 of the level file bytes as stored in UniversalAdapter
+        string fileId;           // LevelFile.id, bundled with the frontend or stored under level_<fileId>
+        uint32 lemmingSlots;     // Hatch slots, lemmingId n of a batch is released from slot n
+        uint16 width;            // Level size in pixels, submitted coordinates must lie inside it
+        uint16 height;
+        uint8 targetSavePercent; // Share of the lemmings a run has to save
+    }
+    uint256 public levelCount;
+    mapping(uint256 => Level) public levels; // levelId -> Level, ids start at 1
+    mapping(uint256 => uint256) public batchLevel; // batchId -> levelId
+
     struct DecryptionContext {
         uint256 batchId;
-        bytes32 stateHash;
+        uint256 fromId;    // First lemmingId in the request
+        uint256 toId;      // Last lemmingId in the request, inclusive
+        bytes32 stateHash; // Over the ciphertexts of fromId..toId only
         bool processed;
     }
+    // Three euint32 and an ebool (2 bits) per lemming, 20 lemmings stay within the 2048-bit decryption limit
+    uint256 public constant MAX_LEMMINGS_PER_DECRYPTION = 20;
+
+    // Ability ids run from 0 to ABILITY_COUNT - 1, see AbilityId in frontend/web/src/engine/abilities.ts
+    uint32 public constant ABILITY_COUNT = 5;
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
     struct Lemming {
         euint32 ability; // Encrypted ability ID
         euint32 x;       // Encrypted x-coordinate
         euint32 y;       // Encrypted y-coordinate
+        ebool valid;     // Encrypted: the submitted values were in range, out of range values are stored clamped
     }
     mapping(uint256 => mapping(uint256 => Lemming)) public lemmings; // batchId -> lemmingId -> Lemming
 
     mapping(uint256 => uint256) public lemmingCountInBatch; // batchId -> count
 
+    struct Guess {
+        address player;
+        uint256 batchId;
+        uint256 lemmingId;
+        uint32 ability;    // Guessed ability ID
+        ebool result;      // Encrypted ability == guess, decryptable by the player
+        uint256 requestId;
+        bool resolved;
+        bool correct;
+    }
+    uint256 public guessCount;
+    mapping(uint256 => Guess) public guesses; // guessId -> Guess
+    mapping(uint256 => uint256) public guessIdByRequest; // requestId -> guessId
+    mapping(address => uint256) public lastGuessTime;
+
+    // Runs are replayed off-chain against the revealed abilities, verifiers post the outcome
+    mapping(address => bool) public isVerifier;
+    enum RunStatus { None, Pending, Valid, Invalid }
+    struct Run {
+        address player;
+        uint256 batchId;
+        bytes32 recordHash;   // keccak256 of the run record, the record itself is only emitted in RunSubmitted
+        uint32 claimedSaved;
+        uint32 verifiedSaved; // Saved count of the verifier's replay
+        RunStatus status;
+    }
+    uint256 public constant MAX_RUN_RECORD_BYTES = 4096;
+    uint256 public runCount;
+    mapping(uint256 => Run) public runs; // runId -> Run, ids start at 1
+    mapping(address => uint256) public lastRunTime;
+
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event Paused(address account);
     event Unpaused(address account);
     event CooldownSecondsSet(uint256 oldCooldown, uint256 newCooldown);
-    event BatchOpened(uint256 indexed batchId);
+    event LevelRegistered(uint256 indexed levelId, bytes32 contentHash, string fileId, uint256 lemmingSlots, uint256 width, uint256 height, uint256 targetSavePercent);
+    event BatchOpened(uint256 indexed batchId, uint256 indexed levelId);
     event BatchClosed(uint256 indexed batchId);
     event LemmingSubmitted(address indexed provider, uint256 indexed batchId, uint256 indexed lemmingId);
-    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256[] abilities, uint256[] xs, uint256[] ys);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, uint256 fromId, uint256 toId, bytes32 stateHash);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 fromId, uint256[] abilities, uint256[] xs, uint256[] ys, bool[] valids);
+    event AbilityGuessed(uint256 indexed guessId, address indexed player, uint256 indexed batchId, uint256 lemmingId, uint32 ability, uint256 requestId);
+    event GuessResolved(uint256 indexed guessId, address indexed player, bool correct);
+    event VerifierAdded(address indexed verifier);
+    event VerifierRemoved(address indexed verifier);
+    event RunSubmitted(uint256 indexed runId, address indexed player, uint256 indexed batchId, uint32 claimedSaved, bytes record);
+    event RunVerified(uint256 indexed runId, address indexed verifier, bool valid, uint32 verifiedSaved);
 
     error NotOwner();
     error NotProvider();
@@ -54,6 +112,16 @@ contract LemmingsFHE is SepoliaConfig {
     error StateMismatch();
     error InvalidBatchId();
     error InvalidLemmingId();
+    error UnknownRequest();
+    error LengthMismatch();
+    error InvalidRange();
+    error InvalidLevel();
+    error UnknownLevel();
+    error BatchFull();
+    error NotVerifier();
+    error InvalidRun();
+    error UnknownRun();
+    error RunAlreadyVerified();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -65,6 +133,11 @@ contract LemmingsFHE is SepoliaConfig {
         _;
     }
 
+    modifier onlyVerifier() {
+        if (!isVerifier[msg.sender]) revert NotVerifier();
+        _;
+    }
+
     modifier whenNotPaused() {
         if (paused) revert PausedState();
         _;
@@ -80,19 +153,6 @@ contract LemmingsFHE is SepoliaConfig {
     constructor() {
         owner = msg.sender;
         emit OwnershipTransferred(address(0), msg.sender);
-        _initIfNeeded();
-    }
-
-    function _initIfNeeded() internal {
-        if (!FHE.isInitialized()) {
-            FHE.initialize();
-        }
-    }
-
-    function _requireInitialized() internal view {
-        if (!FHE.isInitialized()) {
-            revert("FHE not initialized");
-        }
     }
 
     function transferOwnership(address newOwner) external onlyOwner {
@@ -111,6 +171,16 @@ contract LemmingsFHE is SepoliaConfig {
         emit ProviderRemoved(provider);
     }
 
+    function addVerifier(address verifier) external onlyOwner {
+        isVerifier[verifier] = true;
+        emit VerifierAdded(verifier);
+    }
+
+    function removeVerifier(address verifier) external onlyOwner {
+        delete isVerifier[verifier];
+        emit VerifierRemoved(verifier);
+    }
+
     function setPaused(bool _paused) external onlyOwner {
         if (_paused) {
             paused = true;
@@ -127,10 +197,34 @@ contract LemmingsFHE is SepoliaConfig {
         emit CooldownSecondsSet(oldCooldown, newCooldownSeconds);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
+    // Levels are immutable, a changed level file is registered again under a new id
+    function registerLevel(
+        bytes32 contentHash,
+        string calldata fileId,
+        uint32 lemmingSlots,
+        uint16 width,
+        uint16 height,
+        uint8 targetSavePercent
+    ) external onlyOwner returns (uint256 levelId) {
+        if (contentHash == bytes32(0) || bytes(fileId).length == 0) revert InvalidLevel();
+        if (lemmingSlots == 0 || width == 0 || height == 0 || targetSavePercent > 100) revert InvalidLevel();
+
+        levelId = ++levelCount;
+        levels[levelId] = Level(contentHash, fileId, lemmingSlots, width, height, targetSavePercent);
+        emit LevelRegistered(levelId, contentHash, fileId, lemmingSlots, width, height, targetSavePercent);
+    }
+
+    function getLevel(uint256 levelId) external view returns (Level memory) {
+        if (levelId == 0 || levelId > levelCount) revert UnknownLevel();
+        return levels[levelId];
+    }
+
+    function openBatch(uint256 levelId) external onlyOwner whenNotPaused {
+        if (levelId == 0 || levelId > levelCount) revert UnknownLevel();
         currentBatchId++;
         isBatchOpen[currentBatchId] = true;
-        emit BatchOpened(currentBatchId);
+        batchLevel[currentBatchId] = levelId;
+        emit BatchOpened(currentBatchId, levelId);
     }
 
     function closeBatch(uint256 batchId) external onlyOwner {
@@ -141,50 +235,142 @@ contract LemmingsFHE is SepoliaConfig {
 
     function submitLemming(
         uint256 batchId,
-        euint32 encryptedAbility,
-        euint32 encryptedX,
-        euint32 encryptedY
+        externalEuint32 encryptedAbility,
+        externalEuint32 encryptedX,
+        externalEuint32 encryptedY,
+        bytes calldata inputProof
     ) external onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
         if (!isBatchOpen[batchId]) revert BatchClosedOrInvalid();
 
-        uint256 lemmingId = ++lemmingCountInBatch[batchId];
-        lemmings[batchId][lemmingId] = Lemming(encryptedAbility, encryptedX, encryptedY);
+        _storeLemming(batchId, encryptedAbility, encryptedX, encryptedY, inputProof);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    // Several lemmings under one input proof, the cooldown applies once per call
+    function submitLemmings(
+        uint256 batchId,
+        externalEuint32[] calldata encryptedAbilities,
+        externalEuint32[] calldata encryptedXs,
+        externalEuint32[] calldata encryptedYs,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+        if (!isBatchOpen[batchId]) revert BatchClosedOrInvalid();
+        uint256 count = encryptedAbilities.length;
+        if (count == 0 || encryptedXs.length != count || encryptedYs.length != count) revert LengthMismatch();
 
+        for (uint256 i = 0; i < count; i++) {
+            _storeLemming(batchId, encryptedAbilities[i], encryptedXs[i], encryptedYs[i], inputProof);
+        }
         lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    function _storeLemming(
+        uint256 batchId,
+        externalEuint32 encryptedAbility,
+        externalEuint32 encryptedX,
+        externalEuint32 encryptedY,
+        bytes calldata inputProof
+    ) internal {
+        // Every lemming fills one slot of the batch's level
+        Level storage level = levels[batchLevel[batchId]];
+        if (lemmingCountInBatch[batchId] >= level.lemmingSlots) revert BatchFull();
+
+        // Inputs are bound to this contract and msg.sender by the input proof
+        euint32 ability = FHE.fromExternal(encryptedAbility, inputProof);
+        euint32 x = FHE.fromExternal(encryptedX, inputProof);
+        euint32 y = FHE.fromExternal(encryptedY, inputProof);
+
+        // Range checks run on the ciphertexts, nobody learns which lemmings were out of range until a reveal
+        ebool abilityOk = FHE.le(ability, ABILITY_COUNT - 1);
+        ebool xOk = FHE.le(x, uint32(level.width) - 1);
+        ebool yOk = FHE.le(y, uint32(level.height) - 1);
+        ability = FHE.select(abilityOk, ability, FHE.asEuint32(ABILITY_COUNT - 1));
+        x = FHE.select(xOk, x, FHE.asEuint32(uint32(level.width) - 1));
+        y = FHE.select(yOk, y, FHE.asEuint32(uint32(level.height) - 1));
+        ebool valid = FHE.and(abilityOk, FHE.and(xOk, yOk));
+
+        FHE.allowThis(ability);
+        FHE.allowThis(x);
+        FHE.allowThis(y);
+        FHE.allowThis(valid);
+        // Providers can user-decrypt what was stored for them, including whether it was valid
+        FHE.allow(ability, msg.sender);
+        FHE.allow(x, msg.sender);
+        FHE.allow(y, msg.sender);
+        FHE.allow(valid, msg.sender);
+
+        uint256 lemmingId = ++lemmingCountInBatch[batchId];
+        lemmings[batchId][lemmingId] = Lemming(ability, x, y, valid);
         emit LemmingSubmitted(msg.sender, batchId, lemmingId);
     }
 
+    // Whole batch in one request, batches above MAX_LEMMINGS_PER_DECRYPTION have to use ranges
     function requestBatchDecryption(uint256 batchId) external onlyOwner whenNotPaused respectCooldown(msg.sender, lastDecryptionRequestTime) {
         if (lemmingCountInBatch[batchId] == 0) revert InvalidBatchId();
+        _requestDecryption(batchId, 1, lemmingCountInBatch[batchId]);
+    }
 
-        uint256 numLemmings = lemmingCountInBatch[batchId];
-        bytes32[] memory cts = new bytes32[](numLemmings * 3); // ability, x, y for each lemming
+    function requestRangeDecryption(
+        uint256 batchId,
+        uint256 fromId,
+        uint256 toId
+    ) external onlyOwner whenNotPaused respectCooldown(msg.sender, lastDecryptionRequestTime) {
+        if (lemmingCountInBatch[batchId] == 0) revert InvalidBatchId();
+        _requestDecryption(batchId, fromId, toId);
+    }
 
-        uint256 ctsIdx;
-        for (uint256 i = 1; i <= numLemmings; i++) {
-            Lemming storage lemming = lemmings[batchId][i];
-            cts[ctsIdx++] = lemming.ability.toBytes32();
-            cts[ctsIdx++] = lemming.x.toBytes32();
-            cts[ctsIdx++] = lemming.y.toBytes32();
-        }
+    function requestLemmingDecryption(
+        uint256 batchId,
+        uint256 lemmingId
+    ) external onlyOwner whenNotPaused respectCooldown(msg.sender, lastDecryptionRequestTime) {
+        if (lemmingId == 0 || lemmingId > lemmingCountInBatch[batchId]) revert InvalidLemmingId();
+        _requestDecryption(batchId, lemmingId, lemmingId);
+    }
+
+    function _requestDecryption(uint256 batchId, uint256 fromId, uint256 toId) internal {
+        if (fromId == 0 || toId < fromId || toId > lemmingCountInBatch[batchId]) revert InvalidRange();
+        if (toId - fromId + 1 > MAX_LEMMINGS_PER_DECRYPTION) revert InvalidRange();
 
+        bytes32[] memory cts = _rangeCiphertexts(batchId, fromId, toId);
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         decryptionContexts[requestId] = DecryptionContext({
             batchId: batchId,
+            fromId: fromId,
+            toId: toId,
             stateHash: stateHash,
             processed: false
         });
 
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
-        emit DecryptionRequested(requestId, batchId, stateHash);
+        emit DecryptionRequested(requestId, batchId, fromId, toId, stateHash);
+    }
+
+    // ability, x, y, valid for each lemming in fromId..toId
+    function _rangeCiphertexts(uint256 batchId, uint256 fromId, uint256 toId) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[]((toId - fromId + 1) * 4);
+        uint256 ctsIdx;
+        for (uint256 i = fromId; i <= toId; i++) {
+            Lemming storage lemming = lemmings[batchId][i];
+            cts[ctsIdx++] = lemming.ability.toBytes32();
+            cts[ctsIdx++] = lemming.x.toBytes32();
+            cts[ctsIdx++] = lemming.y.toBytes32();
+            cts[ctsIdx++] = lemming.valid.toBytes32();
+        }
     }
 
     function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
+    // Cleartexts are ABI-encoded as one 32-byte word per ciphertext
+    function _wordAt(bytes memory data, uint256 index) internal pure returns (uint256 word) {
+        assembly {
+            word := mload(add(add(data, 32), mul(index, 32)))
+        }
+    }
+
     function myCallback(
         uint256 requestId,
         bytes memory cleartexts,
@@ -195,19 +381,11 @@ contract LemmingsFHE is SepoliaConfig {
         // Replay Guard
         if (context.processed) revert ReplayAttempt();
 
-        // State Verification
-        uint256 numLemmings = lemmingCountInBatch[context.batchId];
-        if (numLemmings == 0) revert InvalidBatchId(); // Should not happen if requestBatchDecryption checks
+        // Unknown requests have an empty range
+        if (context.fromId == 0) revert UnknownRequest();
 
-        bytes32[] memory currentCts = new bytes32[](numLemmings * 3);
-        uint256 ctsIdx;
-        for (uint256 i = 1; i <= numLemmings; i++) {
-            Lemming storage lemming = lemmings[context.batchId][i];
-            currentCts[ctsIdx++] = lemming.ability.toBytes32();
-            currentCts[ctsIdx++] = lemming.x.toBytes32();
-            currentCts[ctsIdx++] = lemming.y.toBytes32();
-        }
-        bytes32 currentHash = _hashCiphertexts(currentCts);
+        // State Verification, only the requested range is re-hashed
+        bytes32 currentHash = _hashCiphertexts(_rangeCiphertexts(context.batchId, context.fromId, context.toId));
 
         if (currentHash != context.stateHash) {
             revert StateMismatch();
@@ -217,21 +395,106 @@ contract LemmingsFHE is SepoliaConfig {
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         // Decode & Finalize
+        uint256 numLemmings = context.toId - context.fromId + 1;
         uint256[] memory abilities = new uint256[](numLemmings);
         uint256[] memory xs = new uint256[](numLemmings);
         uint256[] memory ys = new uint256[](numLemmings);
+        bool[] memory valids = new bool[](numLemmings);
 
         uint256 cleartextIdx;
         for (uint256 i = 0; i < numLemmings; i++) {
-            abilities[i] = abi.decode(cleartexts.slice(cleartextIdx, 32), (uint256));
-            cleartextIdx += 32;
-            xs[i] = abi.decode(cleartexts.slice(cleartextIdx, 32), (uint256));
-            cleartextIdx += 32;
-            ys[i] = abi.decode(cleartexts.slice(cleartextIdx, 32), (uint256));
-            cleartextIdx += 32;
+            abilities[i] = _wordAt(cleartexts, cleartextIdx++);
+            xs[i] = _wordAt(cleartexts, cleartextIdx++);
+            ys[i] = _wordAt(cleartexts, cleartextIdx++);
+            valids[i] = _wordAt(cleartexts, cleartextIdx++) != 0;
         }
 
         context.processed = true;
-        emit DecryptionCompleted(requestId, context.batchId, abilities, xs, ys);
+        emit DecryptionCompleted(requestId, context.batchId, context.fromId, abilities, xs, ys, valids);
+    }
+
+    function guessAbility(
+        uint256 batchId,
+        uint256 lemmingId,
+        uint32 ability
+    ) external whenNotPaused respectCooldown(msg.sender, lastGuessTime) returns (uint256 guessId) {
+        if (lemmingId == 0 || lemmingId > lemmingCountInBatch[batchId]) revert InvalidLemmingId();
+
+        ebool result = FHE.eq(lemmings[batchId][lemmingId].ability, FHE.asEuint32(ability));
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = result.toBytes32();
+        uint256 requestId = FHE.requestDecryption(cts, this.guessCallback.selector);
+
+        guessId = ++guessCount;
+        guesses[guessId] = Guess({
+            player: msg.sender,
+            batchId: batchId,
+            lemmingId: lemmingId,
+            ability: ability,
+            result: result,
+            requestId: requestId,
+            resolved: false,
+            correct: false
+        });
+        guessIdByRequest[requestId] = guessId;
+
+        lastGuessTime[msg.sender] = block.timestamp;
+        emit AbilityGuessed(guessId, msg.sender, batchId, lemmingId, ability, requestId);
+    }
+
+    function guessCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint256 guessId = guessIdByRequest[requestId];
+        if (guessId == 0) revert UnknownRequest();
+
+        Guess storage guess = guesses[guessId];
+        if (guess.resolved) revert ReplayAttempt();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        guess.resolved = true;
+        guess.correct = _wordAt(cleartexts, 0) != 0;
+        emit GuessResolved(guessId, guess.player, guess.correct);
+    }
+
+    // A player's attempt at the batch's level: the commands they issued by tick and how many lemmings they saved
+    function submitRun(
+        uint256 batchId,
+        bytes calldata record,
+        uint32 claimedSaved
+    ) external whenNotPaused respectCooldown(msg.sender, lastRunTime) returns (uint256 runId) {
+        if (lemmingCountInBatch[batchId] == 0) revert InvalidBatchId();
+        if (record.length == 0 || record.length > MAX_RUN_RECORD_BYTES) revert InvalidRun();
+        if (claimedSaved > levels[batchLevel[batchId]].lemmingSlots) revert InvalidRun();
+
+        runId = ++runCount;
+        runs[runId] = Run({
+            player: msg.sender,
+            batchId: batchId,
+            recordHash: keccak256(record),
+            claimedSaved: claimedSaved,
+            verifiedSaved: 0,
+            status: RunStatus.Pending
+        });
+
+        lastRunTime[msg.sender] = block.timestamp;
+        emit RunSubmitted(runId, msg.sender, batchId, claimedSaved, record);
+    }
+
+    // valid when the replay with the revealed abilities saved exactly claimedSaved lemmings
+    function postRunResult(uint256 runId, bool valid, uint32 verifiedSaved) external onlyVerifier {
+        Run storage run = runs[runId];
+        if (run.status == RunStatus.None) revert UnknownRun();
+        if (run.status != RunStatus.Pending) revert RunAlreadyVerified();
+
+        run.status = valid ? RunStatus.Valid : RunStatus.Invalid;
+        run.verifiedSaved = verifiedSaved;
+        emit RunVerified(runId, msg.sender, valid, verifiedSaved);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,32 @@
+// deploy/accounts.ts
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { Signer, Wallet } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+async function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise<string>((resolve) =>
+    rl.question(prompt, (ans) => {
+      rl.close();
+      resolve(ans.trim());
+    }),
+  );
+}
+
+// Network accounts first, then DEPLOYER_PRIVATE_KEY, the first line of deploy/wallets.txt, then stdin
+export async function getDeployer(hre: HardhatRuntimeEnvironment): Promise<Signer> {
+  const [signer] = await hre.ethers.getSigners();
+  if (signer) return signer;
+
+  let privateKey = process.env.DEPLOYER_PRIVATE_KEY ?? "";
+  const walletsPath = path.join(__dirname, "wallets.txt");
+  if (!privateKey && fs.existsSync(walletsPath)) {
+    privateKey = fs.readFileSync(walletsPath, "utf-8").split("\n")[0].trim();
+  }
+  if (!privateKey) {
+    privateKey = await ask("Enter the deployer private key (testnet only): ");
+  }
+  return new Wallet(privateKey, hre.ethers.provider);
+}
@@ -0,0 +1,166 @@
+// deploy/bootstrap.ts
+import fs from "fs";
+import path from "path";
+import { ContractTransactionResponse, getAddress, isAddress } from "ethers";
+import { LevelFile, parseLevelFile } from "../frontend/web/src/engine";
+import { levelContentHash } from "../frontend/web/src/levelHash";
+import type { LemmingsFHE } from "../types";
+
+// Desired owner-controlled state of a LemmingsFHE deployment, every key is optional
+export interface BootstrapSpec {
+  providers?: string[]; // added when missing, providers not listed are left alone
+  verifiers?: string[]; // run verifiers, added the same way
+  cooldownSeconds?: number;
+  levels?: LevelFile[]; // registered unless a level with the same content hash already is, paths in the JSON file
+  openBatch?: string; // level file id, a batch is opened for its newest registration unless the current one is open
+  owner?: string; // transferred last, after every other step
+}
+
+export interface BootstrapStep {
+  description: string;
+  send: () => Promise<ContractTransactionResponse>;
+}
+
+// Level paths are resolved against baseDir, the spec file's directory when read with readBootstrapSpec
+export function parseBootstrapSpec(raw: unknown, source = "bootstrap spec", baseDir = process.cwd()): BootstrapSpec {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${source} must be a JSON object`);
+  }
+  const { providers, verifiers, cooldownSeconds, levels, openBatch, owner, ...rest } = raw as Record<string, unknown>;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) throw new Error(`${source} has unknown keys: ${unknownKeys.join(", ")}`);
+
+  const addresses = (value: unknown, key: string): string[] => {
+    if (!Array.isArray(value) || !value.every((a) => typeof a === "string" && isAddress(a))) {
+      throw new Error(`${source}: ${key} must be a list of addresses`);
+    }
+    return [...new Set(value.map((a: string) => getAddress(a)))];
+  };
+
+  const spec: BootstrapSpec = {};
+  if (providers !== undefined) spec.providers = addresses(providers, "providers");
+  if (verifiers !== undefined) spec.verifiers = addresses(verifiers, "verifiers");
+  if (cooldownSeconds !== undefined) {
+    if (typeof cooldownSeconds !== "number" || !Number.isSafeInteger(cooldownSeconds) || cooldownSeconds < 0) {
+      throw new Error(`${source}: cooldownSeconds must be a non-negative integer`);
+    }
+    spec.cooldownSeconds = cooldownSeconds;
+  }
+  if (levels !== undefined) {
+    if (!Array.isArray(levels) || !levels.every((l) => typeof l === "string")) {
+      throw new Error(`${source}: levels must be a list of level file paths`);
+    }
+    spec.levels = levels.map((file: string) => {
+      try {
+        return parseLevelFile(JSON.parse(fs.readFileSync(path.resolve(baseDir, file), "utf-8")));
+      } catch (e) {
+        throw new Error(`${source}: level ${file}: ${(e as Error).message}`);
+      }
+    });
+  }
+  if (openBatch !== undefined) {
+    if (typeof openBatch !== "string" || openBatch === "") {
+      throw new Error(`${source}: openBatch must be the id of a level file`);
+    }
+    spec.openBatch = openBatch;
+  }
+  if (owner !== undefined) {
+    if (typeof owner !== "string" || !isAddress(owner)) throw new Error(`${source}: owner must be an address`);
+    spec.owner = getAddress(owner);
+  }
+  return spec;
+}
+
+export const readBootstrapSpec = (file: string): BootstrapSpec =>
+  parseBootstrapSpec(JSON.parse(fs.readFileSync(file, "utf-8")), file, path.dirname(file));
+
+// Diffs the spec against on-chain state and returns only the transactions that change something
+export async function planBootstrap(contract: LemmingsFHE, spec: BootstrapSpec): Promise<BootstrapStep[]> {
+  const steps: BootstrapStep[] = [];
+
+  for (const provider of spec.providers ?? []) {
+    if (!(await contract.isProvider(provider))) {
+      steps.push({ description: `addProvider(${provider})`, send: () => contract.addProvider(provider) });
+    }
+  }
+  for (const verifier of spec.verifiers ?? []) {
+    if (!(await contract.isVerifier(verifier))) {
+      steps.push({ description: `addVerifier(${verifier})`, send: () => contract.addVerifier(verifier) });
+    }
+  }
+
+  if (spec.cooldownSeconds !== undefined) {
+    const current = await contract.cooldownSeconds();
+    if (current !== BigInt(spec.cooldownSeconds)) {
+      steps.push({
+        description: `setCooldownSeconds(${spec.cooldownSeconds}) (currently ${current})`,
+        send: () => contract.setCooldownSeconds(spec.cooldownSeconds!),
+      });
+    }
+  }
+
+  // Level ids by file id, newest registration last; new registrations get the next ids in spec order
+  const levelCount = await contract.levelCount();
+  const levelIds = new Map<string, bigint>();
+  const registered = new Set<string>();
+  for (let levelId = 1n; levelId <= levelCount; levelId++) {
+    const level = await contract.getLevel(levelId);
+    levelIds.set(level.fileId, levelId);
+    registered.add(level.contentHash);
+  }
+  let nextLevelId = levelCount + 1n;
+  for (const file of spec.levels ?? []) {
+    const contentHash = levelContentHash(file);
+    if (registered.has(contentHash)) continue;
+    registered.add(contentHash);
+    levelIds.set(file.id, nextLevelId);
+    steps.push({
+      description: `registerLevel(${file.id}) (level #${nextLevelId++}, ${contentHash})`,
+      send: () =>
+        contract.registerLevel(
+          contentHash,
+          file.id,
+          file.lemmingCount,
+          file.width,
+          file.height,
+          file.requiredSavePercent,
+        ),
+    });
+  }
+
+  if (spec.openBatch) {
+    const currentBatchId = await contract.currentBatchId();
+    if (currentBatchId === 0n || !(await contract.isBatchOpen(currentBatchId))) {
+      const levelId = levelIds.get(spec.openBatch);
+      if (levelId === undefined) {
+        throw new Error(`Level "${spec.openBatch}" is neither registered nor listed in levels, openBatch would revert`);
+      }
+      if (await contract.paused()) throw new Error("Contract is paused, openBatch would revert");
+      steps.push({
+        description: `openBatch(${levelId}) (batch #${currentBatchId + 1n}, level ${spec.openBatch})`,
+        send: () => contract.openBatch(levelId),
+      });
+    }
+  }
+
+  if (spec.owner !== undefined) {
+    const current = await contract.owner();
+    if (getAddress(current) !== spec.owner) {
+      steps.push({
+        description: `transferOwnership(${spec.owner}) (currently ${current})`,
+        send: () => contract.transferOwnership(spec.owner!),
+      });
+    }
+  }
+
+  return steps;
+}
+
+// Sends steps one at a time, each waits for its receipt so later diffs see the new state
+export async function applyBootstrap(steps: BootstrapStep[], log: (message: string) => void = console.log) {
+  for (const step of steps) {
+    const tx = await step.send();
+    log(`${step.description}: ${tx.hash}`);
+    await tx.wait();
+  }
+}
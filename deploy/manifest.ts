@@ -0,0 +1,78 @@
+// deploy/manifest.ts
+import fs from "fs";
+import path from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+
+export const PROJECT_ROOT = path.join(__dirname, "..");
+export const DEPLOYMENTS_DIR = path.join(PROJECT_ROOT, "deployments");
+export const FRONTEND_SRC_DIR = path.join(PROJECT_ROOT, "frontend", "web", "src");
+
+export interface ContractDeployment {
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  deployer: string;
+  abiHash: string; // keccak256 of the JSON ABI, changes whenever the interface changes
+  bytecodeHash: string; // keccak256 of the creation bytecode, a mismatch triggers a redeploy
+  deployedAt: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export const manifestPath = (network: string) => path.join(DEPLOYMENTS_DIR, `${network}.json`);
+
+export const abiHash = (abi: readonly unknown[]) => keccak256(toUtf8Bytes(JSON.stringify(abi)));
+
+export const bytecodeHash = (bytecode: string) => keccak256(bytecode);
+
+export function readManifest(network: string, chainId: number): DeploymentManifest {
+  const file = manifestPath(network);
+  if (!fs.existsSync(file)) return { network, chainId, contracts: {} };
+  const manifest = JSON.parse(fs.readFileSync(file, "utf-8")) as DeploymentManifest;
+  if (manifest.chainId !== chainId) {
+    throw new Error(
+      `${path.relative(PROJECT_ROOT, file)} is for chain ${manifest.chainId}, network reports ${chainId}`,
+    );
+  }
+  return manifest;
+}
+
+export function writeManifest(manifest: DeploymentManifest) {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(manifestPath(manifest.network), JSON.stringify(manifest, null, 2) + "\n");
+}
+
+// Copies artifacts into frontend/web/src/abi and records addresses in this chain's config.json entry
+export function syncFrontend(manifest: DeploymentManifest, artifactPaths: Record<string, string>) {
+  if (!fs.existsSync(FRONTEND_SRC_DIR)) {
+    console.warn("Frontend src directory not found, skipping frontend sync:", FRONTEND_SRC_DIR);
+    return;
+  }
+
+  const abiDir = path.join(FRONTEND_SRC_DIR, "abi");
+  fs.mkdirSync(abiDir, { recursive: true });
+  for (const [name, artifactPath] of Object.entries(artifactPaths)) {
+    fs.copyFileSync(artifactPath, path.join(abiDir, `${name}.json`));
+    console.log(`Synced ABI to frontend/web/src/abi/${name}.json`);
+  }
+
+  const configPath = path.join(FRONTEND_SRC_DIR, "config.json");
+  const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  const entry = config.deployments?.[String(manifest.chainId)];
+  if (!entry) {
+    console.warn(
+      `Chain ${manifest.chainId} has no entry in config.json deployments, add one to use it from the frontend`,
+    );
+    return;
+  }
+  for (const [name, deployment] of Object.entries(manifest.contracts)) {
+    entry.contracts[name] = deployment.address;
+    entry.deployer = deployment.deployer;
+  }
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n");
+  console.log(`Synced chain ${manifest.chainId} addresses to frontend/web/src/config.json`);
+}
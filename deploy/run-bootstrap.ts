@@ -0,0 +1,52 @@
+// deploy/run-bootstrap.ts
+//
+// Usage: npx hardhat run deploy/run-bootstrap.ts --network <localhost|sepolia|...>
+//   BOOTSTRAP_FILE     spec to apply (default: deploy/bootstrap.<network>.json)
+//   BOOTSTRAP_DRY_RUN  "1" or "true" prints the planned transactions without sending them
+//   LEMMINGS_ADDRESS   overrides the LemmingsFHE address from deployments/<network>.json
+import path from "path";
+import hre from "hardhat";
+import { getAddress } from "ethers";
+import { LemmingsFHE__factory } from "../types";
+import { getDeployer } from "./accounts";
+import { applyBootstrap, planBootstrap, readBootstrapSpec } from "./bootstrap";
+import { readManifest } from "./manifest";
+
+async function main() {
+  const network = hre.network.name;
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const dryRun = ["1", "true"].includes((process.env.BOOTSTRAP_DRY_RUN ?? "").toLowerCase());
+  const specFile = process.env.BOOTSTRAP_FILE || path.join(__dirname, `bootstrap.${network}.json`);
+  const spec = readBootstrapSpec(specFile);
+
+  const address = process.env.LEMMINGS_ADDRESS || readManifest(network, chainId).contracts.LemmingsFHE?.address;
+  if (!address) throw new Error(`No LemmingsFHE deployment recorded for ${network}, run deploy/deploy.ts first`);
+
+  const signer = await getDeployer(hre);
+  const contract = LemmingsFHE__factory.connect(address, signer);
+  console.log(`Bootstrapping LemmingsFHE ${address} on ${network} (chain ${chainId}) from ${path.basename(specFile)}`);
+
+  const steps = await planBootstrap(contract, spec);
+  if (steps.length === 0) {
+    console.log("On-chain state already matches the spec, nothing to send");
+    return;
+  }
+  console.log(`${steps.length} transaction(s) needed:`);
+  for (const step of steps) console.log(`  - ${step.description}`);
+
+  if (dryRun) {
+    console.log("Dry run, nothing sent");
+    return;
+  }
+  const owner = await contract.owner();
+  if (getAddress(owner) !== getAddress(await signer.getAddress())) {
+    throw new Error(`Signer ${await signer.getAddress()} is not the owner ${owner}`);
+  }
+  await applyBootstrap(steps);
+  console.log("Bootstrap complete");
+}
+
+main().catch((e) => {
+  console.error("Bootstrap failed:", e);
+  process.exit(1);
+});
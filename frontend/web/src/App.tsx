@@ -1,79 +1,100 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
-import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Playfield, { RunOutcome, SpawnMarker } from "./components/Playfield";
+import RevealsPanel from "./components/RevealsPanel";
+import RunsPanel from "./components/RunsPanel";
+import { contractAddress, getActiveDeployment, getSigner, setActiveChain } from "./contract";
+import { chainName, DEFAULT_CHAIN_ID, isSupportedChain, SUPPORTED_CHAIN_IDS } from "./deployments";
+import { Level, loadLevel, slotAbilities } from "./engine";
+import { userDecryptHandle } from "./fhevm";
+import { abilityName, AbilityGuess, AbilityType, ABILITY_TYPES, DecryptionRequest, describeLemmingsError, getLemmingHandles, guessAbility, Lemming, LemmingHandles, loadGuesses, loadLemmingsState, requestBatchReveal, submitLemming as submitEncryptedLemming } from "./lemmings";
+import { BUNDLED_LEVELS, getBatchLevel, levelContentHash, loadRegisteredLevel } from "./levels";
+import { submitRun } from "./runs";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface LemmingAbility {
-  id: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
-  abilityType: "climb" | "dig" | "build" | "block" | "float";
-  status: "pending" | "verified" | "rejected";
-}
-
-// FHE encryption simulation for numbers
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
-
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
-
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'increase10%':
-      result = value * 1.1;
-      break;
-    case 'decrease10%':
-      result = value * 0.9;
-      break;
-    case 'double':
-      result = value * 2;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
+import { useAccount, useSwitchChain } from 'wagmi';
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+const ABILITY_LABELS: Record<AbilityType, string> = { climb: "Climbing", dig: "Digging", build: "Building", block: "Blocking", float: "Floating" };
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain();
   const [loading, setLoading] = useState(true);
-  const [lemmings, setLemmings] = useState<LemmingAbility[]>([]);
+  const [lemmings, setLemmings] = useState<Lemming[]>([]);
+  const [contractOwner, setContractOwner] = useState<string>("");
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newLemmingData, setNewLemmingData] = useState({ abilityType: "climb", description: "", powerLevel: 1 });
+  const [newLemmingData, setNewLemmingData] = useState({ abilityType: "climb", description: "", x: 0, y: 0 });
   const [showTutorial, setShowTutorial] = useState(false);
-  const [selectedLemming, setSelectedLemming] = useState<LemmingAbility | null>(null);
+  const [selectedLemming, setSelectedLemming] = useState<Lemming | null>(null);
   const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
+  const [chainId, setChainId] = useState<number>(DEFAULT_CHAIN_ID);
   const [durationDays, setDurationDays] = useState<number>(30);
   const [userHistory, setUserHistory] = useState<string[]>([]);
-  const verifiedCount = lemmings.filter(l => l.status === "verified").length;
+  const [revealsKey, setRevealsKey] = useState(0);
+  const [runsKey, setRunsKey] = useState(0);
+  const [mapReveal, setMapReveal] = useState<DecryptionRequest | null>(null);
+  const revealedCount = lemmings.filter(l => l.status === "revealed").length;
   const pendingCount = lemmings.filter(l => l.status === "pending").length;
-  const rejectedCount = lemmings.filter(l => l.status === "rejected").length;
+  const sealedCount = lemmings.filter(l => l.status === "sealed").length;
+  const [level, setLevel] = useState<Level>(() => loadLevel(BUNDLED_LEVELS[0]));
+  const [levelHash, setLevelHash] = useState<string>(() => levelContentHash(BUNDLED_LEVELS[0]));
+  // Reads follow the wallet; without one the default chain from config.json is used
+  const targetChainId = isConnected && walletChainId !== undefined ? walletChainId : DEFAULT_CHAIN_ID;
+  const unsupportedNetwork = !isSupportedChain(targetChainId);
+
+  const revealed = useMemo(
+    () => lemmings.filter(l => l.revealed).sort((a, b) => a.batchId - b.batchId || a.lemmingId - b.lemmingId),
+    [lemmings]
+  );
+  const latestBatch = revealed.length > 0 ? revealed[revealed.length - 1].batchId : 0;
+  // The verifier only replays a run once the whole batch is revealed, slots still sealed would play without an ability
+  const sealedInLatestBatch = lemmings.filter(l => l.batchId === latestBatch && !l.revealed).length;
+
+  // The latest revealed batch is played on the level it was opened for, the bundled level until one exists
+  useEffect(() => {
+    if (!latestBatch) {
+      setLevel(loadLevel(BUNDLED_LEVELS[0]));
+      setLevelHash(levelContentHash(BUNDLED_LEVELS[0]));
+      return;
+    }
+    let cancelled = false;
+    getBatchLevel(latestBatch)
+      .then(async registered => (registered ? { loaded: await loadRegisteredLevel(registered), hash: registered.contentHash } : null))
+      .then(result => {
+        if (cancelled || !result) return;
+        const { loaded, hash } = result;
+        setLevel(loaded);
+        setLevelHash(hash);
+        addToHistory(`Batch #${latestBatch} plays level "${loaded.name}"`);
+      })
+      .catch(e => {
+        console.error("Error loading batch level:", e);
+        addToHistory(`Could not load the level of batch #${latestBatch}: ${e.message}`);
+      });
+    return () => { cancelled = true; };
+  }, [latestBatch, chainId]);
+
+  // Hatch slot n plays lemming n + 1 of the latest revealed batch, as the run verifier replays it; practice abilities until one exists
+  const playAbilities = useMemo(() => {
+    if (!latestBatch) {
+      return Array.from({ length: level.engine.lemmingCount }, (_, i) => level.abilities[i % level.abilities.length]);
+    }
+    const reveals = revealed
+      .filter(l => l.batchId === latestBatch)
+      .map(l => ({ lemmingId: l.lemmingId, abilityId: l.revealed!.abilityId, valid: l.revealed!.valid }));
+    return slotAbilities(level.engine.lemmingCount, reveals);
+  }, [revealed, latestBatch, level]);
+
+  // Spawn points of the reveal selected in the Reveals panel
+  const revealMarkers = useMemo<SpawnMarker[]>(
+    () => mapReveal?.completed?.lemmings.map(l => ({ x: l.x, y: l.y, label: `${l.lemmingId}:${l.ability ?? "invalid"}` })) ?? [],
+    [mapReveal]
+  );
 
   // Add user action to history
   const addToHistory = (action: string) => {
@@ -84,67 +105,35 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
-    loadLemmings().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+    setDurationDays(30);
     addToHistory("Application initialized");
   }, []);
 
+  useEffect(() => {
+    if (unsupportedNetwork) {
+      setLemmings([]);
+      setLoading(false);
+      addToHistory(`Unsupported network: chain ${targetChainId}`);
+      return;
+    }
+    setActiveChain(targetChainId);
+    setChainId(targetChainId);
+    setMapReveal(null);
+    addToHistory(`Using ${chainName(targetChainId)} deployment`);
+    loadLemmings().finally(() => setLoading(false));
+  }, [targetChainId]);
+
   const loadLemmings = async () => {
     setIsRefreshing(true);
     addToHistory("Loading lemmings data");
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check if contract is available
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
+      const state = await loadLemmingsState();
+      if (!state) return;
       addToHistory("Contract is available");
       
-      // Get list of lemming keys
-      const keysBytes = await contract.getData("lemming_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing lemming keys:", e); }
-      }
-      
-      // Load each lemming's data
-      const list: LemmingAbility[] = [];
-      for (const key of keys) {
-        try {
-          const lemmingBytes = await contract.getData(`lemming_${key}`);
-          if (lemmingBytes.length > 0) {
-            try {
-              const lemmingData = JSON.parse(ethers.toUtf8String(lemmingBytes));
-              list.push({ 
-                id: key, 
-                encryptedData: lemmingData.data, 
-                timestamp: lemmingData.timestamp, 
-                owner: lemmingData.owner, 
-                abilityType: lemmingData.abilityType, 
-                status: lemmingData.status || "pending" 
-              });
-            } catch (e) { console.error(`Error parsing lemming data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading lemming ${key}:`, e); }
-      }
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setLemmings(list);
-      addToHistory(`Loaded ${list.length} lemmings`);
+      setContractOwner(state.owner);
+      setLemmings(state.lemmings);
+      addToHistory(`Loaded ${state.lemmings.length} lemmings from ${state.batches.length} batches`);
     } catch (e) { 
       console.error("Error loading lemmings:", e);
       addToHistory("Error loading lemmings data");
@@ -154,49 +143,35 @@ const App: React.FC = () => {
     }
   };
 
+  // The oracle answered a request while the page was open, show it on the map and refresh the table
+  const onRevealCompleted = useCallback((request: DecryptionRequest) => {
+    addToHistory(`Decryption request ${request.requestId} answered, ${request.completed!.lemmings.length} lemming(s) revealed`);
+    setMapReveal(request);
+    loadLemmings();
+  }, []);
+
   const submitLemming = async () => {
     if (!isConnected) { 
       alert("Please connect wallet first"); 
       addToHistory("Wallet not connected - submission failed");
       return; 
     }
+    if (unsupportedNetwork) {
+      alert(`Chain ${targetChainId} is not supported, switch to ${SUPPORTED_CHAIN_IDS.map(chainName).join(" or ")}`);
+      return;
+    }
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting lemming ability with ZAMA FHE..." });
     addToHistory("Starting FHE encryption process");
     
     try {
-      // Encrypt the power level with FHE simulation
-      const encryptedData = FHEEncryptNumber(newLemmingData.powerLevel);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      // Generate unique ID for this lemming
-      const lemmingId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      
-      // Prepare lemming data
-      const lemmingData = { 
-        data: encryptedData, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        abilityType: newLemmingData.abilityType, 
-        status: "pending" 
-      };
-      
-      // Store lemming data on chain
-      await contract.setData(`lemming_${lemmingId}`, ethers.toUtf8Bytes(JSON.stringify(lemmingData)));
-      addToHistory("Lemming data stored on blockchain");
-      
-      // Update the list of lemming keys
-      const keysBytes = await contract.getData("lemming_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { 
-          keys = JSON.parse(ethers.toUtf8String(keysBytes)); 
-        } catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(lemmingId);
-      await contract.setData("lemming_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
-      addToHistory("Lemming keys updated");
+      // Encrypt ability, x and y with the relayer SDK (mock relayer on hardhat)
+      const { batchId, lemmingId } = await submitEncryptedLemming(chainId, address!, {
+        ability: newLemmingData.abilityType as AbilityType,
+        x: newLemmingData.x,
+        y: newLemmingData.y
+      });
+      addToHistory(`Lemming #${lemmingId} submitted to batch #${batchId}`);
       
       setTransactionStatus({ visible: true, status: "success", message: "Lemming ability encrypted and submitted!" });
       addToHistory("FHE encryption completed successfully");
@@ -205,10 +180,10 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewLemmingData({ abilityType: "climb", description: "", powerLevel: 1 });
+        setNewLemmingData({ abilityType: "climb", description: "", x: 0, y: 0 });
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
+      const errorMessage = "Submission failed: " + describeLemmingsError(e);
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       addToHistory(`Submission error: ${errorMessage}`);
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -217,7 +192,7 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptWithSignature = async (handle: string): Promise<number | null> => {
     if (!isConnected) { 
       alert("Please connect wallet first"); 
       addToHistory("Wallet not connected - decryption failed");
@@ -227,11 +202,10 @@ const App: React.FC = () => {
     addToHistory("Starting wallet signature for decryption");
     
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      addToHistory("Wallet signature completed");
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      // Signs the EIP-712 user-decryption request once per contract and wallet until it expires
+      const cleartext = await userDecryptHandle(chainId, contractAddress("LemmingsFHE"), handle, await getSigner(), durationDays);
+      addToHistory("Handle decrypted with wallet authorization");
+      return Number(cleartext);
     } catch (e) { 
       console.error("Decryption failed:", e); 
       addToHistory("Decryption process failed");
@@ -241,75 +215,84 @@ const App: React.FC = () => {
     }
   };
 
-  const verifyLemming = async (lemmingId: string) => {
+  // Sends the guess, then user-decrypts the ebool so the player sees the outcome before the oracle answers
+  const guessLemmingAbility = async (lemming: Lemming, ability: AbilityType): Promise<AbilityGuess | null> => {
     if (!isConnected) { 
       alert("Please connect wallet first"); 
-      addToHistory("Wallet not connected - verification failed");
-      return; 
+      addToHistory("Wallet not connected - guess failed");
+      return null; 
     }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted ability with FHE..." });
-    addToHistory("Starting FHE verification process");
+    addToHistory(`Guessing ${ability} for lemming #${lemming.batchId}-${lemming.lemmingId}`);
     
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const lemmingBytes = await contract.getData(`lemming_${lemmingId}`);
-      if (lemmingBytes.length === 0) throw new Error("Lemming not found");
-      const lemmingData = JSON.parse(ethers.toUtf8String(lemmingBytes));
-      
-      // Simulate FHE computation on encrypted data
-      const verifiedData = FHECompute(lemmingData.data, 'increase10%');
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedLemming = { ...lemmingData, status: "verified", data: verifiedData };
-      await contractWithSigner.setData(`lemming_${lemmingId}`, ethers.toUtf8Bytes(JSON.stringify(updatedLemming)));
-      addToHistory("Lemming ability verified with FHE");
-      
-      setTransactionStatus({ visible: true, status: "success", message: "FHE verification completed successfully!" });
-      await loadLemmings();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      const guess = await guessAbility(lemming.batchId, lemming.lemmingId, ability);
+      if (guess.correct === null) {
+        const result = await decryptWithSignature(guess.resultHandle);
+        if (result !== null) guess.correct = result !== 0;
+      }
+      addToHistory(`Guess #${guess.guessId}: ${guess.correct === null ? "awaiting oracle" : guess.correct ? "correct" : "wrong"}`);
+      return guess;
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Verification failed: " + (e.message || "Unknown error") });
-      addToHistory(`Verification error: ${e.message || "Unknown error"}`);
+      const errorMessage = "Guess failed: " + describeLemmingsError(e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      addToHistory(errorMessage);
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
     }
   };
 
-  const rejectLemming = async (lemmingId: string) => {
+  // Runs of a batch are verified by the run verifier once the oracle has revealed all of its lemmings
+  const revealBatch = async (batchId: number) => {
     if (!isConnected) { 
       alert("Please connect wallet first"); 
-      addToHistory("Wallet not connected - rejection failed");
+      addToHistory("Wallet not connected - reveal failed");
       return; 
     }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted ability with FHE..." });
-    addToHistory("Starting FHE rejection process");
+    setTransactionStatus({ visible: true, status: "pending", message: `Requesting decryption of batch #${batchId}...` });
+    addToHistory(`Requesting reveal of batch #${batchId}`);
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      const request = await requestBatchReveal(batchId);
+      addToHistory(`Decryption of batch #${batchId} requested (request ${request.requestId})`);
+      setRevealsKey(key => key + 1);
       
-      const lemmingBytes = await contract.getData(`lemming_${lemmingId}`);
-      if (lemmingBytes.length === 0) throw new Error("Lemming not found");
-      const lemmingData = JSON.parse(ethers.toUtf8String(lemmingBytes));
-      
-      const updatedLemming = { ...lemmingData, status: "rejected" };
-      await contract.setData(`lemming_${lemmingId}`, ethers.toUtf8Bytes(JSON.stringify(updatedLemming)));
-      addToHistory("Lemming ability rejected");
-      
-      setTransactionStatus({ visible: true, status: "success", message: "FHE rejection completed successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Decryption requested, abilities are revealed once the oracle answers" });
       await loadLemmings();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Rejection failed: " + (e.message || "Unknown error") });
-      addToHistory(`Rejection error: ${e.message || "Unknown error"}`);
+      const errorMessage = describeLemmingsError(e);
+      setTransactionStatus({ visible: true, status: "error", message: "Reveal request failed: " + errorMessage });
+      addToHistory(`Reveal error: ${errorMessage}`);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // The run replays the latest revealed batch, the verifier checks the claimed saved count against its own replay
+  const submitPlayerRun = async ({ commands, saved }: RunOutcome): Promise<boolean> => {
+    setTransactionStatus({ visible: true, status: "pending", message: `Submitting run on batch #${latestBatch}...` });
+    addToHistory(`Submitting run on batch #${latestBatch}: ${commands.length} commands, ${saved} saved`);
+    try {
+      const runId = await submitRun(latestBatch, commands, saved);
+      addToHistory(`Run ${runId} submitted, waiting for the verifier`);
+      setRunsKey(key => key + 1);
+      setTransactionStatus({ visible: true, status: "success", message: `Run ${runId} submitted` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      return true;
+    } catch (e: any) {
+      const errorMessage = describeLemmingsError(e);
+      setTransactionStatus({ visible: true, status: "error", message: "Run submission failed: " + errorMessage });
+      addToHistory(`Run error: ${errorMessage}`);
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false;
     }
   };
 
-  const isOwner = (lemmingAddress: string) => address?.toLowerCase() === lemmingAddress.toLowerCase();
+  const sealedBatchIds = useMemo(
+    () => [...new Set(lemmings.filter(l => l.status === "sealed").map(l => l.batchId))],
+    [lemmings]
+  );
+
+  const isContractOwner = !!address && address.toLowerCase() === contractOwner.toLowerCase();
 
   const tutorialSteps = [
     { title: "Connect Wallet", description: "Connect your Web3 wallet to interact with the FHE Lemmings game", icon: "🔗" },
@@ -318,13 +301,13 @@ const App: React.FC = () => {
     { title: "Solve Puzzles", description: "Use your observation skills to deduce lemming abilities and solve puzzles", icon: "🧩", details: "The game challenges you to infer abilities from lemming behavior rather than directly knowing them" }
   ];
 
-  // Get top players based on verified lemmings count
+  // Get top providers based on revealed lemmings count
   const getLeaderboard = () => {
     const playerStats: Record<string, number> = {};
     
     lemmings.forEach(lemming => {
-      if (lemming.status === "verified") {
-        playerStats[lemming.owner] = (playerStats[lemming.owner] || 0) + 1;
+      if (lemming.status === "revealed") {
+        playerStats[lemming.provider] = (playerStats[lemming.provider] || 0) + 1;
       }
     });
     
@@ -374,9 +357,9 @@ const App: React.FC = () => {
             <h3>Game Statistics</h3>
             <div className="stats-grid">
               <div className="stat-item"><div className="stat-value">{lemmings.length}</div><div className="stat-label">Total Lemmings</div></div>
-              <div className="stat-item"><div className="stat-value">{verifiedCount}</div><div className="stat-label">Verified</div></div>
+              <div className="stat-item"><div className="stat-value">{revealedCount}</div><div className="stat-label">Revealed</div></div>
               <div className="stat-item"><div className="stat-value">{pendingCount}</div><div className="stat-label">Pending</div></div>
-              <div className="stat-item"><div className="stat-value">{rejectedCount}</div><div className="stat-label">Rejected</div></div>
+              <div className="stat-item"><div className="stat-value">{sealedCount}</div><div className="stat-label">Sealed</div></div>
             </div>
           </div>
           
@@ -393,7 +376,7 @@ const App: React.FC = () => {
                 ))}
               </div>
             ) : (
-              <p>No verified lemmings yet. Be the first to create one!</p>
+              <p>No revealed lemmings yet. Be the first to create one!</p>
             )}
           </div>
         </div>
@@ -427,6 +410,36 @@ const App: React.FC = () => {
             </div>
           )}
           
+          {unsupportedNetwork ? (
+            <div className="network-notice pixel-card">
+              <h3>Unsupported network</h3>
+              <p>Your wallet is connected to chain {targetChainId}. Lemmings FHE is deployed on {SUPPORTED_CHAIN_IDS.map(chainName).join(", ")}.</p>
+              <div className="network-actions">
+                {SUPPORTED_CHAIN_IDS.map(id => (
+                  <button key={id} className="pixel-button" disabled={isSwitchingChain} onClick={() => switchChain({ chainId: id })}>
+                    Switch to {chainName(id)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : !contractAddress("LemmingsFHE") && (
+            <div className="network-notice pixel-card">
+              <h3>Not deployed on {getActiveDeployment().name}</h3>
+              <p>No LemmingsFHE address is configured for chain {chainId}. Deploy it or switch to another supported network.</p>
+            </div>
+          )}
+
+          <Playfield
+            level={level}
+            levelHash={levelHash}
+            abilities={playAbilities}
+            markers={revealMarkers}
+            onSubmitRun={latestBatch && isConnected && sealedInLatestBatch === 0 ? submitPlayerRun : undefined}
+            submitUnavailable={latestBatch && isConnected && sealedInLatestBatch > 0
+              ? `Runs on batch #${latestBatch} can be submitted once all of its lemmings are revealed, ${sealedInLatestBatch} still hidden`
+              : undefined}
+          />
+
           <div className="lemmings-section">
             <div className="section-header">
               <h2>Encrypted Lemming Abilities</h2>
@@ -441,10 +454,9 @@ const App: React.FC = () => {
               <div className="table-header">
                 <div className="header-cell">ID</div>
                 <div className="header-cell">Ability</div>
-                <div className="header-cell">Owner</div>
+                <div className="header-cell">Provider</div>
                 <div className="header-cell">Date</div>
                 <div className="header-cell">Status</div>
-                <div className="header-cell">Actions</div>
               </div>
               
               {lemmings.length === 0 ? (
@@ -455,21 +467,13 @@ const App: React.FC = () => {
                 </div>
               ) : lemmings.map(lemming => (
                 <div className="lemming-row" key={lemming.id} onClick={() => setSelectedLemming(lemming)}>
-                  <div className="table-cell lemming-id">#{lemming.id.substring(0, 6)}</div>
-                  <div className="table-cell">{lemming.abilityType}</div>
-                  <div className="table-cell">{lemming.owner.substring(0, 6)}...{lemming.owner.substring(38)}</div>
+                  <div className="table-cell lemming-id">#{lemming.batchId}-{lemming.lemmingId}</div>
+                  <div className="table-cell">{lemming.revealed ? lemming.revealed.ability ?? "invalid" : "encrypted"}</div>
+                  <div className="table-cell">{lemming.provider.substring(0, 6)}...{lemming.provider.substring(38)}</div>
                   <div className="table-cell">{new Date(lemming.timestamp * 1000).toLocaleDateString()}</div>
                   <div className="table-cell">
                     <span className={`status-badge ${lemming.status}`}>{lemming.status}</span>
                   </div>
-                  <div className="table-cell actions">
-                    {isOwner(lemming.owner) && lemming.status === "pending" && (
-                      <>
-                        <button className="action-btn pixel-button success" onClick={(e) => { e.stopPropagation(); verifyLemming(lemming.id); }}>Verify</button>
-                        <button className="action-btn pixel-button danger" onClick={(e) => { e.stopPropagation(); rejectLemming(lemming.id); }}>Reject</button>
-                      </>
-                    )}
-                  </div>
                 </div>
               ))}
             </div>
@@ -478,6 +482,23 @@ const App: React.FC = () => {
         
         {/* Right Panel - User History */}
         <div className="right-panel">
+          {!unsupportedNetwork && contractAddress("LemmingsFHE") && (
+            <RevealsPanel
+              key={chainId}
+              refreshKey={revealsKey}
+              selectedRequestId={mapReveal?.requestId ?? null}
+              onSelect={setMapReveal}
+              onCompleted={onRevealCompleted}
+            />
+          )}
+          {!unsupportedNetwork && contractAddress("LemmingsFHE") && (
+            <RunsPanel
+              key={chainId}
+              refreshKey={runsKey + revealsKey}
+              sealedBatchIds={sealedBatchIds}
+              onRevealBatch={isContractOwner ? revealBatch : undefined}
+            />
+          )}
           <div className="history-panel pixel-card">
             <h3>Your Recent Actions</h3>
             <div className="history-list">
@@ -514,6 +535,7 @@ const App: React.FC = () => {
           setDecryptedValue={setDecryptedValue} 
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
+          onGuess={guessLemmingAbility}
         />
       )}
       
@@ -569,11 +591,11 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
 
   const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    setLemmingData({ ...lemmingData, [name]: parseFloat(value) });
+    setLemmingData({ ...lemmingData, [name]: parseInt(value, 10) });
   };
 
   const handleSubmit = () => {
-    if (!lemmingData.abilityType || !lemmingData.powerLevel) { 
+    if (!lemmingData.abilityType || !Number.isInteger(lemmingData.x) || !Number.isInteger(lemmingData.y)) { 
       alert("Please fill required fields"); 
       return; 
     }
@@ -597,11 +619,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             <div className="form-group">
               <label>Ability Type *</label>
               <select name="abilityType" value={lemmingData.abilityType} onChange={handleChange} className="pixel-select">
-                <option value="climb">Climbing</option>
-                <option value="dig">Digging</option>
-                <option value="build">Building</option>
-                <option value="block">Blocking</option>
-                <option value="float">Floating</option>
+                {ABILITY_TYPES.map(ability => <option key={ability} value={ability}>{ABILITY_LABELS[ability]}</option>)}
               </select>
             </div>
             
@@ -618,16 +636,28 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             </div>
             
             <div className="form-group">
-              <label>Power Level (1-10) *</label>
+              <label>Spawn X *</label>
               <input 
                 type="number" 
-                name="powerLevel" 
-                value={lemmingData.powerLevel} 
+                name="x" 
+                value={lemmingData.x} 
                 onChange={handleValueChange} 
-                placeholder="Enter power level (1-10)..." 
+                placeholder="Enter x coordinate..." 
                 className="pixel-input"
-                min="1"
-                max="10"
+                min="0"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Spawn Y *</label>
+              <input 
+                type="number" 
+                name="y" 
+                value={lemmingData.y} 
+                onChange={handleValueChange} 
+                placeholder="Enter y coordinate..." 
+                className="pixel-input"
+                min="0"
               />
             </div>
           </div>
@@ -636,13 +666,13 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             <h4>Encryption Preview</h4>
             <div className="preview-container">
               <div className="plain-data">
-                <span>Plain Value:</span>
-                <div>{lemmingData.powerLevel || 'No value entered'}</div>
+                <span>Plain Values:</span>
+                <div>{lemmingData.abilityType} @ ({lemmingData.x}, {lemmingData.y})</div>
               </div>
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
                 <span>Encrypted Data:</span>
-                <div>{lemmingData.powerLevel ? FHEEncryptNumber(lemmingData.powerLevel).substring(0, 50) + '...' : 'No value entered'}</div>
+                <div>3 × euint32 handles + input proof</div>
               </div>
             </div>
           </div>
@@ -666,23 +696,45 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
 
 // Modal for viewing lemming details
 interface LemmingDetailModalProps {
-  lemming: LemmingAbility;
+  lemming: Lemming;
   onClose: () => void;
   decryptedValue: number | null;
   setDecryptedValue: (value: number | null) => void;
   isDecrypting: boolean;
   decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  onGuess: (lemming: Lemming, ability: AbilityType) => Promise<AbilityGuess | null>;
 }
 
 const LemmingDetailModal: React.FC<LemmingDetailModalProps> = ({ 
-  lemming, onClose, decryptedValue, setDecryptedValue, isDecrypting, decryptWithSignature 
+  lemming, onClose, decryptedValue, setDecryptedValue, isDecrypting, decryptWithSignature, onGuess 
 }) => {
+  const [handles, setHandles] = useState<LemmingHandles | null>(null);
+  const [guesses, setGuesses] = useState<AbilityGuess[]>([]);
+  const [guessChoice, setGuessChoice] = useState<AbilityType>("climb");
+  const [guessing, setGuessing] = useState(false);
+
+  useEffect(() => {
+    getLemmingHandles(lemming.batchId, lemming.lemmingId).then(setHandles).catch(e => console.error("Error loading lemming handles:", e));
+    loadGuesses(lemming.batchId, lemming.lemmingId).then(setGuesses).catch(e => console.error("Error loading guesses:", e));
+  }, [lemming.batchId, lemming.lemmingId]);
+
+  const handleGuess = async () => {
+    setGuessing(true);
+    try {
+      const guess = await onGuess(lemming, guessChoice);
+      if (guess) setGuesses(prev => [guess, ...prev.filter(g => g.guessId !== guess.guessId)]);
+    } finally {
+      setGuessing(false);
+    }
+  };
+
   const handleDecrypt = async () => {
     if (decryptedValue !== null) { 
       setDecryptedValue(null); 
       return; 
     }
-    const decrypted = await decryptWithSignature(lemming.encryptedData);
+    if (!handles) return;
+    const decrypted = await decryptWithSignature(handles.ability);
     if (decrypted !== null) setDecryptedValue(decrypted);
   };
 
@@ -690,38 +742,69 @@ const LemmingDetailModal: React.FC<LemmingDetailModalProps> = ({
     <div className="modal-overlay">
       <div className="lemming-detail-modal pixel-card">
         <div className="modal-header">
-          <h2>Lemming Details #{lemming.id.substring(0, 8)}</h2>
+          <h2>Lemming Details #{lemming.batchId}-{lemming.lemmingId}</h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         
         <div className="modal-body">
           <div className="lemming-info">
-            <div className="info-item"><span>Ability Type:</span><strong>{lemming.abilityType}</strong></div>
-            <div className="info-item"><span>Owner:</span><strong>{lemming.owner.substring(0, 6)}...{lemming.owner.substring(38)}</strong></div>
+            <div className="info-item"><span>Batch:</span><strong>#{lemming.batchId}</strong></div>
+            <div className="info-item"><span>Provider:</span><strong>{lemming.provider.substring(0, 6)}...{lemming.provider.substring(38)}</strong></div>
             <div className="info-item"><span>Date:</span><strong>{new Date(lemming.timestamp * 1000).toLocaleString()}</strong></div>
             <div className="info-item"><span>Status:</span><strong className={`status-badge ${lemming.status}`}>{lemming.status}</strong></div>
+            {lemming.revealed && (
+              <>
+                <div className="info-item"><span>Ability:</span><strong>{lemming.revealed.ability ?? "invalid, submitted out of range"}</strong></div>
+                <div className="info-item"><span>Spawn:</span><strong>({lemming.revealed.x}, {lemming.revealed.y})</strong></div>
+              </>
+            )}
           </div>
           
           <div className="encrypted-data-section">
             <h3>Encrypted Ability Data</h3>
-            <div className="encrypted-data">{lemming.encryptedData.substring(0, 100)}...</div>
+            <div className="encrypted-data">{handles ? handles.ability : "Loading handle..."}</div>
             <div className="fhe-tag"><div className="fhe-icon"></div><span>FHE Encrypted</span></div>
             
-            <button className="decrypt-btn pixel-button" onClick={handleDecrypt} disabled={isDecrypting}>
+            <button className="decrypt-btn pixel-button" onClick={handleDecrypt} disabled={isDecrypting || !handles}>
               {isDecrypting ? <span className="decrypt-spinner"></span> : decryptedValue !== null ? "Hide Decrypted Value" : "Decrypt with Wallet Signature"}
             </button>
           </div>
           
           {decryptedValue !== null && (
             <div className="decrypted-data-section">
-              <h3>Decrypted Power Level</h3>
-              <div className="decrypted-value">{decryptedValue}</div>
+              <h3>Decrypted Ability</h3>
+              <div className="decrypted-value">{abilityName(decryptedValue) ?? `unknown (#${decryptedValue})`}</div>
               <div className="decryption-notice">
                 <div className="warning-icon"></div>
                 <span>Decrypted data is only visible after wallet signature verification</span>
               </div>
             </div>
           )}
+          
+          <div className="guess-section">
+            <h3>Guess Ability</h3>
+            <div className="guess-form">
+              <select value={guessChoice} onChange={e => setGuessChoice(e.target.value as AbilityType)} className="pixel-select">
+                {ABILITY_TYPES.map(ability => <option key={ability} value={ability}>{ability}</option>)}
+              </select>
+              <button className="pixel-button" onClick={handleGuess} disabled={guessing}>
+                {guessing ? "Guessing..." : "Guess ability"}
+              </button>
+            </div>
+            {guesses.length > 0 && (
+              <div className="guess-list">
+                {guesses.map(guess => (
+                  <div className="guess-item" key={guess.guessId}>
+                    <span>#{guess.guessId} {guess.ability ?? "unknown"}</span>
+                    <span>{guess.player.substring(0, 6)}...{guess.player.substring(38)}</span>
+                    <strong className={`guess-result ${guess.correct === null ? "pending" : guess.correct ? "correct" : "wrong"}`}>
+                      {guess.correct === null ? "awaiting oracle" : guess.correct ? "correct" : "wrong"}
+                    </strong>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
         
         <div className="modal-footer">
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ABILITY_TYPES, deduceAbilities, describeEvent, LemmingEvent, TICKS_PER_SECOND } from '../engine';
+
+interface DeductionPanelProps {
+  events: LemmingEvent[]; // observation log of the running simulation
+}
+
+const formatTick = (tick: number) => `${(tick / TICKS_PER_SECOND).toFixed(1)}s`;
+
+// What the player can conclude so far: candidate abilities per lemming, narrowed down by what it was seen doing
+const DeductionPanel: React.FC<DeductionPanelProps> = ({ events }) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const deductions = deduceAbilities(events);
+
+  return (
+    <div className="deduction-panel">
+      <h3>Observations</h3>
+      {deductions.length === 0 ? (
+        <p>No lemming released yet</p>
+      ) : (
+        deductions.map(deduction => {
+          const open = expanded === deduction.lemming;
+          return (
+            <div key={deduction.lemming} className="deduction-row" onClick={() => setExpanded(open ? null : deduction.lemming)}>
+              <div className="deduction-summary">
+                <span className="deduction-label">#{deduction.lemming + 1}</span>
+                {ABILITY_TYPES.map(ability => {
+                  const status = deduction.known === ability
+                    ? 'known'
+                    : deduction.candidates.includes(ability) ? 'candidate' : 'ruled-out';
+                  return <span key={ability} className={`deduction-ability ${status}`}>{ability}</span>;
+                })}
+                {deduction.candidates.length === 0 && <span className="deduction-ability known">none</span>}
+              </div>
+              {open && (
+                <div className="deduction-log">
+                  {deduction.events.map((event, i) => (
+                    <div key={i}>{formatTick(event.tick)} {describeEvent(event)}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default DeductionPanel;
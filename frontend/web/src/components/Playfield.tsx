@@ -0,0 +1,493 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AbilityType,
+  Command,
+  commandsByTick,
+  createSimulation,
+  encodeReplay,
+  Level,
+  LEMMING_HEIGHT,
+  LemmingState,
+  LemmingTimeline,
+  parseReplayFile,
+  Replay,
+  REPLAY_VERSION,
+  replayState,
+  replayTimeline,
+  replayToJson,
+  SimulationState,
+  step,
+  TERRAIN_DIRT,
+  TERRAIN_STEEL,
+  TICKS_PER_SECOND,
+  TimedCommand
+} from '../engine';
+import DeductionPanel from './DeductionPanel';
+import ReplayTimeline from './ReplayTimeline';
+
+// Internal resolution, the canvas is scaled up by an integer factor
+const VIEW_WIDTH = 320;
+const VIEW_HEIGHT = 160;
+const SPEEDS = [1, 2, 4, 8];
+const MAX_TICKS_PER_FRAME = 32;
+const PICK_RADIUS = 6;
+const EFFECT_TICKS = 24;
+
+const BACKGROUND: [number, number, number] = [8, 8, 24];
+const TERRAIN_COLORS: Record<number, [number, number, number]> = {
+  [TERRAIN_DIRT]: [150, 96, 48],
+  [TERRAIN_STEEL]: [120, 124, 148]
+};
+
+const STATE_COLORS: Record<LemmingState, string> = {
+  walking: '#39ff14',
+  falling: '#39ff14',
+  climbing: '#00e5ff',
+  digging: '#ffcc00',
+  building: '#ff8c00',
+  blocking: '#ff3366',
+  saved: '#ffffff',
+  dead: '#666666'
+};
+
+interface Effect {
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  ttl: number;
+}
+
+interface Hud {
+  tick: number;
+  released: number;
+  saved: number;
+  dead: number;
+  finished: boolean;
+}
+
+// A decrypted spawn point drawn over the terrain, e.g. from a completed reveal
+export interface SpawnMarker {
+  x: number;
+  y: number;
+  label: string;
+}
+
+// The commands that took effect during a finished run and how many lemmings it saved
+export interface RunOutcome {
+  commands: TimedCommand[];
+  saved: number;
+}
+
+// A loaded replay, played back instead of taking clicks
+interface Playback {
+  replay: Replay;
+  byTick: Map<number, Command[]>;
+  lemmings: LemmingTimeline[];
+}
+
+interface PlayfieldProps {
+  level: Level;
+  levelHash: string; // levelContentHash of the level's file, recorded in and checked against replays
+  abilities: (AbilityType | null)[];
+  markers?: SpawnMarker[];
+  onSubmitRun?: (run: RunOutcome) => Promise<boolean>; // only offered when playing a batch's revealed abilities
+  submitUnavailable?: string; // why a finished run cannot be submitted yet
+}
+
+const readHud = (sim: SimulationState): Hud => ({
+  tick: sim.tick,
+  released: sim.released,
+  saved: sim.lemmings.filter(l => l.state === 'saved').length,
+  dead: sim.lemmings.filter(l => l.state === 'dead').length,
+  finished: sim.finished
+});
+
+const NO_MARKERS: SpawnMarker[] = [];
+
+const download = (name: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Playfield: React.FC<PlayfieldProps> = ({ level, levelHash, abilities, markers = NO_MARKERS, onSubmitRun, submitUnavailable }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const simRef = useRef<SimulationState>(createSimulation(level.engine, abilities));
+  const pendingRef = useRef<Command[]>([]);
+  const historyRef = useRef<TimedCommand[]>([]);
+  const playbackRef = useRef<Playback | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const effectsRef = useRef<Effect[]>([]);
+  const scrollRef = useRef(0);
+  const [running, setRunning] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(0);
+  const [scale, setScale] = useState(2);
+  const [scrollX, setScrollX] = useState(0);
+  const [selectedAbility, setSelectedAbility] = useState<AbilityType>(level.abilities[0]);
+  const [hud, setHud] = useState<Hud>(() => readHud(simRef.current));
+  const [runSubmit, setRunSubmit] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [playback, setPlayback] = useState<Playback | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Reloading the same abilities must not restart a run in progress
+  const abilitiesKey = abilities.map(ability => ability ?? '-').join(',');
+  const maxScroll = Math.max(0, level.engine.terrain.width - VIEW_WIDTH);
+  const viewHeight = Math.min(VIEW_HEIGHT, level.engine.terrain.height);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const sim = simRef.current;
+    const { terrain } = sim;
+    const offsetX = scrollRef.current;
+
+    const image = ctx.createImageData(VIEW_WIDTH, viewHeight);
+    for (let y = 0; y < viewHeight; y++) {
+      for (let x = 0; x < VIEW_WIDTH; x++) {
+        const tx = x + offsetX;
+        const pixel = tx < terrain.width ? terrain.pixels[y * terrain.width + tx] : 0;
+        const [r, g, b] = TERRAIN_COLORS[pixel] ?? BACKGROUND;
+        const i = (y * VIEW_WIDTH + x) * 4;
+        image.data[i] = r;
+        image.data[i + 1] = g;
+        image.data[i + 2] = b;
+        image.data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+
+    const { entrance, exit } = sim.level;
+    ctx.fillStyle = '#8b5cf6';
+    ctx.fillRect(entrance.x - offsetX - 4, entrance.y - 4, 9, 3);
+    ctx.fillStyle = '#ffd700';
+    ctx.fillRect(exit.x - offsetX - 3, exit.y - 8, 7, 9);
+
+    for (const lemming of sim.lemmings) {
+      if (lemming.state === 'saved') continue;
+      const height = lemming.state === 'dead' ? 2 : LEMMING_HEIGHT;
+      ctx.fillStyle = STATE_COLORS[lemming.state];
+      ctx.fillRect(lemming.x - offsetX - 1, lemming.y - height + 1, 3, height);
+      if (lemming.state !== 'dead') {
+        // Head shows the walking direction
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(lemming.x - offsetX + (lemming.dir === 1 ? 1 : -1), lemming.y - height + 1, 1, 1);
+      }
+    }
+
+    ctx.font = '8px monospace';
+    ctx.textAlign = 'center';
+    for (const marker of markers) {
+      // Cleartexts are plain uint32, anything outside the terrain is not drawn
+      if (marker.x >= terrain.width || marker.y >= viewHeight) continue;
+      ctx.strokeStyle = '#00e5ff';
+      ctx.strokeRect(marker.x - offsetX - 2.5, marker.y - 2.5, 5, 5);
+      ctx.fillStyle = '#00e5ff';
+      ctx.fillText(marker.label, marker.x - offsetX, Math.max(8, marker.y - 5));
+    }
+    for (const effect of effectsRef.current) {
+      ctx.globalAlpha = effect.ttl / EFFECT_TICKS;
+      ctx.fillStyle = effect.color;
+      ctx.fillText(effect.text, effect.x - offsetX, effect.y);
+    }
+    ctx.globalAlpha = 1;
+  }, [viewHeight, markers]);
+
+  // One fixed simulation tick, queued clicks (or the replay's inputs during playback) become commands for this tick
+  const advance = useCallback(() => {
+    const sim = simRef.current;
+    const tick = sim.tick;
+    const playback = playbackRef.current;
+    const commands = playback ? playback.byTick.get(tick) ?? [] : pendingRef.current;
+    pendingRef.current = [];
+    const applied = step(sim, commands);
+    // Every input is recorded, ones that did not take effect replay as no-ops
+    if (!playback) historyRef.current.push(...commands.map(command => ({ ...command, tick })));
+    effectsRef.current = effectsRef.current
+      .map(effect => ({ ...effect, y: effect.y - (effect.ttl % 3 === 0 ? 1 : 0), ttl: effect.ttl - 1 }))
+      .filter(effect => effect.ttl > 0);
+    commands.forEach((command, i) => {
+      const lemming = sim.lemmings[command.lemming];
+      // Inputs for lemmings still in the hatch do nothing and have nowhere to be drawn
+      if (!lemming) return;
+      effectsRef.current.push({
+        x: lemming.x,
+        y: lemming.y - LEMMING_HEIGHT - 2,
+        text: applied[i] ? command.ability : 'x',
+        color: applied[i] ? '#39ff14' : '#ff3366',
+        ttl: EFFECT_TICKS
+      });
+    });
+  }, []);
+
+  const reset = useCallback(() => {
+    simRef.current = createSimulation(level.engine, playbackRef.current?.replay.abilities ?? abilities);
+    pendingRef.current = [];
+    historyRef.current = [];
+    effectsRef.current = [];
+    setRunSubmit('idle');
+    setRunning(false);
+    setHud(readHud(simRef.current));
+  }, [level, abilitiesKey]);
+
+  const startPlayback = useCallback((next: Playback | null) => {
+    playbackRef.current = next;
+    setPlayback(next);
+    reset();
+  }, [reset]);
+
+  useEffect(() => {
+    playbackRef.current = null;
+    setPlayback(null);
+    setReplayError(null);
+    reset();
+    setSelectedAbility(level.abilities[0]);
+  }, [reset, level]);
+
+  useEffect(() => {
+    scrollRef.current = scrollX;
+    draw();
+  }, [scrollX, hud, draw]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setScale(Math.max(1, Math.floor(entry.contentRect.width / VIEW_WIDTH)));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!running) return;
+    let frame = 0;
+    let last = performance.now();
+    let carry = 0;
+    const tickMs = 1000 / (TICKS_PER_SECOND * SPEEDS[speedIndex]);
+
+    const loop = (now: number) => {
+      carry += now - last;
+      last = now;
+      let ticks = 0;
+      while (carry >= tickMs && ticks < MAX_TICKS_PER_FRAME && !atEnd()) {
+        advance();
+        carry -= tickMs;
+        ticks++;
+      }
+      // Drop time we could not catch up on instead of spiralling
+      if (ticks === MAX_TICKS_PER_FRAME) carry = 0;
+      if (ticks > 0) setHud(readHud(simRef.current));
+      if (atEnd()) {
+        setRunning(false);
+        return;
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, [running, speedIndex, advance]);
+
+  const handleStep = () => {
+    if (atEnd()) return;
+    setRunning(false);
+    advance();
+    setHud(readHud(simRef.current));
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (playback) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor((e.clientX - rect.left) / scale) + scrollRef.current;
+    const y = Math.floor((e.clientY - rect.top) / scale);
+
+    let picked = -1;
+    let best = PICK_RADIUS;
+    simRef.current.lemmings.forEach((lemming, i) => {
+      if (lemming.state === 'saved' || lemming.state === 'dead') return;
+      const distance = Math.max(Math.abs(lemming.x - x), Math.abs(lemming.y - LEMMING_HEIGHT / 2 - y) - LEMMING_HEIGHT / 2);
+      if (distance <= best) {
+        best = distance;
+        picked = i;
+      }
+    });
+    if (picked >= 0) {
+      pendingRef.current.push({ lemming: picked, ability: selectedAbility });
+      if (!running) handleStep();
+    }
+  };
+
+  const handleSubmitRun = async () => {
+    if (!onSubmitRun) return;
+    setRunSubmit('sending');
+    const sent = await onSubmitRun({ commands: [...historyRef.current], saved: hud.saved });
+    setRunSubmit(sent ? 'sent' : 'idle');
+  };
+
+  const recording = (): Replay => ({
+    version: REPLAY_VERSION,
+    levelHash,
+    ticks: simRef.current.tick,
+    abilities: simRef.current.abilities,
+    commands: [...historyRef.current]
+  });
+
+  const handleExport = (format: 'json' | 'binary') => {
+    const replay = recording();
+    const name = `${level.id}-${replay.ticks}`;
+    if (format === 'json') download(`${name}.replay.json`, replayToJson(replay), 'application/json');
+    else download(`${name}.replay`, new Uint8Array(encodeReplay(replay)), 'application/octet-stream');
+  };
+
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setRunning(false);
+    try {
+      const replay = parseReplayFile(new Uint8Array(await file.arrayBuffer()));
+      if (replay.levelHash !== levelHash.toLowerCase()) {
+        throw new Error(`${file.name} was recorded on another level (${replay.levelHash})`);
+      }
+      if (replay.abilities.length !== level.engine.lemmingCount) {
+        throw new Error(`${file.name} has ${replay.abilities.length} ability slots, the level ${level.engine.lemmingCount} lemmings`);
+      }
+      const { lemmings } = replayTimeline(level.engine, replay);
+      setReplayError(null);
+      startPlayback({ replay, byTick: commandsByTick(replay.commands), lemmings });
+    } catch (err: any) {
+      setReplayError(err.message);
+    }
+  };
+
+  // Scrubbing backwards re-simulates from the start, a few thousand ticks at most
+  const seek = (tick: number) => {
+    if (!playback) return;
+    simRef.current = replayState(level.engine, playback.replay, Math.max(0, Math.min(tick, playback.replay.ticks)));
+    effectsRef.current = [];
+    setHud(readHud(simRef.current));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') setScrollX(x => Math.max(0, x - 16));
+    if (e.key === 'ArrowRight') setScrollX(x => Math.min(maxScroll, x + 16));
+  };
+
+  // Playback stops where the recording did, even if the level would have gone on
+  function atEnd() {
+    const sim = simRef.current;
+    return sim.finished || (!!playbackRef.current && sim.tick >= playbackRef.current.replay.ticks);
+  }
+
+  const seconds = Math.floor(hud.tick / TICKS_PER_SECOND);
+  const timeLeft = Math.max(0, Math.floor(level.engine.timeLimit / TICKS_PER_SECOND) - seconds);
+
+  return (
+    <div className="playfield pixel-card" ref={containerRef} tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className="playfield-header">
+        <h2>{level.name}</h2>
+        <div className="playfield-hud">
+          <span>OUT {hud.released}/{level.engine.lemmingCount}</span>
+          <span>IN {hud.saved}/{level.requiredSaved}</span>
+          <span>LOST {hud.dead}</span>
+          <span>TIME {Math.floor(timeLeft / 60)}:{String(timeLeft % 60).padStart(2, '0')}</span>
+        </div>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        className="playfield-canvas"
+        width={VIEW_WIDTH}
+        height={viewHeight}
+        onClick={handleCanvasClick}
+        style={{ width: VIEW_WIDTH * scale, height: viewHeight * scale, cursor: playback ? 'default' : undefined }}
+      />
+
+      {maxScroll > 0 && (
+        <input
+          type="range"
+          className="playfield-scroll"
+          min={0}
+          max={maxScroll}
+          value={scrollX}
+          onChange={e => setScrollX(parseInt(e.target.value, 10))}
+        />
+      )}
+
+      <div className="playfield-controls">
+        <div className="ability-picker">
+          {playback ? (
+            <span>Replay, {playback.replay.commands.length} inputs</span>
+          ) : level.abilities.map(ability => (
+            <button
+              key={ability}
+              className={`pixel-button ${selectedAbility === ability ? 'primary' : ''}`}
+              onClick={() => setSelectedAbility(ability)}
+            >
+              {ability}
+            </button>
+          ))}
+        </div>
+        <div className="loop-controls">
+          <button className="pixel-button" onClick={() => setRunning(!running)} disabled={atEnd()}>
+            {running ? 'Pause' : 'Play'}
+          </button>
+          <button className="pixel-button" onClick={() => setSpeedIndex((speedIndex + 1) % SPEEDS.length)}>
+            {SPEEDS[speedIndex]}x
+          </button>
+          <button className="pixel-button" onClick={handleStep} disabled={atEnd()}>Step</button>
+          <button className="pixel-button" onClick={reset}>Restart</button>
+        </div>
+      </div>
+
+      <div className="replay-controls">
+        {playback ? (
+          <>
+            <input
+              type="range"
+              className="replay-scrub"
+              min={0}
+              max={playback.replay.ticks}
+              value={hud.tick}
+              onChange={e => seek(parseInt(e.target.value, 10))}
+            />
+            <span>{hud.tick}/{playback.replay.ticks}</span>
+            <button className="pixel-button" onClick={() => startPlayback(null)}>Exit replay</button>
+          </>
+        ) : (
+          <>
+            <button className="pixel-button" onClick={() => handleExport('json')} disabled={hud.tick === 0}>Export JSON</button>
+            <button className="pixel-button" onClick={() => handleExport('binary')} disabled={hud.tick === 0}>Export binary</button>
+          </>
+        )}
+        <button className="pixel-button" onClick={() => replayInputRef.current?.click()}>Load replay</button>
+        <input ref={replayInputRef} type="file" accept=".replay,.json" hidden onChange={handleLoadReplay} />
+      </div>
+      {replayError && <div className="replay-error">{replayError}</div>}
+      {playback && (
+        <ReplayTimeline lemmings={playback.lemmings} ticks={playback.replay.ticks} currentTick={hud.tick} onSeek={seek} />
+      )}
+
+      <DeductionPanel events={simRef.current.events} />
+
+      {hud.finished && !playback && (
+        <div className="playfield-result">
+          {hud.saved >= level.requiredSaved ? 'Level complete!' : 'Not enough lemmings saved'} ({hud.saved}/{level.engine.lemmingCount})
+          {onSubmitRun && (
+            <button className="pixel-button primary" onClick={handleSubmitRun} disabled={runSubmit !== 'idle'}>
+              {runSubmit === 'sending' ? 'Submitting...' : runSubmit === 'sent' ? 'Run submitted' : 'Submit run'}
+            </button>
+          )}
+          {!onSubmitRun && submitUnavailable && <div className="playfield-submit-note">{submitUnavailable}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Playfield;
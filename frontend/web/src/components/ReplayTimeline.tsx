@@ -0,0 +1,55 @@
+import React from 'react';
+import { LemmingTimeline, TICKS_PER_SECOND } from '../engine';
+
+interface ReplayTimelineProps {
+  lemmings: LemmingTimeline[];
+  ticks: number; // length of the replay, every bar spans 0..ticks
+  currentTick: number;
+  onSeek: (tick: number) => void;
+}
+
+const percent = (tick: number, ticks: number) => `${(100 * tick) / Math.max(1, ticks)}%`;
+
+const formatTick = (tick: number) => `${(tick / TICKS_PER_SECOND).toFixed(1)}s`;
+
+// One bar per lemming: state segments from its release on, and a marker for every input aimed at it
+const ReplayTimeline: React.FC<ReplayTimelineProps> = ({ lemmings, ticks, currentTick, onSeek }) => {
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.round(((e.clientX - rect.left) / rect.width) * ticks));
+  };
+
+  return (
+    <div className="replay-timeline">
+      {lemmings.map(lemming => (
+        <div key={lemming.lemming} className="timeline-row">
+          <span className="timeline-label">#{lemming.lemming + 1} {lemming.ability ?? 'none'}</span>
+          <div className="timeline-bar" onClick={handleClick}>
+            {lemming.states.map(({ tick, state }, i) => {
+              const end = lemming.states[i + 1]?.tick ?? ticks;
+              return (
+                <div
+                  key={tick}
+                  className={`timeline-segment ${state}`}
+                  style={{ left: percent(tick, ticks), width: percent(end - tick, ticks) }}
+                  title={`${state} from ${formatTick(tick)}`}
+                />
+              );
+            })}
+            {lemming.commands.map((command, i) => (
+              <div
+                key={i}
+                className={`timeline-command ${command.applied ? 'applied' : 'ignored'}`}
+                style={{ left: percent(command.tick, ticks) }}
+                title={`${command.ability} at ${formatTick(command.tick)}${command.applied ? '' : ' (no effect)'}`}
+              />
+            ))}
+            <div className="timeline-cursor" style={{ left: percent(currentTick, ticks) }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReplayTimeline;
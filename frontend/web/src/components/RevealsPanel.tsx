@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { LEMMINGS_ERROR_MESSAGES } from '../errors';
+import { DECRYPTION_STUCK_AFTER_SECONDS, DecryptionRequest, loadDecryptionRequests } from '../lemmings';
+
+const POLL_MS = 10_000;
+
+interface RevealsPanelProps {
+  refreshKey: number; // bump to reload right after sending a request
+  selectedRequestId: number | null;
+  onSelect: (request: DecryptionRequest | null) => void;
+  onCompleted: (request: DecryptionRequest) => void;
+}
+
+const formatElapsed = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, '0')}s`;
+  return `${Math.floor(s / 3600)}h ${String(Math.floor((s % 3600) / 60)).padStart(2, '0')}m`;
+};
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+const RevealsPanel: React.FC<RevealsPanelProps> = ({ refreshKey, selectedRequestId, onSelect, onCompleted }) => {
+  const [requests, setRequests] = useState<DecryptionRequest[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const statusesRef = useRef<Map<number, string> | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const loaded = await loadDecryptionRequests();
+      // Only transitions seen while the panel is open count as new results, not the initial load
+      const previous = statusesRef.current;
+      statusesRef.current = new Map(loaded.map(r => [r.requestId, r.status]));
+      setRequests(loaded);
+      setError(null);
+      if (previous) {
+        loaded
+          .filter(r => r.status === 'complete' && previous.get(r.requestId) !== 'complete')
+          .forEach(onCompleted);
+      }
+    } catch (e) {
+      console.error('Error loading decryption requests:', e);
+      setError('Could not load decryption requests');
+    }
+  }, [onCompleted]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const hasPending = requests.some(r => r.status === 'pending');
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasPending, load]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="reveals-panel pixel-card">
+      <div className="reveals-header">
+        <h3>Reveals</h3>
+        <button className="pixel-button" onClick={load}>Refresh</button>
+      </div>
+      {error && <p className="reveal-failure">{error}</p>}
+      {requests.length === 0 ? (
+        <p>No decryption requests yet</p>
+      ) : (
+        <div className="reveal-list">
+          {requests.map(request => {
+            const stuck = request.status === 'pending' && now - request.requestedAt > DECRYPTION_STUCK_AFTER_SECONDS;
+            const elapsed = (request.completed?.timestamp ?? now) - request.requestedAt;
+            const selected = request.requestId === selectedRequestId;
+            const range = request.fromId === request.toId ? `#${request.fromId}` : `#${request.fromId}-${request.toId}`;
+            return (
+              <div
+                key={request.requestId}
+                className={`reveal-item ${selected ? 'selected' : ''}`}
+                onClick={() => request.completed && onSelect(selected ? null : request)}
+              >
+                <div className="reveal-summary">
+                  <span>Request {request.requestId} · batch #{request.batchId} {range}</span>
+                  <span className={`reveal-status ${stuck ? 'stuck' : request.status}`}>{stuck ? 'stuck' : request.status}</span>
+                </div>
+                <div className="reveal-meta">
+                  <span title={request.stateHash}>state {shortHash(request.stateHash)}</span>
+                  <span>{request.status === 'complete' ? 'answered after' : 'waiting'} {formatElapsed(elapsed)}</span>
+                </div>
+                {request.failure && (
+                  <div className="reveal-failure">
+                    Callback reverts with {request.failure}: {LEMMINGS_ERROR_MESSAGES[request.failure] ?? 'unknown error'}
+                  </div>
+                )}
+                {stuck && <div className="reveal-failure">The oracle has not answered yet, check the relayer or request again</div>}
+                {selected && request.completed && (
+                  <div className="reveal-results">
+                    {request.completed.lemmings.map(l => (
+                      <div key={l.lemmingId}>
+                        #{l.lemmingId} {l.ability ?? 'invalid'} @ ({l.x}, {l.y}){!l.valid && ' (clamped)'}
+                      </div>
+                    ))}
+                    <div className="reveal-hint">Shown on the level map</div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevealsPanel;
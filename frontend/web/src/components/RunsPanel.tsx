@@ -0,0 +1,86 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { loadRuns, PlayerRun } from '../runs';
+
+const POLL_MS = 10_000;
+
+interface RunsPanelProps {
+  refreshKey: number; // bump to reload right after submitting a run
+  sealedBatchIds: number[]; // batches with lemmings nobody has asked to reveal yet
+  onRevealBatch?: (batchId: number) => void; // owner only, runs are verified once their batch is revealed
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const RunsPanel: React.FC<RunsPanelProps> = ({ refreshKey, sealedBatchIds, onRevealBatch }) => {
+  const [runs, setRuns] = useState<PlayerRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setRuns(await loadRuns());
+      setError(null);
+    } catch (e) {
+      console.error('Error loading runs:', e);
+      setError('Could not load runs');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const hasPending = runs.some(r => r.status === 'pending');
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasPending, load]);
+
+  // Batches that pending runs wait for come first
+  const waiting = new Set(runs.filter(r => r.status === 'pending').map(r => r.batchId));
+  const revealable = [...sealedBatchIds].sort((a, b) => Number(waiting.has(b)) - Number(waiting.has(a)) || a - b);
+
+  return (
+    <div className="reveals-panel runs-panel pixel-card">
+      <div className="reveals-header">
+        <h3>Runs</h3>
+        <button className="pixel-button" onClick={load}>Refresh</button>
+      </div>
+      {error && <p className="reveal-failure">{error}</p>}
+      {onRevealBatch && revealable.map(batchId => (
+        <button key={batchId} className="run-reveal-btn pixel-button success" onClick={() => onRevealBatch(batchId)}>
+          Reveal batch #{batchId}{waiting.has(batchId) && ' (runs waiting)'}
+        </button>
+      ))}
+      {runs.length === 0 ? (
+        <p>No runs submitted yet</p>
+      ) : (
+        <div className="reveal-list">
+          {runs.map(run => (
+            <div key={run.runId} className="reveal-item run-item">
+              <div className="reveal-summary">
+                <span>Run {run.runId} · batch #{run.batchId}</span>
+                <span className={`reveal-status run-status ${run.status}`}>{run.status}</span>
+              </div>
+              <div className="reveal-meta">
+                <span>{shortAddress(run.player)} · {run.commandCount} commands</span>
+                <span>
+                  claimed {run.claimedSaved} saved{run.verifiedSaved !== null && `, replay saved ${run.verifiedSaved}`}
+                </span>
+              </div>
+              {run.status === 'pending' && (
+                <div className="reveal-hint">
+                  {sealedBatchIds.includes(run.batchId)
+                    ? 'Verified once the batch is revealed'
+                    : 'Waiting for the verifier to replay it'}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunsPanel;
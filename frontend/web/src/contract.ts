@@ -1,11 +1,36 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
+import lemmingsAbiJson from "./abi/LemmingsFHE.json";
 import configJson from "./config.json";
+import { ChainDeployment, ContractName, DEFAULT_CHAIN_ID, getDeployment, isSupportedChain } from "./deployments";
+import { RpcPool } from "./rpcPool";
+import type { LemmingsFHE } from "../../../types";
 
-export const ABI = (abiJson as any).abi || abiJson;
+export type { LemmingsFHE };
+
+export const ABI: ethers.InterfaceAbi = abiJson.abi;
+export const LEMMINGS_ABI: ethers.InterfaceAbi = lemmingsAbiJson.abi;
 export const config = configJson;
 
+// Chain the app reads from and writes to, follows the connected wallet while it is on a supported chain
+let activeChainId = DEFAULT_CHAIN_ID;
+
+export const getActiveChainId = () => activeChainId;
+
+export function setActiveChain(chainId: number) {
+  if (!isSupportedChain(chainId)) throw new Error(`Unsupported network: chain ${chainId}`);
+  activeChainId = chainId;
+}
+
+export const getActiveDeployment = (): ChainDeployment => getDeployment(activeChainId)!;
+
+export const contractAddress = (name: ContractName): string => getActiveDeployment().contracts[name];
+
+// Same cast as LemmingsFHE__factory.connect, the bindings are generated from the artifact in ./abi
+const connectLemmings = (runner: ethers.ContractRunner) =>
+  new ethers.Contract(contractAddress("LemmingsFHE"), LEMMINGS_ABI, runner) as unknown as LemmingsFHE;
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -18,43 +43,34 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+const pools = new Map<number, RpcPool>();
+
+export function rpcUrlsFor(chainId: number): string[] {
+  return (config.rpcUrls as Record<string, string[]>)[String(chainId)] ?? [];
+}
+
+// One pool per chain for the whole session, contracts and the indexer share its provider
+export function getRpcPool(chainId: number = activeChainId): RpcPool {
+  let pool = pools.get(chainId);
+  if (!pool) {
+    pool = new RpcPool({ chainId, urls: rpcUrlsFor(chainId) });
+    pools.set(chainId, pool);
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return pool;
+}
+
+export const getReadProvider = (chainId?: number) => getRpcPool(chainId).provider;
 
 export async function getContractReadOnly() {
+  const address = contractAddress("UniversalAdapter");
+  if (!address) {
+    return null;
+  }
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getReadProvider();
+    const contract = new ethers.Contract(address, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -66,6 +82,35 @@ export async function getContractReadOnly() {
   }
 }
 
+export async function getLemmingsContractReadOnly(): Promise<LemmingsFHE | null> {
+  const address = contractAddress("LemmingsFHE");
+  if (!address) {
+    return null;
+  }
+  try {
+    const provider = getReadProvider();
+    const contract = connectLemmings(provider);
+    
+    const code = await retry(() => provider.getCode(address));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only LemmingsFHE contract:", error);
+    return null;
+  }
+}
+
+export async function getSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
@@ -73,7 +118,7 @@ export async function getContractWithSigner() {
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(contractAddress("UniversalAdapter"), ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +126,28 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getLemmingsContractWithSigner(): Promise<LemmingsFHE> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!contractAddress("LemmingsFHE")) {
+    throw new Error(`LemmingsFHE is not deployed on ${getActiveDeployment().name}`);
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== activeChainId) {
+      throw new Error(`Wallet is on chain ${chainId}, switch it to ${getActiveDeployment().name}`);
+    }
+    const signer = await provider.getSigner();
+    const contract = connectLemmings(signer);
+    return contract;
+  } catch (error) {
+    console.error("Failed to create LemmingsFHE contract with signer:", error);
+    throw error;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+// deployments.ts
+import configJson from "./config.json";
+
+export type ContractName = "LemmingsFHE" | "UniversalAdapter";
+
+export interface FhevmInfra {
+  ACL: string;
+  FHEVMExecutor: string;
+  KMSVerifier: string;
+  InputVerifier: string;
+  DecryptionOracle: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+  relayerUrl: string; // empty on chains served by the hardhat mock relayer
+}
+
+export interface ChainDeployment {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorerUrl: string;
+  rpcUrls: string[];
+  contracts: Record<ContractName, string>; // empty string when not deployed on this chain
+  fhevm: FhevmInfra;
+  deployer: string;
+}
+
+type ManifestEntry = Omit<ChainDeployment, "chainId" | "rpcUrls">;
+
+const manifest = configJson.deployments as Record<string, ManifestEntry>;
+const rpcUrls = configJson.rpcUrls as Record<string, string[]>;
+
+export const DEFAULT_CHAIN_ID: number = configJson.chainId;
+
+export const SUPPORTED_CHAIN_IDS: number[] = Object.keys(manifest).map(Number);
+
+export function getDeployment(chainId: number): ChainDeployment | null {
+  const entry = manifest[String(chainId)];
+  if (!entry) return null;
+  return { ...entry, chainId, rpcUrls: rpcUrls[String(chainId)] ?? [] };
+}
+
+export const isSupportedChain = (chainId: number): boolean => SUPPORTED_CHAIN_IDS.includes(chainId);
+
+export const chainName = (chainId: number): string => getDeployment(chainId)?.name ?? `chain ${chainId}`;
+
+// EIP-3085 parameters for wallet_addEthereumChain
+export function addChainParams(chainId: number) {
+  const deployment = getDeployment(chainId);
+  if (!deployment) throw new Error(`No deployment configured for chain ${chainId}`);
+  return {
+    chainId: `0x${chainId.toString(16)}`,
+    chainName: deployment.name,
+    nativeCurrency: deployment.nativeCurrency,
+    rpcUrls: deployment.rpcUrls,
+    blockExplorerUrls: deployment.blockExplorerUrl ? [deployment.blockExplorerUrl] : undefined,
+  };
+}
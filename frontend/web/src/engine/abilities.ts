@@ -0,0 +1,31 @@
+// engine/abilities.ts
+export type AbilityType = "climb" | "dig" | "build" | "block" | "float";
+
+// Ability ids as encrypted on-chain (euint32), LemmingsFHE.ABILITY_COUNT must match the number of members
+export enum AbilityId {
+  Climb = 0,
+  Dig = 1,
+  Build = 2,
+  Block = 3,
+  Float = 4,
+}
+
+export const ABILITY_NAMES: Record<AbilityId, AbilityType> = {
+  [AbilityId.Climb]: "climb",
+  [AbilityId.Dig]: "dig",
+  [AbilityId.Build]: "build",
+  [AbilityId.Block]: "block",
+  [AbilityId.Float]: "float",
+};
+
+// Indexed by AbilityId
+export const ABILITY_TYPES: AbilityType[] = Object.values(ABILITY_NAMES);
+
+export const ABILITY_COUNT = ABILITY_TYPES.length;
+
+// An input proof covers at most 2048 bits, i.e. 64 euint32 or 21 lemmings of three values each
+export const MAX_LEMMINGS_PER_PROOF = 21;
+
+export const abilityName = (abilityId: number): AbilityType | null => ABILITY_TYPES[abilityId] ?? null;
+
+export const abilityId = (ability: AbilityType): AbilityId => ABILITY_TYPES.indexOf(ability);
@@ -0,0 +1,72 @@
+// engine/deduction.ts
+import { ABILITY_TYPES, AbilityType } from "./abilities";
+import { LemmingEvent } from "./simulation";
+
+// Behaviour only a lemming that has the ability, and was given it, can show
+const PROVES: Partial<Record<LemmingEvent["type"], AbilityType>> = {
+  climbed: "climb",
+  blocked: "block",
+  dug: "dig",
+  built: "build",
+};
+
+export interface AbilityDeduction {
+  lemming: number;
+  known: AbilityType | null; // proven by an assignment that took or by behaviour
+  candidates: AbilityType[]; // abilities nothing observed contradicts, empty once every one was refused
+  ruledOut: AbilityType[];
+  events: LemmingEvent[];
+}
+
+// Turns the observation log into what a player may conclude about every released lemming's hidden ability
+export function deduceAbilities(events: LemmingEvent[], abilities: AbilityType[] = ABILITY_TYPES): AbilityDeduction[] {
+  const deductions: AbilityDeduction[] = [];
+  for (const event of events) {
+    const deduction = (deductions[event.lemming] ??= {
+      lemming: event.lemming,
+      known: null,
+      candidates: [],
+      ruledOut: [],
+      events: [],
+    });
+    deduction.events.push(event);
+    if (event.type === "assigned") deduction.known = event.ability;
+    else if (event.type === "fell" && event.floated) deduction.known = "float";
+    else if (PROVES[event.type]) deduction.known = PROVES[event.type]!;
+    // A refusal while busy says nothing, only a lemming without the ability refuses it outright
+    if (event.type === "rejected" && event.reason === "ability" && !deduction.ruledOut.includes(event.ability)) {
+      deduction.ruledOut.push(event.ability);
+    }
+  }
+  for (const deduction of deductions) {
+    if (!deduction) continue;
+    deduction.candidates = deduction.known ? [deduction.known] : abilities.filter(a => !deduction.ruledOut.includes(a));
+  }
+  return deductions.filter(Boolean);
+}
+
+export function describeEvent(event: LemmingEvent): string {
+  switch (event.type) {
+    case "released":
+      return "left the hatch";
+    case "assigned":
+      return `took ${event.ability}`;
+    case "rejected":
+      return event.reason === "ability" ? `refused ${event.ability}` : `could not take ${event.ability} right now`;
+    case "climbed":
+      return `climbed ${event.height}px`;
+    case "fell":
+      if (!event.survived) return `fell ${event.height}px`;
+      return event.floated ? `floated down ${event.height}px` : `survived a ${event.height}px fall`;
+    case "blocked":
+      return `turned lemming #${event.other + 1} around`;
+    case "dug":
+      return `dug through ${event.depth}px`;
+    case "built":
+      return `built ${event.bricks} bricks`;
+    case "saved":
+      return "reached the exit";
+    case "died":
+      return event.cause === "fall" ? "died from the fall" : "fell out of the level";
+  }
+}
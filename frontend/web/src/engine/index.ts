@@ -0,0 +1,8 @@
+// engine/index.ts
+export * from "./abilities";
+export * from "./terrain";
+export * from "./simulation";
+export * from "./level";
+export * from "./run";
+export * from "./replay";
+export * from "./deduction";
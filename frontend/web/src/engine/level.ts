@@ -0,0 +1,258 @@
+// engine/level.ts
+import { AbilityType, ABILITY_TYPES } from "./abilities";
+import { EngineLevel, Point, TICKS_PER_SECOND } from "./simulation";
+import { createTerrain, Terrain, TERRAIN_DIRT, TERRAIN_EMPTY, TERRAIN_STEEL } from "./terrain";
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export const MAX_LEVEL_WIDTH = 4096;
+export const MAX_LEVEL_HEIGHT = 512;
+export const MAX_LEMMINGS = 100;
+
+// Tile map characters
+export const TILE_LEGEND: Record<string, number> = {
+  ".": TERRAIN_EMPTY,
+  "#": TERRAIN_DIRT,
+  S: TERRAIN_STEEL,
+};
+
+export interface TileTerrain {
+  type: "tiles";
+  tileSize: number;
+  rows: string[];
+}
+
+// One byte per pixel (0 empty, 1 dirt, 2 steel), base64 encoded
+export interface BitmapTerrain {
+  type: "bitmap";
+  data: string;
+}
+
+export interface LevelFile {
+  version: number;
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  terrain: TileTerrain | BitmapTerrain;
+  entrance: Point;
+  exit: Point;
+  lemmingCount: number;
+  releaseInterval: number; // ticks
+  requiredSavePercent: number;
+  timeLimitSeconds: number;
+  abilities: AbilityType[]; // abilities in play for the encrypted lemmings
+}
+
+export interface Level {
+  id: string;
+  name: string;
+  requiredSavePercent: number;
+  requiredSaved: number;
+  abilities: AbilityType[];
+  engine: EngineLevel;
+}
+
+export interface LevelIssue {
+  path: string;
+  message: string;
+}
+
+export class LevelValidationError extends Error {
+  issues: LevelIssue[];
+
+  constructor(issues: LevelIssue[]) {
+    super(`Invalid level: ${issues.map(issue => `${issue.path || "<root>"}: ${issue.message}`).join("; ")}`);
+    this.name = "LevelValidationError";
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// Collects every schema violation with its JSON path instead of stopping at the first one
+function validateLevelFile(input: unknown): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const fail = (path: string, message: string) => issues.push({ path, message });
+
+  const integer = (value: unknown, path: string, min: number, max: number) => {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      fail(path, "must be an integer");
+      return false;
+    }
+    if (value < min || value > max) {
+      fail(path, `must be between ${min} and ${max}`);
+      return false;
+    }
+    return true;
+  };
+
+  const string = (value: unknown, path: string) => {
+    if (typeof value !== "string" || value.trim() === "") {
+      fail(path, "must be a non-empty string");
+      return false;
+    }
+    return true;
+  };
+
+  if (!isObject(input)) {
+    fail("", "must be an object");
+    return issues;
+  }
+
+  if (input.version !== LEVEL_FORMAT_VERSION) {
+    fail("version", `unsupported version ${JSON.stringify(input.version)}, expected ${LEVEL_FORMAT_VERSION}`);
+    return issues;
+  }
+
+  if (string(input.id, "id") && !/^[a-z0-9-]+$/.test(input.id as string)) {
+    fail("id", "must only contain lowercase letters, digits and dashes");
+  }
+  string(input.name, "name");
+  const hasSize = [integer(input.width, "width", 1, MAX_LEVEL_WIDTH), integer(input.height, "height", 1, MAX_LEVEL_HEIGHT)].every(Boolean);
+  const width = input.width as number;
+  const height = input.height as number;
+
+  const terrain = input.terrain;
+  if (!isObject(terrain)) {
+    fail("terrain", "must be an object");
+  } else if (terrain.type === "tiles") {
+    const tilesOk = integer(terrain.tileSize, "terrain.tileSize", 1, 64);
+    if (!Array.isArray(terrain.rows) || terrain.rows.length === 0) {
+      fail("terrain.rows", "must be a non-empty array of strings");
+    } else {
+      const tileSize = terrain.tileSize as number;
+      if (tilesOk && hasSize && terrain.rows.length * tileSize !== height) {
+        fail("terrain.rows", `${terrain.rows.length} rows of ${tileSize}px do not match height ${height}`);
+      }
+      terrain.rows.forEach((row, i) => {
+        const path = join("terrain.rows", i);
+        if (typeof row !== "string") {
+          fail(path, "must be a string");
+          return;
+        }
+        if (tilesOk && hasSize && row.length * tileSize !== width) {
+          fail(path, `${row.length} tiles of ${tileSize}px do not match width ${width}`);
+        }
+        const bad = [...row].findIndex(char => !(char in TILE_LEGEND));
+        if (bad >= 0) fail(path, `unknown tile ${JSON.stringify(row[bad])} at column ${bad}`);
+      });
+    }
+  } else if (terrain.type === "bitmap") {
+    if (typeof terrain.data !== "string") {
+      fail("terrain.data", "must be a base64 string");
+    } else {
+      let pixels: Uint8Array | null = null;
+      try {
+        pixels = decodeBase64(terrain.data);
+      } catch {
+        fail("terrain.data", "is not valid base64");
+      }
+      if (pixels && hasSize && pixels.length !== width * height) {
+        fail("terrain.data", `decodes to ${pixels.length} pixels, expected ${width * height}`);
+      }
+      if (pixels && pixels.some(p => p > TERRAIN_STEEL)) {
+        fail("terrain.data", "contains unknown pixel values");
+      }
+    }
+  } else {
+    fail("terrain.type", 'must be "tiles" or "bitmap"');
+  }
+
+  for (const key of ["entrance", "exit"]) {
+    const point = input[key];
+    if (!isObject(point)) {
+      fail(key, "must be an object with x and y");
+      continue;
+    }
+    integer(point.x, join(key, "x"), 0, hasSize ? width - 1 : MAX_LEVEL_WIDTH);
+    integer(point.y, join(key, "y"), 0, hasSize ? height - 1 : MAX_LEVEL_HEIGHT);
+  }
+
+  integer(input.lemmingCount, "lemmingCount", 1, MAX_LEMMINGS);
+  integer(input.releaseInterval, "releaseInterval", 1, 10 * TICKS_PER_SECOND);
+  integer(input.requiredSavePercent, "requiredSavePercent", 0, 100);
+  integer(input.timeLimitSeconds, "timeLimitSeconds", 1, 60 * 60);
+
+  const abilities = input.abilities;
+  if (!Array.isArray(abilities) || abilities.length === 0) {
+    fail("abilities", "must be a non-empty array");
+  } else {
+    abilities.forEach((ability, i) => {
+      if (!ABILITY_TYPES.includes(ability as AbilityType)) {
+        fail(join("abilities", i), `must be one of ${ABILITY_TYPES.join(", ")}`);
+      } else if (abilities.indexOf(ability) !== i) {
+        fail(join("abilities", i), `duplicate ability ${ability}`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function buildTerrain(file: LevelFile): Terrain {
+  if (file.terrain.type === "bitmap") {
+    return createTerrain(file.width, file.height, decodeBase64(file.terrain.data));
+  }
+  const { tileSize, rows } = file.terrain;
+  const terrain = createTerrain(file.width, file.height);
+  rows.forEach((row, tileY) => {
+    [...row].forEach((char, tileX) => {
+      const value = TILE_LEGEND[char];
+      if (value === TERRAIN_EMPTY) return;
+      for (let y = tileY * tileSize; y < (tileY + 1) * tileSize; y++) {
+        terrain.pixels.fill(value, y * file.width + tileX * tileSize, y * file.width + (tileX + 1) * tileSize);
+      }
+    });
+  });
+  return terrain;
+}
+
+// Validates untrusted JSON, throws LevelValidationError listing every issue
+export function parseLevelFile(input: unknown): LevelFile {
+  const issues = validateLevelFile(input);
+  if (issues.length > 0) throw new LevelValidationError(issues);
+  return input as LevelFile;
+}
+
+export function loadLevel(input: unknown): Level {
+  const file = parseLevelFile(input);
+  return {
+    id: file.id,
+    name: file.name,
+    requiredSavePercent: file.requiredSavePercent,
+    requiredSaved: Math.ceil((file.lemmingCount * file.requiredSavePercent) / 100),
+    abilities: [...file.abilities],
+    engine: {
+      terrain: buildTerrain(file),
+      entrance: { ...file.entrance },
+      exit: { ...file.exit },
+      lemmingCount: file.lemmingCount,
+      releaseInterval: file.releaseInterval,
+      timeLimit: file.timeLimitSeconds * TICKS_PER_SECOND,
+    },
+  };
+}
+
+export const encodeLevelFile = (file: LevelFile): Uint8Array => new TextEncoder().encode(JSON.stringify(file));
+
+export function decodeLevelFile(bytes: Uint8Array): LevelFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (e: any) {
+    throw new LevelValidationError([{ path: "", message: `is not valid JSON (${e.message})` }]);
+  }
+  return parseLevelFile(json);
+}
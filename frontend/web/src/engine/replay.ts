@@ -0,0 +1,237 @@
+// engine/replay.ts
+import { abilityId, abilityName, AbilityType, ABILITY_TYPES } from "./abilities";
+import { decodeRunRecord, encodeRunRecord } from "./run";
+import {
+  commandsByTick,
+  createSimulation,
+  EngineLevel,
+  LemmingState,
+  SimulationState,
+  step,
+  TimedCommand,
+} from "./simulation";
+
+export const REPLAY_VERSION = 1;
+export const REPLAY_FORMAT = "lemmings-replay";
+
+// "LMRP", version (uint8), level hash (32 bytes), ticks (uint32), slot count (uint16), one ability id per slot (uint8),
+// the run record exactly as submitted with submitRun, then a CRC-32 of everything before it (uint32)
+const MAGIC = [0x4c, 0x4d, 0x52, 0x50];
+const NO_ABILITY = 0xff;
+const CHECKSUM_BYTES = 4;
+
+// Everything needed to play a run back: the level it was played on, the hatch abilities and every input
+export interface Replay {
+  version: number;
+  levelHash: string; // levelContentHash of the level file, 0x-prefixed
+  ticks: number; // tick the recording stopped at
+  abilities: (AbilityType | null)[]; // hatch slot abilities the run was played with
+  commands: TimedCommand[]; // every player input in tick order, including ones that did not take effect
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(`Invalid replay: ${message}`);
+    this.name = "ReplayError";
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const hexToBytes = (hex: string): Uint8Array | null => {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(hex)) return null;
+  return Uint8Array.from({ length: 32 }, (_, i) => parseInt(hex.slice(2 + i * 2, 4 + i * 2), 16));
+};
+
+const bytesToHex = (bytes: Uint8Array) => "0x" + Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isUint = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isAbility = (value: unknown): value is AbilityType => ABILITY_TYPES.includes(value as AbilityType);
+
+const isSlot = (value: unknown): value is AbilityType | null => value === null || isAbility(value);
+
+const isCommand = (value: unknown): value is TimedCommand =>
+  isObject(value) && isUint(value.tick) && isUint(value.lemming) && isAbility(value.ability);
+
+// The checksummed part of the binary form, the JSON form carries the same checksum
+function encodeBody(replay: Replay): Uint8Array {
+  const levelHash = hexToBytes(replay.levelHash);
+  if (!levelHash) throw new ReplayError(`level hash ${replay.levelHash} is not 32 bytes of hex`);
+  const record = encodeRunRecord(replay.commands);
+  const header = 4 + 1 + 32 + 4 + 2 + replay.abilities.length;
+  const bytes = new Uint8Array(header + record.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set(MAGIC, 0);
+  view.setUint8(4, replay.version);
+  bytes.set(levelHash, 5);
+  view.setUint32(37, replay.ticks);
+  view.setUint16(41, replay.abilities.length);
+  replay.abilities.forEach((ability, i) => view.setUint8(43 + i, ability ? abilityId(ability) : NO_ABILITY));
+  bytes.set(record, header);
+  return bytes;
+}
+
+export function encodeReplay(replay: Replay): Uint8Array {
+  const body = encodeBody(replay);
+  const bytes = new Uint8Array(body.length + CHECKSUM_BYTES);
+  bytes.set(body);
+  new DataView(bytes.buffer).setUint32(body.length, crc32(body));
+  return bytes;
+}
+
+export function decodeReplay(bytes: Uint8Array): Replay {
+  if (bytes.length < 43 + CHECKSUM_BYTES || MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new ReplayError("not a replay file");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(4);
+  if (version !== REPLAY_VERSION) throw new ReplayError(`unsupported version ${version}`);
+  const body = bytes.subarray(0, bytes.length - CHECKSUM_BYTES);
+  if (view.getUint32(body.length) !== crc32(body)) throw new ReplayError("checksum mismatch");
+
+  const slots = view.getUint16(41);
+  if (43 + slots > body.length) throw new ReplayError(`${bytes.length} bytes do not hold ${slots} ability slots`);
+  const abilities = Array.from({ length: slots }, (_, i) => {
+    const id = view.getUint8(43 + i);
+    const ability = abilityName(id);
+    if (id !== NO_ABILITY && !ability) throw new ReplayError(`slot ${i} has unknown ability id ${id}`);
+    return ability;
+  });
+  let commands: TimedCommand[];
+  try {
+    commands = decodeRunRecord(body.subarray(43 + slots));
+  } catch (e: any) {
+    throw new ReplayError(e.message);
+  }
+  const outside = commands.find(command => command.lemming >= slots);
+  if (outside) {
+    throw new ReplayError(`tick ${outside.tick} targets lemming ${outside.lemming}, there are ${slots} slots`);
+  }
+  return {
+    version,
+    levelHash: bytesToHex(bytes.subarray(5, 37)),
+    ticks: view.getUint32(37),
+    abilities,
+    commands,
+  };
+}
+
+export const replayChecksum = (replay: Replay): string =>
+  "0x" + crc32(encodeBody(replay)).toString(16).padStart(8, "0");
+
+// Readable form for diffing runs by hand, checksummed like the binary form
+export function replayToJson(replay: Replay): string {
+  return JSON.stringify(
+    {
+      format: REPLAY_FORMAT,
+      version: replay.version,
+      levelHash: replay.levelHash,
+      ticks: replay.ticks,
+      abilities: replay.abilities,
+      commands: replay.commands.map(({ tick, lemming, ability }) => ({ tick, lemming, ability })),
+      checksum: replayChecksum(replay),
+    },
+    null,
+    2
+  );
+}
+
+export function replayFromJson(text: string): Replay {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ReplayError("not valid JSON");
+  }
+  if (!isObject(json) || json.format !== REPLAY_FORMAT) throw new ReplayError("not a replay file");
+  const { version, levelHash, ticks, abilities, commands, checksum } = json;
+  if (version !== REPLAY_VERSION) throw new ReplayError(`unsupported version ${JSON.stringify(version)}`);
+  if (typeof levelHash !== "string" || !hexToBytes(levelHash)) {
+    throw new ReplayError("levelHash must be 32 bytes of hex");
+  }
+  if (!isUint(ticks)) throw new ReplayError("ticks must be a non-negative integer");
+  if (!Array.isArray(abilities) || !abilities.every(isSlot)) {
+    throw new ReplayError("abilities must list an ability name or null per slot");
+  }
+  if (!Array.isArray(commands) || !commands.every(isCommand)) {
+    throw new ReplayError("commands must be a list of { tick, lemming, ability }");
+  }
+
+  const replay: Replay = {
+    version,
+    levelHash: levelHash.toLowerCase(),
+    ticks,
+    abilities,
+    commands: commands.map(({ tick, lemming, ability }) => ({ tick, lemming, ability })),
+  };
+  // Round trip through the binary form so both accept exactly the same replays
+  const decoded = decodeReplay(encodeReplay(replay));
+  if (replayChecksum(decoded) !== checksum) throw new ReplayError("checksum mismatch");
+  return decoded;
+}
+
+// Accepts both the binary and the JSON form
+export function parseReplayFile(bytes: Uint8Array): Replay {
+  const first = bytes.find(b => b !== 0x20 && b !== 0x0a && b !== 0x0d && b !== 0x09);
+  return first === 0x7b ? replayFromJson(new TextDecoder().decode(bytes)) : decodeReplay(bytes);
+}
+
+// Simulation state of the replay after `tick` ticks, scrubbing backwards replays from the start
+export function replayState(level: EngineLevel, replay: Replay, tick: number): SimulationState {
+  const state = createSimulation(level, replay.abilities);
+  const byTick = commandsByTick(replay.commands);
+  while (!state.finished && state.tick < tick) {
+    step(state, byTick.get(state.tick));
+  }
+  return state;
+}
+
+export interface LemmingTimeline {
+  lemming: number; // hatch slot
+  ability: AbilityType | null;
+  releasedAt: number;
+  states: { tick: number; state: LemmingState }[]; // every state change, starting with the release
+  commands: { tick: number; ability: AbilityType; applied: boolean }[];
+}
+
+// Plays the whole replay once and collects what happened to every lemming, for the playback timeline
+export function replayTimeline(level: EngineLevel, replay: Replay): { ticks: number; lemmings: LemmingTimeline[] } {
+  const state = createSimulation(level, replay.abilities);
+  const byTick = commandsByTick(replay.commands);
+  const lemmings: LemmingTimeline[] = [];
+  while (!state.finished) {
+    const tick = state.tick;
+    const commands = byTick.get(tick) ?? [];
+    const applied = step(state, commands);
+    for (const lemming of state.lemmings) {
+      const timeline = (lemmings[lemming.index] ??= {
+        lemming: lemming.index,
+        ability: lemming.ability,
+        releasedAt: tick,
+        states: [],
+        commands: [],
+      });
+      if (timeline.states[timeline.states.length - 1]?.state !== lemming.state) {
+        timeline.states.push({ tick, state: lemming.state });
+      }
+    }
+    commands.forEach((command, i) =>
+      lemmings[command.lemming]?.commands.push({ tick, ability: command.ability, applied: applied[i] })
+    );
+  }
+  return { ticks: state.tick, lemmings };
+}
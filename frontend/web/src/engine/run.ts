@@ -0,0 +1,97 @@
+// engine/run.ts
+import { abilityId, abilityName, AbilityType } from "./abilities";
+import { EngineLevel, runSimulation, TimedCommand } from "./simulation";
+
+export const RUN_RECORD_VERSION = 1;
+
+// version (uint8), command count (uint16), then tick (uint32), lemming (uint16), ability id (uint8) per command
+const HEADER_BYTES = 3;
+const COMMAND_BYTES = 7;
+export const MAX_RUN_COMMANDS = 0xffff;
+
+export class RunRecordError extends Error {
+  constructor(message: string) {
+    super(`Invalid run record: ${message}`);
+    this.name = "RunRecordError";
+  }
+}
+
+// Compact binary form of the commands a player issued, submitted on-chain with submitRun
+export function encodeRunRecord(commands: TimedCommand[]): Uint8Array {
+  if (commands.length > MAX_RUN_COMMANDS) throw new RunRecordError(`more than ${MAX_RUN_COMMANDS} commands`);
+  const bytes = new Uint8Array(HEADER_BYTES + commands.length * COMMAND_BYTES);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, RUN_RECORD_VERSION);
+  view.setUint16(1, commands.length);
+  commands.forEach(({ tick, lemming, ability }, i) => {
+    const offset = HEADER_BYTES + i * COMMAND_BYTES;
+    view.setUint32(offset, tick);
+    view.setUint16(offset + 4, lemming);
+    view.setUint8(offset + 6, abilityId(ability));
+  });
+  return bytes;
+}
+
+// Decodes an untrusted record, commands must be in tick order
+export function decodeRunRecord(bytes: Uint8Array): TimedCommand[] {
+  if (bytes.length < HEADER_BYTES) throw new RunRecordError(`${bytes.length} bytes is too short`);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(0);
+  if (version !== RUN_RECORD_VERSION) throw new RunRecordError(`unsupported version ${version}`);
+  const count = view.getUint16(1);
+  if (bytes.length !== HEADER_BYTES + count * COMMAND_BYTES) {
+    throw new RunRecordError(`${bytes.length} bytes do not hold ${count} commands`);
+  }
+
+  const commands: TimedCommand[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = HEADER_BYTES + i * COMMAND_BYTES;
+    const tick = view.getUint32(offset);
+    const ability = abilityName(view.getUint8(offset + 6));
+    if (!ability) throw new RunRecordError(`command ${i} has unknown ability id ${view.getUint8(offset + 6)}`);
+    if (i > 0 && tick < commands[i - 1].tick) throw new RunRecordError(`command ${i} goes back to tick ${tick}`);
+    commands.push({ tick, lemming: view.getUint16(offset + 4), ability });
+  }
+  return commands;
+}
+
+// Hatch slot abilities of a batch, slot n takes lemmingId n + 1; empty slots and invalid lemmings have none
+export function slotAbilities(
+  lemmingCount: number,
+  reveals: { lemmingId: number; abilityId: number; valid: boolean }[]
+): (AbilityType | null)[] {
+  const slots: (AbilityType | null)[] = Array(lemmingCount).fill(null);
+  for (const { lemmingId, abilityId: id, valid } of reveals) {
+    if (lemmingId >= 1 && lemmingId <= lemmingCount && valid) slots[lemmingId - 1] = abilityName(id);
+  }
+  return slots;
+}
+
+export interface RunVerdict {
+  valid: boolean;
+  saved: number; // lemmings saved by the replay, 0 when the record does not decode
+  reason: string | null;
+}
+
+// Replays a submitted run with the revealed abilities, it is valid when the replay saves exactly claimedSaved
+export function verifyRun(
+  level: EngineLevel,
+  abilities: (AbilityType | null)[],
+  record: Uint8Array,
+  claimedSaved: number
+): RunVerdict {
+  let commands: TimedCommand[];
+  try {
+    commands = decodeRunRecord(record);
+  } catch (e: any) {
+    return { valid: false, saved: 0, reason: e.message };
+  }
+  const outOfRange = commands.find(c => c.tick >= level.timeLimit || c.lemming >= level.lemmingCount);
+  if (outOfRange) {
+    return { valid: false, saved: 0, reason: `command for lemming ${outOfRange.lemming} at tick ${outOfRange.tick} is outside the level` };
+  }
+
+  const { saved } = runSimulation(level, abilities, commands);
+  const reason = saved === claimedSaved ? null : `claimed ${claimedSaved} saved, the replay saved ${saved}`;
+  return { valid: reason === null, saved, reason };
+}
@@ -0,0 +1,453 @@
+// engine/simulation.ts
+import { AbilityType } from "./abilities";
+import { cloneTerrain, digRow, getPixel, isSolid, setPixel, Terrain, TERRAIN_DIRT, TERRAIN_STEEL } from "./terrain";
+
+export const TICKS_PER_SECOND = 20;
+
+export const LEMMING_HEIGHT = 10;
+export const FALL_SPEED = 3;
+export const FLOAT_SPEED = 1;
+export const MAX_SAFE_FALL = 60;
+export const STEP_UP = 6;
+export const STEP_DOWN = 3;
+export const DIG_HALF_WIDTH = 4;
+export const DIG_INTERVAL = 2;
+export const BUILD_INTERVAL = 8;
+export const BRICK_WIDTH = 6;
+export const BRICKS_PER_BUILD = 12;
+export const BLOCKER_REACH = 6;
+export const EXIT_RADIUS = 3;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface EngineLevel {
+  terrain: Terrain;
+  entrance: Point;
+  exit: Point;
+  lemmingCount: number;
+  releaseInterval: number; // ticks between two lemmings leaving the hatch
+  timeLimit: number; // ticks
+}
+
+export type LemmingState = "walking" | "falling" | "climbing" | "digging" | "building" | "blocking" | "saved" | "dead";
+
+export type Direction = 1 | -1;
+
+export interface SimLemming {
+  index: number; // release order, matches the level ability slot
+  x: number;
+  y: number; // lowest empty pixel of the body, ground is at y + 1
+  dir: Direction;
+  state: LemmingState;
+  ability: AbilityType | null; // hidden ability, only effective once assigned
+  canClimb: boolean;
+  canFloat: boolean;
+  fallDistance: number;
+  stateTicks: number;
+  stateStartY: number; // y when the current state began, for climb heights and dig depths
+  bricksLeft: number;
+  stopped: number[]; // lemmings this one has turned around while blocking, each reported once
+}
+
+// A player assigning an ability to a released lemming
+export interface Command {
+  lemming: number;
+  ability: AbilityType;
+}
+
+export interface TimedCommand extends Command {
+  tick: number;
+}
+
+// Something a player watching the level could have seen a lemming do
+export type LemmingEvent = { tick: number; lemming: number } & (
+  | { type: "released" }
+  | { type: "assigned"; ability: AbilityType }
+  | { type: "rejected"; ability: AbilityType; reason: "ability" | "state" } // "ability": the lemming does not have it
+  | { type: "climbed"; height: number } // reached the top of a wall
+  | { type: "fell"; height: number; survived: boolean; floated: boolean }
+  | { type: "blocked"; other: number } // turned another lemming around
+  | { type: "dug"; depth: number } // stopped digging after this many pixels
+  | { type: "built"; bricks: number }
+  | { type: "saved" }
+  | { type: "died"; cause: "fall" | "out-of-level" }
+);
+
+export type LemmingEventType = LemmingEvent["type"];
+
+export interface SimulationState {
+  level: EngineLevel;
+  terrain: Terrain;
+  tick: number;
+  lemmings: SimLemming[];
+  abilities: (AbilityType | null)[];
+  released: number;
+  finished: boolean;
+  events: LemmingEvent[]; // append-only, in the order things happened
+}
+
+export interface SimulationResult {
+  ticks: number;
+  released: number;
+  saved: number;
+  dead: number;
+  lemmings: { index: number; state: LemmingState }[];
+}
+
+const isActive = (lemming: SimLemming) => lemming.state !== "saved" && lemming.state !== "dead";
+
+export function createSimulation(level: EngineLevel, abilities: (AbilityType | null)[]): SimulationState {
+  if (abilities.length !== level.lemmingCount) {
+    throw new Error(`Expected ${level.lemmingCount} lemming abilities, got ${abilities.length}`);
+  }
+  return {
+    level,
+    terrain: cloneTerrain(level.terrain),
+    tick: 0,
+    lemmings: [],
+    abilities: [...abilities],
+    released: 0,
+    finished: false,
+    events: [],
+  };
+}
+
+const turn = (lemming: SimLemming) => {
+  lemming.dir = lemming.dir === 1 ? -1 : 1;
+};
+
+// Distributes over the union so every event type keeps its own fields
+type EventDetails = LemmingEvent extends infer E ? (E extends LemmingEvent ? Omit<E, "tick" | "lemming"> : never) : never;
+
+const emit = (state: SimulationState, lemming: SimLemming, details: EventDetails) => {
+  state.events.push({ tick: state.tick, lemming: lemming.index, ...details } as LemmingEvent);
+};
+
+const setState = (lemming: SimLemming, state: LemmingState) => {
+  lemming.state = state;
+  lemming.stateTicks = 0;
+  lemming.stateStartY = lemming.y;
+};
+
+const startFalling = (lemming: SimLemming, distance: number) => {
+  setState(lemming, "falling");
+  lemming.fallDistance = distance;
+};
+
+// Whether the lemming is allowed to take the ability right now, and if so applies it
+function assign(lemming: SimLemming, ability: AbilityType): boolean {
+  if (!isActive(lemming) || lemming.ability !== ability) return false;
+  switch (ability) {
+    case "climb":
+      if (lemming.canClimb) return false;
+      lemming.canClimb = true;
+      return true;
+    case "float":
+      if (lemming.canFloat) return false;
+      lemming.canFloat = true;
+      return true;
+    case "dig":
+      if (lemming.state !== "walking") return false;
+      setState(lemming, "digging");
+      return true;
+    case "build":
+      if (lemming.state !== "walking") return false;
+      setState(lemming, "building");
+      lemming.bricksLeft = BRICKS_PER_BUILD;
+      return true;
+    case "block":
+      if (lemming.state !== "walking") return false;
+      setState(lemming, "blocking");
+      return true;
+  }
+}
+
+const blockerOf = (state: SimulationState, lemming: SimLemming) =>
+  state.lemmings.find(other => {
+    if (other === lemming || other.state !== "blocking") return false;
+    if (Math.abs(other.y - lemming.y) >= LEMMING_HEIGHT) return false;
+    const distance = (other.x - lemming.x) * lemming.dir;
+    return distance > 0 && distance <= BLOCKER_REACH;
+  });
+
+const hasHeadroom = (terrain: Terrain, x: number, y: number) => {
+  for (let dy = 1; dy < LEMMING_HEIGHT; dy++) {
+    if (isSolid(terrain, x, y - dy)) return false;
+  }
+  return true;
+};
+
+function stepWalking(state: SimulationState, lemming: SimLemming) {
+  const { terrain } = state;
+  const blocker = blockerOf(state, lemming);
+  if (blocker) {
+    if (!blocker.stopped.includes(lemming.index)) {
+      blocker.stopped.push(lemming.index);
+      emit(state, blocker, { type: "blocked", other: lemming.index });
+    }
+    turn(lemming);
+    return;
+  }
+
+  const nx = lemming.x + lemming.dir;
+  if (isSolid(terrain, nx, lemming.y)) {
+    let rise = 1;
+    while (rise <= STEP_UP && isSolid(terrain, nx, lemming.y - rise)) rise++;
+    if (rise > STEP_UP || !hasHeadroom(terrain, nx, lemming.y - rise)) {
+      if (lemming.canClimb && rise > STEP_UP) {
+        setState(lemming, "climbing");
+      } else {
+        turn(lemming);
+      }
+      return;
+    }
+    lemming.x = nx;
+    lemming.y -= rise;
+    return;
+  }
+
+  lemming.x = nx;
+  let drop = 0;
+  while (drop < STEP_DOWN && !isSolid(terrain, lemming.x, lemming.y + 1)) {
+    lemming.y++;
+    drop++;
+  }
+  if (!isSolid(terrain, lemming.x, lemming.y + 1)) {
+    startFalling(lemming, drop);
+  }
+}
+
+function stepFalling(state: SimulationState, lemming: SimLemming) {
+  const { terrain } = state;
+  const speed = lemming.canFloat ? FLOAT_SPEED : FALL_SPEED;
+  for (let i = 0; i < speed; i++) {
+    if (isSolid(terrain, lemming.x, lemming.y + 1)) {
+      const survived = lemming.fallDistance <= MAX_SAFE_FALL || lemming.canFloat;
+      emit(state, lemming, { type: "fell", height: lemming.fallDistance, survived, floated: lemming.canFloat });
+      if (survived) {
+        setState(lemming, "walking");
+      } else {
+        setState(lemming, "dead");
+        emit(state, lemming, { type: "died", cause: "fall" });
+      }
+      lemming.fallDistance = 0;
+      return;
+    }
+    lemming.y++;
+    lemming.fallDistance++;
+    if (lemming.y >= terrain.height) {
+      setState(lemming, "dead");
+      emit(state, lemming, { type: "died", cause: "out-of-level" });
+      return;
+    }
+  }
+}
+
+function stepClimbing(state: SimulationState, lemming: SimLemming) {
+  const { terrain } = state;
+  if (isSolid(terrain, lemming.x, lemming.y - LEMMING_HEIGHT)) {
+    // Bumped the ceiling, let go of the wall
+    emit(state, lemming, { type: "climbed", height: lemming.stateStartY - lemming.y });
+    turn(lemming);
+    startFalling(lemming, 0);
+    return;
+  }
+  lemming.y--;
+  if (!isSolid(terrain, lemming.x + lemming.dir, lemming.y)) {
+    emit(state, lemming, { type: "climbed", height: lemming.stateStartY - lemming.y });
+    lemming.x += lemming.dir;
+    setState(lemming, "walking");
+  }
+}
+
+function stepDigging(state: SimulationState, lemming: SimLemming) {
+  const { terrain } = state;
+  lemming.stateTicks++;
+  if (lemming.stateTicks % DIG_INTERVAL !== 0) return;
+
+  const row = lemming.y + 1;
+  if (getPixel(terrain, lemming.x, row) === TERRAIN_STEEL) {
+    emit(state, lemming, { type: "dug", depth: lemming.y - lemming.stateStartY });
+    setState(lemming, "walking");
+    return;
+  }
+  digRow(terrain, lemming.x - DIG_HALF_WIDTH, lemming.x + DIG_HALF_WIDTH, row);
+  lemming.y = row;
+  if (!isSolid(terrain, lemming.x, lemming.y + 1)) {
+    emit(state, lemming, { type: "dug", depth: lemming.y - lemming.stateStartY });
+    startFalling(lemming, 0);
+  }
+}
+
+function stepBuilding(state: SimulationState, lemming: SimLemming) {
+  const { terrain } = state;
+  lemming.stateTicks++;
+  if (lemming.stateTicks % BUILD_INTERVAL !== 0) return;
+
+  for (let i = 1; i <= BRICK_WIDTH; i++) {
+    const x = lemming.x + lemming.dir * i;
+    if (!isSolid(terrain, x, lemming.y)) setPixel(terrain, x, lemming.y, TERRAIN_DIRT);
+  }
+  lemming.bricksLeft--;
+
+  // Climb onto the new brick, stop when the staircase runs into something
+  const nx = lemming.x + lemming.dir * 2;
+  if (isSolid(terrain, nx, lemming.y - 1) || !hasHeadroom(terrain, nx, lemming.y - 1)) {
+    emit(state, lemming, { type: "built", bricks: BRICKS_PER_BUILD - lemming.bricksLeft });
+    turn(lemming);
+    setState(lemming, "walking");
+    return;
+  }
+  lemming.x = nx;
+  lemming.y--;
+  if (lemming.bricksLeft === 0) {
+    emit(state, lemming, { type: "built", bricks: BRICKS_PER_BUILD });
+    setState(lemming, "walking");
+  }
+}
+
+const reachedExit = (level: EngineLevel, lemming: SimLemming) =>
+  Math.abs(lemming.x - level.exit.x) <= EXIT_RADIUS && Math.abs(lemming.y - level.exit.y) <= EXIT_RADIUS;
+
+function release(state: SimulationState) {
+  const { level } = state;
+  if (state.released >= level.lemmingCount || state.tick % level.releaseInterval !== 0) return;
+  const index = state.released++;
+  state.lemmings.push({
+    index,
+    x: level.entrance.x,
+    y: level.entrance.y,
+    dir: 1,
+    state: "falling",
+    ability: state.abilities[index],
+    canClimb: false,
+    canFloat: false,
+    fallDistance: 0,
+    stateTicks: 0,
+    stateStartY: level.entrance.y,
+    bricksLeft: 0,
+    stopped: [],
+  });
+  emit(state, state.lemmings[index], { type: "released" });
+}
+
+// Advances the simulation by one tick, returns which commands took effect
+export function step(state: SimulationState, commands: Command[] = []): boolean[] {
+  if (state.finished) return commands.map(() => false);
+
+  const applied = commands.map(({ lemming: index, ability }) => {
+    const lemming = state.lemmings[index];
+    if (!lemming) return false;
+    // From what the player can see only: a walking lemming that has not been given the ability yet can take any of them,
+    // so its refusal rules the ability out. Whether a busy lemming would have taken it must not show in the log.
+    const granted = (ability === "climb" && lemming.canClimb) || (ability === "float" && lemming.canFloat);
+    const reason = lemming.state === "walking" && !granted ? "ability" : "state";
+    const ok = assign(lemming, ability);
+    emit(state, lemming, ok ? { type: "assigned", ability } : { type: "rejected", ability, reason });
+    return ok;
+  });
+
+  release(state);
+
+  // Lemmings are updated in release order so every run resolves identically
+  for (const lemming of state.lemmings) {
+    switch (lemming.state) {
+      case "walking":
+        stepWalking(state, lemming);
+        break;
+      case "falling":
+        stepFalling(state, lemming);
+        break;
+      case "climbing":
+        stepClimbing(state, lemming);
+        break;
+      case "digging":
+        stepDigging(state, lemming);
+        break;
+      case "building":
+        stepBuilding(state, lemming);
+        break;
+    }
+    if ((lemming.state === "walking" || lemming.state === "falling") && reachedExit(state.level, lemming)) {
+      setState(lemming, "saved");
+      emit(state, lemming, { type: "saved" });
+    }
+  }
+
+  state.tick++;
+  const allOut = state.released === state.level.lemmingCount && !state.lemmings.some(isActive);
+  state.finished = allOut || state.tick >= state.level.timeLimit;
+  return applied;
+}
+
+export function getResult(state: SimulationState): SimulationResult {
+  return {
+    ticks: state.tick,
+    released: state.released,
+    saved: state.lemmings.filter(l => l.state === "saved").length,
+    dead: state.lemmings.filter(l => l.state === "dead").length,
+    lemmings: state.lemmings.map(l => ({ index: l.index, state: l.state })),
+  };
+}
+
+export function commandsByTick(commands: TimedCommand[]): Map<number, Command[]> {
+  const byTick = new Map<number, Command[]>();
+  for (const { tick, lemming, ability } of commands) {
+    byTick.set(tick, [...(byTick.get(tick) ?? []), { lemming, ability }]);
+  }
+  return byTick;
+}
+
+// Runs a level to completion with commands keyed by tick
+export function runSimulation(
+  level: EngineLevel,
+  abilities: (AbilityType | null)[],
+  commands: TimedCommand[]
+): SimulationResult {
+  const state = createSimulation(level, abilities);
+  const byTick = commandsByTick(commands);
+  while (!state.finished) {
+    step(state, byTick.get(state.tick));
+  }
+  return getResult(state);
+}
+
+const LEMMING_STATE_CODES: Record<LemmingState, number> = {
+  walking: 0,
+  falling: 1,
+  climbing: 2,
+  digging: 3,
+  building: 4,
+  blocking: 5,
+  saved: 6,
+  dead: 7,
+};
+
+// FNV-1a over lemmings and terrain, identical states always hash identically
+export function stateChecksum(state: SimulationState): number {
+  let hash = 0x811c9dc5;
+  const mix = (value: number) => {
+    hash ^= value & 0xff;
+    hash = Math.imul(hash, 0x01000193);
+    hash ^= (value >>> 8) & 0xff;
+    hash = Math.imul(hash, 0x01000193);
+  };
+  mix(state.tick);
+  for (const lemming of state.lemmings) {
+    mix(lemming.x);
+    mix(lemming.y);
+    mix(lemming.dir === 1 ? 1 : 0);
+    mix(LEMMING_STATE_CODES[lemming.state]);
+    mix((lemming.canClimb ? 1 : 0) | (lemming.canFloat ? 2 : 0));
+    mix(lemming.fallDistance);
+    mix(lemming.stateTicks);
+    mix(lemming.bricksLeft);
+  }
+  for (let i = 0; i < state.terrain.pixels.length; i++) {
+    mix(state.terrain.pixels[i]);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,56 @@
+// engine/terrain.ts
+export const TERRAIN_EMPTY = 0;
+export const TERRAIN_DIRT = 1;
+export const TERRAIN_STEEL = 2;
+
+export type TerrainPixel = typeof TERRAIN_EMPTY | typeof TERRAIN_DIRT | typeof TERRAIN_STEEL;
+
+// Row-major pixel grid, y grows downwards
+export interface Terrain {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+export function createTerrain(width: number, height: number, pixels?: Uint8Array): Terrain {
+  if (pixels && pixels.length !== width * height) {
+    throw new Error(`Terrain pixels length ${pixels.length} does not match ${width}x${height}`);
+  }
+  return { width, height, pixels: pixels ? new Uint8Array(pixels) : new Uint8Array(width * height) };
+}
+
+export const cloneTerrain = (terrain: Terrain): Terrain => createTerrain(terrain.width, terrain.height, terrain.pixels);
+
+// Side edges behave as steel walls, above and below the level is open air
+export function getPixel(terrain: Terrain, x: number, y: number): TerrainPixel {
+  if (x < 0 || x >= terrain.width) return TERRAIN_STEEL;
+  if (y < 0 || y >= terrain.height) return TERRAIN_EMPTY;
+  return terrain.pixels[y * terrain.width + x] as TerrainPixel;
+}
+
+export const isSolid = (terrain: Terrain, x: number, y: number) => getPixel(terrain, x, y) !== TERRAIN_EMPTY;
+
+export function setPixel(terrain: Terrain, x: number, y: number, value: TerrainPixel) {
+  if (x < 0 || x >= terrain.width || y < 0 || y >= terrain.height) return;
+  terrain.pixels[y * terrain.width + x] = value;
+}
+
+export function fillRect(terrain: Terrain, x: number, y: number, width: number, height: number, value: TerrainPixel) {
+  for (let py = y; py < y + height; py++) {
+    for (let px = x; px < x + width; px++) {
+      setPixel(terrain, px, py, value);
+    }
+  }
+}
+
+// Removes diggable pixels in a horizontal run, returns how many were removed
+export function digRow(terrain: Terrain, fromX: number, toX: number, y: number): number {
+  let removed = 0;
+  for (let x = fromX; x <= toX; x++) {
+    if (getPixel(terrain, x, y) === TERRAIN_DIRT) {
+      setPixel(terrain, x, y, TERRAIN_EMPTY);
+      removed++;
+    }
+  }
+  return removed;
+}
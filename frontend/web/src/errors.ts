@@ -0,0 +1,56 @@
+// errors.ts
+import { ethers } from "ethers";
+import lemmingsAbiJson from "./abi/LemmingsFHE.json";
+
+export const LEMMINGS_ERROR_MESSAGES: Record<string, string> = {
+  NotOwner: "Only the contract owner can do this",
+  NotProvider: "Your address is not a registered lemming provider",
+  PausedState: "The contract is paused",
+  CooldownActive: "Cooldown active, try again later",
+  BatchClosedOrInvalid: "The batch is closed or does not exist",
+  ReplayAttempt: "This decryption was already processed",
+  StateMismatch: "Batch changed since the decryption request",
+  InvalidBatchId: "The batch has no lemmings",
+  InvalidLemmingId: "Unknown lemming",
+  UnknownRequest: "Unknown decryption request",
+  LengthMismatch: "Expected at least one lemming and the same number of abilities, xs and ys",
+  InvalidRange: "Invalid lemming range, check the ids and the per-request limit",
+  InvalidLevel: "Invalid level, check its size, lemming slots and save target",
+  UnknownLevel: "Unknown level",
+  BatchFull: "The batch has no lemming slots left",
+  NotVerifier: "Your address is not a registered run verifier",
+  InvalidRun: "Invalid run, check the record size and the claimed saved count",
+  UnknownRun: "Unknown run",
+  RunAlreadyVerified: "This run was already verified",
+};
+
+const lemmingsInterface = new ethers.Interface(lemmingsAbiJson.abi);
+
+// Revert data sits at different depths depending on the provider (browser wallet, JSON-RPC, hardhat)
+export const findRevertData = (e: any): string | null => {
+  for (let cur = e, depth = 0; cur && depth < 5; cur = cur.error ?? cur.info?.error ?? cur.cause, depth++) {
+    const data = typeof cur.data === "string" ? cur.data : cur.data?.data;
+    if (typeof data === "string" && data.startsWith("0x") && data.length >= 10) return data;
+  }
+  return null;
+};
+
+// Name of the LemmingsFHE custom error behind a failed call, if any
+export function lemmingsErrorName(e: any): string | null {
+  if (e?.revert?.name) return e.revert.name;
+  const data = findRevertData(e);
+  if (!data) return null;
+  try {
+    return lemmingsInterface.parseError(data)?.name ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Maps LemmingsFHE custom errors to readable messages, falls back to the raw message
+export function describeLemmingsError(e: any): string {
+  const name = lemmingsErrorName(e);
+  if (name && LEMMINGS_ERROR_MESSAGES[name]) return LEMMINGS_ERROR_MESSAGES[name];
+  if (e?.message?.includes("user rejected")) return "Transaction rejected by user";
+  return e?.shortMessage || e?.message || "Unknown error";
+}
@@ -0,0 +1,220 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { getReadProvider } from "./contract";
+import { getDeployment } from "./deployments";
+import { MAX_LEMMINGS_PER_PROOF } from "./engine";
+
+export const HARDHAT_CHAIN_ID = 31337;
+
+// Keep a margin so an authorization never expires mid-request
+const AUTHORIZATION_EXPIRY_MARGIN_SECONDS = 60;
+
+export interface EncryptedLemmingInput {
+  ability: string;
+  x: string;
+  y: string;
+  inputProof: string;
+}
+
+export interface EncryptedLemmingsInput {
+  abilities: string[];
+  xs: string[];
+  ys: string[];
+  inputProof: string;
+}
+
+export interface DecryptionAuthorization {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const authorizations = new Map<string, DecryptionAuthorization>();
+
+// Signed authorizations and their keypairs survive reloads in sessionStorage, closing the tab drops the private key
+const AUTHORIZATION_STORAGE_PREFIX = "lemmings:decryption-authorization:";
+
+let cachedInstance: { chainId: number; instance: Promise<FhevmInstance> } | null = null;
+
+const fhevmInfra = (chainId: number) => {
+  const deployment = getDeployment(chainId);
+  if (!deployment) throw new Error(`No FHEVM deployment configured for chain ${chainId}`);
+  return deployment.fhevm;
+};
+
+// The local node comes from the rpcUrls entry for 31337 in config.json, verifying contracts from its deployment
+const createMockInstance = async (): Promise<FhevmInstance> => {
+  const provider = getReadProvider(HARDHAT_CHAIN_ID);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const infra = fhevmInfra(HARDHAT_CHAIN_ID);
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: HARDHAT_CHAIN_ID,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: infra.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: infra.verifyingContractAddressInputVerification,
+  });
+};
+
+const createRelayerInstance = async (chainId: number): Promise<FhevmInstance> => {
+  const infra = fhevmInfra(chainId);
+  const { initSDK, createInstance } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+  return createInstance({
+    aclContractAddress: infra.ACL,
+    kmsContractAddress: infra.KMSVerifier,
+    inputVerifierContractAddress: infra.InputVerifier,
+    verifyingContractAddressDecryption: infra.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: infra.verifyingContractAddressInputVerification,
+    chainId,
+    gatewayChainId: infra.gatewayChainId,
+    relayerUrl: infra.relayerUrl,
+    network: (window as any).ethereum,
+  });
+};
+
+export async function getFhevmInstance(chainId: number): Promise<FhevmInstance> {
+  if (cachedInstance && cachedInstance.chainId === chainId) {
+    return cachedInstance.instance;
+  }
+  const instance = chainId === HARDHAT_CHAIN_ID ? createMockInstance() : createRelayerInstance(chainId);
+  cachedInstance = { chainId, instance };
+  // Drop failed instances so the next call can retry
+  instance.catch(() => {
+    if (cachedInstance?.instance === instance) cachedInstance = null;
+  });
+  return instance;
+}
+
+// Encrypts ability, x and y as euint32 under a single input proof bound to contract and user
+export async function encryptLemming(
+  chainId: number,
+  contractAddress: string,
+  userAddress: string,
+  lemming: { ability: number; x: number; y: number }
+): Promise<EncryptedLemmingInput> {
+  const instance = await getFhevmInstance(chainId);
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add32(lemming.ability)
+    .add32(lemming.x)
+    .add32(lemming.y)
+    .encrypt();
+
+  return {
+    ability: ethers.hexlify(handles[0]),
+    x: ethers.hexlify(handles[1]),
+    y: ethers.hexlify(handles[2]),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+// Encrypts several lemmings under one input proof, handles are grouped per field for submitLemmings
+export async function encryptLemmings(
+  chainId: number,
+  contractAddress: string,
+  userAddress: string,
+  lemmings: { ability: number; x: number; y: number }[]
+): Promise<EncryptedLemmingsInput> {
+  if (lemmings.length === 0 || lemmings.length > MAX_LEMMINGS_PER_PROOF) {
+    throw new Error(`Expected 1 to ${MAX_LEMMINGS_PER_PROOF} lemmings per input proof, got ${lemmings.length}`);
+  }
+  const instance = await getFhevmInstance(chainId);
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const lemming of lemmings) input.add32(lemming.ability).add32(lemming.x).add32(lemming.y);
+  const { handles, inputProof } = await input.encrypt();
+
+  const field = (offset: number) => lemmings.map((_, i) => ethers.hexlify(handles[i * 3 + offset]));
+  return { abilities: field(0), xs: field(1), ys: field(2), inputProof: ethers.hexlify(inputProof) };
+}
+
+const isAuthorizationValid = (auth: DecryptionAuthorization) => {
+  const expiresAt = auth.startTimestamp + auth.durationDays * 24 * 60 * 60;
+  return Math.floor(Date.now() / 1000) < expiresAt - AUTHORIZATION_EXPIRY_MARGIN_SECONDS;
+};
+
+// Storage can be disabled or full, the in-memory cache still works then
+const loadAuthorization = (key: string): DecryptionAuthorization | null => {
+  try {
+    const stored = sessionStorage.getItem(AUTHORIZATION_STORAGE_PREFIX + key);
+    return stored ? (JSON.parse(stored) as DecryptionAuthorization) : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeAuthorization = (key: string, auth: DecryptionAuthorization | null) => {
+  try {
+    if (auth) sessionStorage.setItem(AUTHORIZATION_STORAGE_PREFIX + key, JSON.stringify(auth));
+    else sessionStorage.removeItem(AUTHORIZATION_STORAGE_PREFIX + key);
+  } catch {
+    // Only costs a signature after the next reload
+  }
+};
+
+// Returns the cached EIP-712 user-decryption authorization, asking the wallet to sign a new one when missing or expired
+export async function getDecryptionAuthorization(
+  chainId: number,
+  contractAddress: string,
+  signer: ethers.Signer,
+  durationDays: number
+): Promise<DecryptionAuthorization> {
+  const userAddress = await signer.getAddress();
+  const key = `${chainId}:${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}`;
+  const cached = authorizations.get(key) ?? loadAuthorization(key);
+  if (cached && isAuthorizationValid(cached)) {
+    authorizations.set(key, cached);
+    return cached;
+  }
+  if (cached) storeAuthorization(key, null);
+
+  const instance = await getFhevmInstance(chainId);
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const contractAddresses = [contractAddress];
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const auth = { publicKey, privateKey, signature, userAddress, contractAddresses, startTimestamp, durationDays };
+  authorizations.set(key, auth);
+  storeAuthorization(key, auth);
+  return auth;
+}
+
+// Decrypts a euint handle the signer is allowed to read through the relayer (mock relayer on hardhat)
+export async function userDecryptHandle(
+  chainId: number,
+  contractAddress: string,
+  handle: string,
+  signer: ethers.Signer,
+  durationDays: number
+): Promise<bigint> {
+  const auth = await getDecryptionAuthorization(chainId, contractAddress, signer, durationDays);
+  const instance = await getFhevmInstance(chainId);
+  const results = await instance.userDecrypt(
+    [{ handle, contractAddress }],
+    auth.privateKey,
+    auth.publicKey,
+    auth.signature.replace("0x", ""),
+    auth.contractAddresses,
+    auth.userAddress,
+    auth.startTimestamp,
+    auth.durationDays
+  );
+
+  const value = results[handle] ?? results[handle.toLowerCase()];
+  if (value === undefined) throw new Error("Relayer returned no cleartext for handle");
+  return BigInt(value);
+}
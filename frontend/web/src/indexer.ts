@@ -0,0 +1,30 @@
+// indexer.ts
+import type { IndexedBatch, IndexedDecryption, IndexedLemming, Page } from "../../../src/indexer/materialize";
+import { config } from "./contract";
+
+export type { IndexedBatch, IndexedDecryption, IndexedLemming, Page };
+
+const PAGE_SIZE = 500;
+
+export const indexerUrl = (): string => config.indexerUrl.replace(/\/$/, "");
+
+export async function fetchIndexer<T>(path: string, params: Record<string, string | number | boolean | undefined> = {}): Promise<T> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  const res = await fetch(`${indexerUrl()}${path}${query.size ? `?${query}` : ""}`);
+  const body = await res.json();
+  if (!res.ok) throw new Error(`Indexer ${path}: ${body.error ?? res.status}`);
+  return body as T;
+}
+
+// Follows offset pagination until every item is loaded
+export async function fetchAllPages<T>(path: string, params: Record<string, string | number | boolean | undefined> = {}): Promise<T[]> {
+  const items: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await fetchIndexer<Page<T>>(path, { ...params, offset, limit: PAGE_SIZE });
+    items.push(...page.items);
+    if (items.length >= page.total || page.items.length === 0) return items;
+  }
+}
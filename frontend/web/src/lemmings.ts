@@ -0,0 +1,432 @@
+// lemmings.ts
+import type { ContractTransactionResponse } from "ethers";
+import type {
+  AbilityGuessedEvent,
+  DecryptionCompletedEvent,
+  DecryptionRequestedEvent,
+} from "../../../types/contracts/Lemmings_FHE.sol/LemmingsFHE";
+import { getLemmingsContractReadOnly, getLemmingsContractWithSigner, type LemmingsFHE } from "./contract";
+import { AbilityId, abilityId, abilityName, AbilityType, ABILITY_TYPES, MAX_LEMMINGS_PER_PROOF } from "./engine";
+import { describeLemmingsError, lemmingsErrorName } from "./errors";
+import { encryptLemming, encryptLemmings } from "./fhevm";
+import { fetchAllPages, IndexedBatch, IndexedLemming, indexerUrl } from "./indexer";
+
+export { AbilityId, abilityName, ABILITY_TYPES, describeLemmingsError };
+export type { AbilityType };
+
+export type LemmingStatus = "pending" | "sealed" | "revealed";
+
+export interface RevealedLemming {
+  ability: AbilityType | null; // null when the lemming was submitted out of range
+  abilityId: number;
+  x: number; // clamped to the level bounds
+  y: number;
+  valid: boolean; // the submitted ability and spawn point were in range, checked homomorphically on submission
+}
+
+export interface Lemming {
+  id: string;
+  batchId: number;
+  lemmingId: number;
+  provider: string;
+  timestamp: number;
+  txHash: string;
+  status: LemmingStatus;
+  revealed: RevealedLemming | null;
+}
+
+export interface LemmingBatch {
+  batchId: number;
+  levelId: number; // registered level the batch was opened for
+  isOpen: boolean;
+  lemmingCount: number;
+}
+
+export interface LemmingHandles {
+  ability: string;
+  x: string;
+  y: string;
+  valid: string; // ebool
+}
+
+// A player's "does this lemming have ability X" attempt, resolved by the decryption oracle
+export interface AbilityGuess {
+  guessId: number;
+  player: string;
+  batchId: number;
+  lemmingId: number;
+  ability: AbilityType | null;
+  requestId: number;
+  resultHandle: string; // ebool, user-decryptable by the player
+  resolved: boolean;
+  correct: boolean | null; // null until the oracle callback ran
+  txHash: string;
+}
+
+// "failed" means the callback can never succeed, e.g. it reverts with StateMismatch
+export type DecryptionStatus = "pending" | "complete" | "failed";
+
+// Pending requests older than this are flagged as stuck
+export const DECRYPTION_STUCK_AFTER_SECONDS = 5 * 60;
+
+// One reveal request for lemmings fromId..toId of a batch, paired with its DecryptionCompleted once the oracle answered
+export interface DecryptionRequest {
+  requestId: number;
+  batchId: number;
+  fromId: number;
+  toId: number;
+  stateHash: string;
+  txHash: string;
+  blockNumber: number;
+  requestedAt: number;
+  status: DecryptionStatus;
+  failure: string | null; // custom error the callback reverts with when failed
+  completed: {
+    txHash: string;
+    blockNumber: number;
+    timestamp: number;
+    lemmings: (RevealedLemming & { lemmingId: number })[];
+  } | null;
+}
+
+export interface LemmingsState {
+  owner: string;
+  paused: boolean;
+  currentBatchId: number;
+  batches: LemmingBatch[];
+  lemmings: Lemming[];
+}
+
+export const lemmingKey = (batchId: number, lemmingId: number) => `${batchId}-${lemmingId}`;
+
+export async function loadBatches(contract: LemmingsFHE): Promise<LemmingBatch[]> {
+  const currentBatchId = Number(await contract.currentBatchId());
+  const ids = Array.from({ length: currentBatchId }, (_, i) => i + 1);
+  return Promise.all(
+    ids.map(async batchId => {
+      const [levelId, isOpen, count] = await Promise.all([
+        contract.batchLevel(batchId),
+        contract.isBatchOpen(batchId),
+        contract.lemmingCountInBatch(batchId),
+      ]);
+      return { batchId, levelId: Number(levelId), isOpen, lemmingCount: Number(count) };
+    })
+  );
+}
+
+const fromIndexed = (l: IndexedLemming): Lemming => ({
+  id: lemmingKey(l.batchId, l.lemmingId),
+  batchId: l.batchId,
+  lemmingId: l.lemmingId,
+  provider: l.provider,
+  timestamp: l.timestamp,
+  txHash: l.txHash,
+  status: l.status,
+  revealed: l.revealed && { ...l.revealed, ability: l.revealed.valid ? abilityName(l.revealed.abilityId) : null },
+});
+
+// Rebuilds the lemmings table from LemmingSubmitted / DecryptionCompleted events,
+// or reads the materialized state from the indexer when one is configured
+export async function loadLemmingsState(fromBlock = 0): Promise<LemmingsState | null> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return null;
+
+  if (indexerUrl()) {
+    const [owner, paused, indexedBatches, indexedLemmings] = await Promise.all([
+      contract.owner(),
+      contract.paused(),
+      fetchAllPages<IndexedBatch>("/batches"),
+      fetchAllPages<IndexedLemming>("/lemmings"),
+    ]);
+    const batches = indexedBatches
+      .map(({ batchId, levelId, isOpen, lemmingCount }) => ({ batchId, levelId, isOpen, lemmingCount }))
+      .sort((a, b) => a.batchId - b.batchId);
+    const lemmings = indexedLemmings.map(fromIndexed).sort((a, b) => b.timestamp - a.timestamp || b.lemmingId - a.lemmingId);
+    return { owner, paused, currentBatchId: batches.length, batches, lemmings };
+  }
+
+  const [owner, paused, batches, submitted, completed] = await Promise.all([
+    contract.owner(),
+    contract.paused(),
+    loadBatches(contract),
+    contract.queryFilter(contract.filters.LemmingSubmitted(), fromBlock),
+    contract.queryFilter(contract.filters.DecryptionCompleted(), fromBlock),
+  ]);
+
+  const revealed = new Map<string, RevealedLemming>();
+  for (const log of completed) {
+    for (const { lemmingId, ...reveal } of revealedLemmings(log.args)) {
+      revealed.set(lemmingKey(Number(log.args.batchId), lemmingId), reveal);
+    }
+  }
+
+  const blockTimes = new Map<number, number>();
+  const blockTime = async (blockNumber: number) => {
+    if (!blockTimes.has(blockNumber)) {
+      const block = await contract.runner!.provider!.getBlock(blockNumber);
+      blockTimes.set(blockNumber, block ? block.timestamp : 0);
+    }
+    return blockTimes.get(blockNumber)!;
+  };
+
+  const openBatches = new Set(batches.filter(b => b.isOpen).map(b => b.batchId));
+  const countInBatch = new Map(batches.map(b => [b.batchId, b.lemmingCount]));
+
+  const lemmings: Lemming[] = [];
+  for (const log of submitted) {
+    const { provider, batchId, lemmingId } = log.args;
+    const batch = Number(batchId);
+    const id = Number(lemmingId);
+    // Ignore events the contract state does not account for (e.g. reorged out)
+    if (id > (countInBatch.get(batch) ?? 0)) continue;
+
+    const key = lemmingKey(batch, id);
+    const reveal = revealed.get(key) ?? null;
+    lemmings.push({
+      id: key,
+      batchId: batch,
+      lemmingId: id,
+      provider,
+      timestamp: await blockTime(log.blockNumber),
+      txHash: log.transactionHash,
+      status: reveal ? "revealed" : openBatches.has(batch) ? "pending" : "sealed",
+      revealed: reveal,
+    });
+  }
+  lemmings.sort((a, b) => b.timestamp - a.timestamp || b.lemmingId - a.lemmingId);
+
+  return { owner, paused, currentBatchId: batches.length, batches, lemmings };
+}
+
+export async function getLemmingHandles(batchId: number, lemmingId: number): Promise<LemmingHandles | null> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return null;
+  const [ability, x, y, valid] = await contract.lemmings(batchId, lemmingId);
+  return { ability, x, y, valid };
+}
+
+// Encrypts and submits a lemming into the current open batch, returns its on-chain ids
+export async function submitLemming(
+  chainId: number,
+  userAddress: string,
+  lemming: { ability: AbilityType; x: number; y: number }
+): Promise<{ batchId: number; lemmingId: number }> {
+  const contract = await getLemmingsContractWithSigner();
+  const batchId = Number(await contract.currentBatchId());
+  if (batchId === 0 || !(await contract.isBatchOpen(batchId))) throw new Error("No open lemming batch");
+
+  const encrypted = await encryptLemming(chainId, await contract.getAddress(), userAddress, {
+    ability: abilityId(lemming.ability),
+    x: lemming.x,
+    y: lemming.y,
+  });
+
+  const tx = await contract.submitLemming(batchId, encrypted.ability, encrypted.x, encrypted.y, encrypted.inputProof);
+  const receipt = await tx.wait();
+
+  for (const log of receipt!.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "LemmingSubmitted") {
+      return { batchId, lemmingId: Number(parsed.args.lemmingId) };
+    }
+  }
+  throw new Error("LemmingSubmitted event not found in receipt");
+}
+
+// Submits lemmings in as few transactions as the input proof size allows, ids are returned in input order
+export async function submitLemmings(
+  chainId: number,
+  userAddress: string,
+  lemmings: { ability: AbilityType; x: number; y: number }[]
+): Promise<{ batchId: number; lemmingIds: number[] }> {
+  const contract = await getLemmingsContractWithSigner();
+  const batchId = Number(await contract.currentBatchId());
+  if (batchId === 0 || !(await contract.isBatchOpen(batchId))) throw new Error("No open lemming batch");
+  const contractAddress = await contract.getAddress();
+
+  const lemmingIds: number[] = [];
+  for (let start = 0; start < lemmings.length; start += MAX_LEMMINGS_PER_PROOF) {
+    const chunk = lemmings.slice(start, start + MAX_LEMMINGS_PER_PROOF);
+    const encrypted = await encryptLemmings(
+      chainId,
+      contractAddress,
+      userAddress,
+      chunk.map((lemming) => ({ ability: abilityId(lemming.ability), x: lemming.x, y: lemming.y }))
+    );
+    // Each chunk is one call, the provider cooldown still applies between chunks
+    const tx = await contract.submitLemmings(batchId, encrypted.abilities, encrypted.xs, encrypted.ys, encrypted.inputProof);
+    const receipt = await tx.wait();
+    for (const log of receipt!.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "LemmingSubmitted") lemmingIds.push(Number(parsed.args.lemmingId));
+    }
+  }
+  if (lemmingIds.length !== lemmings.length) throw new Error("LemmingSubmitted events missing from receipts");
+  return { batchId, lemmingIds };
+}
+
+// Cleartexts of a DecryptionCompleted event, numbered from the request's fromId
+const revealedLemmings = ({ fromId, abilities, xs, ys, valids }: DecryptionCompletedEvent.OutputObject) =>
+  abilities.map((id, i) => ({
+    lemmingId: Number(fromId) + i,
+    ability: valids[i] ? abilityName(Number(id)) : null,
+    abilityId: Number(id),
+    x: Number(xs[i]),
+    y: Number(ys[i]),
+    valid: valids[i],
+  }));
+
+const toDecryptionRequest = (
+  { requestId, batchId, fromId, toId, stateHash }: DecryptionRequestedEvent.OutputObject,
+  txHash: string,
+  blockNumber: number,
+  requestedAt: number
+): DecryptionRequest => ({
+  requestId: Number(requestId),
+  batchId: Number(batchId),
+  fromId: Number(fromId),
+  toId: Number(toId),
+  stateHash,
+  txHash,
+  blockNumber,
+  requestedAt,
+  status: "pending",
+  failure: null,
+  completed: null,
+});
+
+type DecryptionCompletedLog = { args: DecryptionCompletedEvent.OutputObject; transactionHash: string; blockNumber: number };
+
+const withCompletion = (request: DecryptionRequest, log: DecryptionCompletedLog, timestamp: number): DecryptionRequest => ({
+  ...request,
+  status: "complete",
+  completed: { txHash: log.transactionHash, blockNumber: log.blockNumber, timestamp, lemmings: revealedLemmings(log.args) },
+});
+
+// Reverts the callback raises before it verifies the oracle signatures, none of them goes away on retry
+const FATAL_CALLBACK_ERRORS = ["StateMismatch", "UnknownRequest", "InvalidBatchId"];
+
+// Replays the callback's state checks with an empty proof, returns the error name if the oracle can never succeed
+async function probeCallback(contract: LemmingsFHE, requestId: number): Promise<string | null> {
+  try {
+    await contract.myCallback.staticCall(requestId, "0x", "0x");
+    return null;
+  } catch (e) {
+    const name = lemmingsErrorName(e);
+    return name && FATAL_CALLBACK_ERRORS.includes(name) ? name : null;
+  }
+}
+
+async function blockTimestamps(contract: LemmingsFHE, blockNumbers: number[]): Promise<Map<number, number>> {
+  const unique = [...new Set(blockNumbers)];
+  const blocks = await Promise.all(unique.map(n => contract.runner!.provider!.getBlock(n)));
+  return new Map(unique.map((n, i) => [n, blocks[i]?.timestamp ?? 0]));
+}
+
+// Pairs every DecryptionRequested with the DecryptionCompleted carrying the same requestId, newest first
+export async function loadDecryptionRequests(batchId?: number, fromBlock = 0): Promise<DecryptionRequest[]> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return [];
+  const [requested, completed] = await Promise.all([
+    contract.queryFilter(contract.filters.DecryptionRequested(undefined, batchId), fromBlock),
+    contract.queryFilter(contract.filters.DecryptionCompleted(undefined, batchId), fromBlock),
+  ]);
+  const times = await blockTimestamps(contract, [...requested, ...completed].map(log => log.blockNumber));
+  const completedById = new Map(completed.map(log => [Number(log.args.requestId), log]));
+
+  const requests = await Promise.all(
+    requested.map(async log => {
+      const request = toDecryptionRequest(log.args, log.transactionHash, log.blockNumber, times.get(log.blockNumber)!);
+      const done = completedById.get(request.requestId);
+      if (done) return withCompletion(request, done, times.get(done.blockNumber)!);
+      const failure = await probeCallback(contract, request.requestId);
+      return failure ? { ...request, status: "failed" as const, failure } : request;
+    })
+  );
+  return requests.sort((a, b) => b.blockNumber - a.blockNumber || b.requestId - a.requestId);
+}
+
+async function requestReveal(send: (contract: LemmingsFHE) => Promise<ContractTransactionResponse>) {
+  const contract = await getLemmingsContractWithSigner();
+  const tx = await send(contract);
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "DecryptionRequested") {
+      const args = parsed.args as unknown as DecryptionRequestedEvent.OutputObject;
+      const times = await blockTimestamps(contract, [receipt!.blockNumber]);
+      return toDecryptionRequest(args, receipt!.hash, receipt!.blockNumber, times.get(receipt!.blockNumber)!);
+    }
+  }
+  throw new Error("DecryptionRequested event not found in receipt");
+}
+
+export const requestBatchReveal = (batchId: number) =>
+  requestReveal(contract => contract.requestBatchDecryption(batchId));
+
+export const requestRangeReveal = (batchId: number, fromId: number, toId: number) =>
+  requestReveal(contract => contract.requestRangeDecryption(batchId, fromId, toId));
+
+export const requestLemmingReveal = (batchId: number, lemmingId: number) =>
+  requestReveal(contract => contract.requestLemmingDecryption(batchId, lemmingId));
+
+// Polls for the DecryptionCompleted answering a request, the oracle relays it in a later transaction
+export async function waitForReveal(
+  request: DecryptionRequest,
+  { pollMs = 4000, timeoutMs = 10 * 60 * 1000 }: { pollMs?: number; timeoutMs?: number } = {}
+): Promise<DecryptionRequest> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) throw new Error("No LemmingsFHE deployment on the active chain");
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const [log] = await contract.queryFilter(contract.filters.DecryptionCompleted(request.requestId), request.blockNumber);
+    if (log) return withCompletion(request, log, (await blockTimestamps(contract, [log.blockNumber])).get(log.blockNumber)!);
+    const failure = await probeCallback(contract, request.requestId);
+    if (failure) throw new Error(`Decryption request ${request.requestId} failed: ${failure}`);
+    if (Date.now() + pollMs > deadline) throw new Error(`Decryption request ${request.requestId} not answered yet`);
+    await new Promise(resolve => setTimeout(resolve, pollMs));
+  }
+}
+
+async function readGuess(contract: LemmingsFHE, args: AbilityGuessedEvent.OutputObject, txHash: string): Promise<AbilityGuess> {
+  const { guessId, player, batchId, lemmingId, ability, requestId } = args;
+  const guess = await contract.guesses(guessId);
+  return {
+    guessId: Number(guessId),
+    player,
+    batchId: Number(batchId),
+    lemmingId: Number(lemmingId),
+    ability: abilityName(Number(ability)),
+    requestId: Number(requestId),
+    resultHandle: guess.result,
+    resolved: guess.resolved,
+    correct: guess.resolved ? guess.correct : null,
+    txHash,
+  };
+}
+
+// Newest first
+export async function loadGuesses(batchId: number, lemmingId: number): Promise<AbilityGuess[]> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return [];
+  const logs = await contract.queryFilter(contract.filters.AbilityGuessed(undefined, undefined, batchId));
+  const guesses = await Promise.all(
+    logs.filter(log => Number(log.args.lemmingId) === lemmingId).map(log => readGuess(contract, log.args, log.transactionHash))
+  );
+  return guesses.sort((a, b) => b.guessId - a.guessId);
+}
+
+// Compares the encrypted ability with a plaintext guess on-chain, the oracle publishes the outcome later
+export async function guessAbility(batchId: number, lemmingId: number, ability: AbilityType): Promise<AbilityGuess> {
+  const contract = await getLemmingsContractWithSigner();
+  const tx = await contract.guessAbility(batchId, lemmingId, abilityId(ability));
+  const receipt = await tx.wait();
+
+  for (const log of receipt!.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "AbilityGuessed") {
+      return readGuess(contract, parsed.args as unknown as AbilityGuessedEvent.OutputObject, receipt!.hash);
+    }
+  }
+  throw new Error("AbilityGuessed event not found in receipt");
+}
@@ -0,0 +1,11 @@
+// levelHash.ts
+import { ethers } from "ethers";
+import { encodeLevelFile, LevelFile } from "./engine";
+
+// Kept apart from levels.ts so the hardhat tasks and services can use these without the browser contract helpers
+
+// UniversalAdapter key of a community level file
+export const levelKey = (id: string) => `level_${id}`;
+
+// keccak256 of the bytes storeLevelFile writes, which is what registerLevel records
+export const levelContentHash = (file: LevelFile): string => ethers.keccak256(encodeLevelFile(file));
@@ -0,0 +1,100 @@
+// levels.ts
+import { ethers } from "ethers";
+import { getContractReadOnly, getContractWithSigner, getLemmingsContractReadOnly, getLemmingsContractWithSigner } from "./contract";
+import { decodeLevelFile, encodeLevelFile, Level, LevelFile, loadLevel, parseLevelFile } from "./engine";
+import { levelContentHash, levelKey } from "./levelHash";
+import firstSteps from "./levels/first-steps.json";
+
+export { levelContentHash, levelKey };
+
+// Levels shipped with the app, community levels live in UniversalAdapter under level_<id>
+export const BUNDLED_LEVELS: LevelFile[] = [parseLevelFile(firstSteps)];
+
+export async function fetchLevelFile(id: string): Promise<LevelFile | null> {
+  const bundled = BUNDLED_LEVELS.find(level => level.id === id);
+  if (bundled) return bundled;
+
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  const bytes = await contract.getData(levelKey(id));
+  if (ethers.getBytes(bytes).length === 0) return null;
+  return decodeLevelFile(ethers.getBytes(bytes));
+}
+
+// Validates before writing so the adapter never hosts a level the loader rejects
+export async function storeLevelFile(file: LevelFile): Promise<void> {
+  parseLevelFile(file);
+  const contract = await getContractWithSigner();
+  const tx = await contract.setData(levelKey(file.id), encodeLevelFile(file));
+  await tx.wait();
+}
+
+// LemmingsFHE registry entry, the level file itself is resolved by fileId and checked against contentHash
+export interface RegisteredLevel {
+  levelId: number;
+  contentHash: string;
+  fileId: string;
+  lemmingSlots: number; // lemmingId n of a batch for this level hatches from slot n
+  width: number; // submitted spawn points outside width x height are clamped and flagged invalid
+  height: number;
+  targetSavePercent: number;
+}
+
+type LevelEntry = { contentHash: string; fileId: string; lemmingSlots: bigint; width: bigint; height: bigint; targetSavePercent: bigint };
+
+const toRegisteredLevel = (levelId: number, entry: LevelEntry): RegisteredLevel => ({
+  levelId,
+  contentHash: entry.contentHash,
+  fileId: entry.fileId,
+  lemmingSlots: Number(entry.lemmingSlots),
+  width: Number(entry.width),
+  height: Number(entry.height),
+  targetSavePercent: Number(entry.targetSavePercent),
+});
+
+export async function getLevel(levelId: number): Promise<RegisteredLevel | null> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return null;
+  if (levelId < 1 || levelId > Number(await contract.levelCount())) return null;
+  return toRegisteredLevel(levelId, await contract.getLevel(levelId));
+}
+
+export async function listLevels(): Promise<RegisteredLevel[]> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return [];
+  const count = Number(await contract.levelCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(ids.map(async levelId => toRegisteredLevel(levelId, await contract.getLevel(levelId))));
+}
+
+export async function getBatchLevel(batchId: number): Promise<RegisteredLevel | null> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return null;
+  return getLevel(Number(await contract.batchLevel(batchId)));
+}
+
+// Fetches the registered file and plays it with the on-chain target, a file that changed since registration is refused
+export async function loadRegisteredLevel(registered: RegisteredLevel): Promise<Level> {
+  const file = await fetchLevelFile(registered.fileId);
+  if (!file) throw new Error(`Level file "${registered.fileId}" of level #${registered.levelId} not found`);
+  if (levelContentHash(file) !== registered.contentHash) {
+    throw new Error(`Level file "${registered.fileId}" does not match the content hash of level #${registered.levelId}`);
+  }
+  if (file.lemmingCount !== registered.lemmingSlots) {
+    throw new Error(`Level #${registered.levelId} has ${registered.lemmingSlots} slots, its file ${file.lemmingCount} lemmings`);
+  }
+  return loadLevel({ ...file, requiredSavePercent: registered.targetSavePercent });
+}
+
+// Owner only, returns the new levelId
+export async function registerLevel(file: LevelFile, targetSavePercent = file.requiredSavePercent): Promise<number> {
+  parseLevelFile(file);
+  const contract = await getLemmingsContractWithSigner();
+  const tx = await contract.registerLevel(levelContentHash(file), file.id, file.lemmingCount, file.width, file.height, targetSavePercent);
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "LevelRegistered") return Number(parsed.args.levelId);
+  }
+  throw new Error("LevelRegistered event not found in receipt");
+}
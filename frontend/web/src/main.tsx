@@ -5,15 +5,33 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { defineChain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { DEFAULT_CHAIN_ID, getDeployment, SUPPORTED_CHAIN_IDS } from './deployments';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// Wallet chains come from the deployment manifest, the default chain is listed first
+const toChain = (chainId: number) => {
+  const deployment = getDeployment(chainId)!;
+  return defineChain({
+    id: chainId,
+    name: deployment.name,
+    nativeCurrency: deployment.nativeCurrency,
+    rpcUrls: { default: { http: deployment.rpcUrls } },
+    blockExplorers: deployment.blockExplorerUrl
+      ? { default: { name: `${deployment.name} Explorer`, url: deployment.blockExplorerUrl } }
+      : undefined,
+    testnet: true,
+  });
+};
+
+const [defaultChain, ...otherChains] = [DEFAULT_CHAIN_ID, ...SUPPORTED_CHAIN_IDS.filter(id => id !== DEFAULT_CHAIN_ID)].map(toChain);
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [defaultChain, ...otherChains],
 });
 
 const queryClient = new QueryClient();
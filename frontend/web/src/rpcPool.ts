@@ -0,0 +1,219 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+
+export interface RpcEndpointStats {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null; // moving average over successful calls
+  requests: number;
+  errors: number;
+  errorRate: number; // decaying, recent failures weigh more
+  blockNumber: number | null;
+  lastError: string | null;
+  lastChecked: number | null;
+}
+
+export interface RpcPoolOptions {
+  chainId: number;
+  urls: string[];
+  timeoutMs?: number;
+  maxBlockLag?: number; // blocks an endpoint may trail the quorum head before it is benched
+  quorum?: number; // endpoints that must have reached a block before it counts as the head
+  healthIntervalMs?: number;
+}
+
+interface Endpoint {
+  provider: ethers.JsonRpcProvider;
+  stats: RpcEndpointStats;
+  wrongChain: boolean;
+}
+
+const LATENCY_WEIGHT = 0.3;
+const ERROR_DECAY = 0.8;
+const BENCH_ERROR_RATE = 0.5; // about four failures in a row, a single dropped request does not bench an endpoint
+
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms`)), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Routes every JSON-RPC payload through the pool so ethers sees a single provider
+class PooledProvider extends ethers.JsonRpcApiProvider {
+  private readonly pool: RpcPool;
+
+  constructor(pool: RpcPool, network: ethers.Network) {
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+    this.pool = pool;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<(ethers.JsonRpcResult | ethers.JsonRpcError)[]> {
+    return this.pool.send(payload);
+  }
+}
+
+export class RpcPool {
+  readonly chainId: number;
+  readonly provider: ethers.JsonRpcApiProvider;
+  quorumHead: number | null = null;
+
+  private readonly endpoints: Endpoint[];
+  private readonly timeoutMs: number;
+  private readonly maxBlockLag: number;
+  private readonly quorum: number;
+  private readonly healthIntervalMs: number;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private checking: Promise<RpcEndpointStats[]> | null = null;
+
+  constructor(options: RpcPoolOptions) {
+    if (options.urls.length === 0) throw new Error(`No RPC endpoints configured for chain ${options.chainId}`);
+    this.chainId = options.chainId;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.maxBlockLag = options.maxBlockLag ?? 3;
+    this.quorum = Math.min(options.quorum ?? 2, options.urls.length);
+    this.healthIntervalMs = options.healthIntervalMs ?? 30000;
+
+    const network = ethers.Network.from(options.chainId);
+    this.endpoints = [...new Set(options.urls)].map(url => ({
+      provider: new ethers.JsonRpcProvider(url, network, { staticNetwork: network, batchMaxCount: 1 }),
+      wrongChain: false,
+      stats: {
+        url,
+        healthy: true,
+        latencyMs: null,
+        requests: 0,
+        errors: 0,
+        errorRate: 0,
+        blockNumber: null,
+        lastError: null,
+        lastChecked: null,
+      },
+    }));
+    this.provider = new PooledProvider(this, network);
+  }
+
+  stats(): RpcEndpointStats[] {
+    return this.endpoints.map(e => ({ ...e.stats }));
+  }
+
+  // Lower is better, unknown latency ranks after measured endpoints
+  private score(endpoint: Endpoint): number {
+    const latency = endpoint.stats.latencyMs ?? this.timeoutMs;
+    return latency * (1 + 4 * endpoint.stats.errorRate);
+  }
+
+  private ranked(): Endpoint[] {
+    const usable = this.endpoints.filter(e => !e.wrongChain);
+    const healthy = usable.filter(e => e.stats.healthy);
+    // Fall back to benched endpoints rather than failing outright
+    return (healthy.length > 0 ? healthy : usable).sort((a, b) => this.score(a) - this.score(b));
+  }
+
+  private record(endpoint: Endpoint, started: number, error?: unknown) {
+    const { stats } = endpoint;
+    stats.requests++;
+    if (error) {
+      stats.errors++;
+      stats.errorRate = stats.errorRate * ERROR_DECAY + (1 - ERROR_DECAY);
+      stats.lastError = error instanceof Error ? error.message : String(error);
+      return;
+    }
+    const elapsed = Date.now() - started;
+    stats.errorRate *= ERROR_DECAY;
+    stats.latencyMs = stats.latencyMs === null ? elapsed : stats.latencyMs * (1 - LATENCY_WEIGHT) + elapsed * LATENCY_WEIGHT;
+  }
+
+  // Tries endpoints best-first, transport failures fail over, JSON-RPC errors are returned as-is
+  async send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<(ethers.JsonRpcResult | ethers.JsonRpcError)[]> {
+    this.startHealthChecks();
+    const errors: string[] = [];
+    for (const endpoint of this.ranked()) {
+      const started = Date.now();
+      try {
+        const result = await withTimeout(endpoint.provider._send(payload), this.timeoutMs);
+        this.record(endpoint, started);
+        return result;
+      } catch (e) {
+        this.record(endpoint, started, e);
+        errors.push(`${endpoint.stats.url}: ${endpoint.stats.lastError}`);
+        // Occasional failures only rank the endpoint lower, it is benched until the next health check once they pile up
+        if (endpoint.stats.healthy && endpoint.stats.errorRate >= BENCH_ERROR_RATE) {
+          endpoint.stats.healthy = false;
+          console.warn(`RPC endpoint ${endpoint.stats.url} benched after repeated failures:`, endpoint.stats.lastError);
+        }
+      }
+    }
+    throw new Error(`All RPC endpoints failed for chain ${this.chainId} (${errors.join("; ")})`);
+  }
+
+  // Probes every endpoint in parallel and benches the ones on another chain or behind the quorum head
+  async healthCheck(): Promise<RpcEndpointStats[]> {
+    if (this.checking) return this.checking;
+    this.checking = (async () => {
+      await Promise.all(
+        this.endpoints.map(async endpoint => {
+          const started = Date.now();
+          try {
+            const [chainId, blockNumber] = await withTimeout(
+              Promise.all([endpoint.provider.send("eth_chainId", []), endpoint.provider.send("eth_blockNumber", [])]),
+              this.timeoutMs
+            );
+            this.record(endpoint, started);
+            endpoint.wrongChain = Number(chainId) !== this.chainId;
+            endpoint.stats.blockNumber = Number(blockNumber);
+            endpoint.stats.healthy = !endpoint.wrongChain;
+            if (endpoint.wrongChain) endpoint.stats.lastError = `Endpoint is on chain ${Number(chainId)}`;
+          } catch (e) {
+            this.record(endpoint, started, e);
+            endpoint.stats.healthy = false;
+          }
+          endpoint.stats.lastChecked = Date.now();
+        })
+      );
+
+      // Head = highest block at least `quorum` endpoints have reached
+      const heights = this.endpoints
+        .filter(e => e.stats.healthy && e.stats.blockNumber !== null)
+        .map(e => e.stats.blockNumber!)
+        .sort((a, b) => b - a);
+      this.quorumHead = heights.length >= this.quorum ? heights[this.quorum - 1] : heights[0] ?? null;
+      if (this.quorumHead !== null) {
+        for (const endpoint of this.endpoints) {
+          if (endpoint.stats.healthy && endpoint.stats.blockNumber! < this.quorumHead - this.maxBlockLag) {
+            endpoint.stats.healthy = false;
+            endpoint.stats.lastError = `Lagging ${this.quorumHead - endpoint.stats.blockNumber!} blocks behind quorum head`;
+          }
+        }
+      }
+      return this.stats();
+    })().finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private startHealthChecks() {
+    if (this.healthTimer || this.healthIntervalMs <= 0) return;
+    this.healthCheck().catch(e => console.warn("RPC health check failed:", e));
+    this.healthTimer = setInterval(() => {
+      this.healthCheck().catch(e => console.warn("RPC health check failed:", e));
+    }, this.healthIntervalMs);
+    // Do not keep a Node process (indexer, scripts) alive just for health checks
+    (this.healthTimer as { unref?: () => void }).unref?.();
+  }
+
+  destroy() {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = null;
+    this.provider.destroy();
+    for (const endpoint of this.endpoints) endpoint.provider.destroy();
+  }
+}
@@ -0,0 +1,68 @@
+// runs.ts
+import { ethers } from "ethers";
+import { getLemmingsContractReadOnly, getLemmingsContractWithSigner } from "./contract";
+import { decodeRunRecord, encodeRunRecord, TimedCommand } from "./engine";
+
+export type RunStatus = "pending" | "valid" | "invalid";
+
+// LemmingsFHE.RunStatus, None is never returned for a submitted run
+const RUN_STATUSES: Record<number, RunStatus> = { 1: "pending", 2: "valid", 3: "invalid" };
+
+// A player's attempt at a batch's level, verified once the batch is revealed
+export interface PlayerRun {
+  runId: number;
+  player: string;
+  batchId: number;
+  claimedSaved: number;
+  commandCount: number;
+  status: RunStatus;
+  verifiedSaved: number | null; // saved count of the verifier's replay
+  txHash: string;
+  blockNumber: number;
+}
+
+// Records are not checked on submission, one that does not decode counts as no commands here and invalid for the verifier
+function commandCount(record: string): number {
+  try {
+    return decodeRunRecord(ethers.getBytes(record)).length;
+  } catch {
+    return 0;
+  }
+}
+
+// Runs newest first, optionally only those of one batch or player
+export async function loadRuns({ batchId, player }: { batchId?: number; player?: string } = {}, fromBlock = 0): Promise<PlayerRun[]> {
+  const contract = await getLemmingsContractReadOnly();
+  if (!contract) return [];
+  const logs = await contract.queryFilter(contract.filters.RunSubmitted(undefined, player, batchId), fromBlock);
+  const runs = await Promise.all(
+    logs.map(async ({ args, transactionHash, blockNumber }) => {
+      const run = await contract.runs(args.runId);
+      const status = RUN_STATUSES[Number(run.status)] ?? "pending";
+      return {
+        runId: Number(args.runId),
+        player: args.player,
+        batchId: Number(args.batchId),
+        claimedSaved: Number(args.claimedSaved),
+        commandCount: commandCount(args.record),
+        status,
+        verifiedSaved: status === "pending" ? null : Number(run.verifiedSaved),
+        txHash: transactionHash,
+        blockNumber,
+      };
+    })
+  );
+  return runs.sort((a, b) => b.runId - a.runId);
+}
+
+// Submits the commands of a finished run, the verifier replays them once every lemming of the batch is revealed
+export async function submitRun(batchId: number, commands: TimedCommand[], claimedSaved: number): Promise<number> {
+  const contract = await getLemmingsContractWithSigner();
+  const tx = await contract.submitRun(batchId, encodeRunRecord(commands), claimedSaved);
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "RunSubmitted") return Number(parsed.args.runId);
+  }
+  throw new Error("RunSubmitted event not found in receipt");
+}
@@ -0,0 +1,139 @@
+import http from "http";
+import { LemmingsIndexer } from "./indexer";
+import {
+  LemmingStatus,
+  lemmingKey,
+  paginate,
+  queryBatches,
+  queryData,
+  queryDecryptions,
+  queryLemmings,
+  queryLevels,
+} from "./materialize";
+
+class BadRequest extends Error {}
+
+const STATUSES: LemmingStatus[] = ["pending", "sealed", "revealed"];
+
+function intParam(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) throw new BadRequest(`${name} must be a non-negative integer`);
+  return value;
+}
+
+function boolParam(params: URLSearchParams, name: string): boolean | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+  if (raw !== "true" && raw !== "false") throw new BadRequest(`${name} must be true or false`);
+  return raw === "true";
+}
+
+function pageParams(params: URLSearchParams) {
+  return { offset: intParam(params, "offset") ?? 0, limit: intParam(params, "limit") ?? 50 };
+}
+
+function route(indexer: LemmingsIndexer, url: URL): unknown {
+  const { view } = indexer;
+  const params = url.searchParams;
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (url.pathname === "/status") {
+    const { chainId, lemmingsAddress, adapterAddress, cursor } = indexer.store.snapshot;
+    return {
+      chainId,
+      lemmingsAddress,
+      adapterAddress,
+      cursor,
+      levels: view.levels.size,
+      batches: view.batches.size,
+      lemmings: view.lemmings.size,
+      decryptions: view.decryptions.size,
+      data: view.data.length,
+    };
+  }
+
+  if (url.pathname === "/levels") {
+    const { offset, limit } = pageParams(params);
+    return paginate(queryLevels(view), offset, limit);
+  }
+
+  if (url.pathname === "/batches") {
+    const { offset, limit } = pageParams(params);
+    const items = queryBatches(view, { isOpen: boolParam(params, "isOpen"), levelId: intParam(params, "levelId") });
+    return paginate(items, offset, limit);
+  }
+
+  if (parts[0] === "lemmings" && parts.length === 3) {
+    const lemming = view.lemmings.get(lemmingKey(Number(parts[1]), Number(parts[2])));
+    return lemming ?? null;
+  }
+
+  if (url.pathname === "/lemmings") {
+    const status = params.get("status") || undefined;
+    if (status !== undefined && !STATUSES.includes(status as LemmingStatus)) {
+      throw new BadRequest(`status must be one of ${STATUSES.join(", ")}`);
+    }
+    const { offset, limit } = pageParams(params);
+    const items = queryLemmings(view, {
+      batchId: intParam(params, "batchId"),
+      provider: params.get("provider") || undefined,
+      status: status as LemmingStatus | undefined,
+    });
+    return paginate(items, offset, limit);
+  }
+
+  if (url.pathname === "/decryptions") {
+    const { offset, limit } = pageParams(params);
+    const items = queryDecryptions(view, {
+      batchId: intParam(params, "batchId"),
+      completed: boolParam(params, "completed"),
+    });
+    return paginate(items, offset, limit);
+  }
+
+  if (url.pathname === "/data") {
+    const { offset, limit } = pageParams(params);
+    const items = queryData(view, { sender: params.get("sender") || undefined, key: params.get("key") || undefined });
+    return paginate(items, offset, limit);
+  }
+
+  return undefined;
+}
+
+// Read-only JSON API over the materialized view, CORS is open so the frontend can call it directly
+export function createIndexerServer(indexer: LemmingsIndexer): http.Server {
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Methods": "GET" });
+      res.end();
+      return;
+    }
+    if (req.method !== "GET") {
+      send(405, { error: "Only GET is supported" });
+      return;
+    }
+
+    try {
+      const body = route(indexer, new URL(req.url ?? "/", "http://localhost"));
+      if (body === undefined) send(404, { error: "Not found" });
+      else if (body === null) send(404, { error: "Lemming not found" });
+      else send(200, body);
+    } catch (e) {
+      if (e instanceof BadRequest) send(400, { error: e.message });
+      else {
+        console.error("Indexer API error:", e);
+        send(500, { error: "Internal error" });
+      }
+    }
+  });
+}
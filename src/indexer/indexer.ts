@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+import { LemmingsFHE__factory } from "../../types";
+import { Poller } from "../poller";
+import { applyEvent, buildView, LemmingsView } from "./materialize";
+import { BlockRef, IndexedEvent, IndexedEventName, JsonStore } from "./store";
+
+const LEMMINGS_EVENTS = [
+  "LevelRegistered",
+  "LemmingSubmitted",
+  "BatchOpened",
+  "BatchClosed",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+] as const satisfies readonly IndexedEventName[];
+
+// UniversalAdapter has no source in this repo, only its event is needed here
+const ADAPTER_ABI = ["event DataStored(address indexed sender, string key, bytes value)"];
+
+export interface IndexerOptions {
+  provider: ethers.Provider;
+  store: JsonStore;
+  blockRange?: number; // blocks per eth_getLogs call
+  reorgDepth?: number; // how many recent block hashes are kept to find a fork point
+  pollIntervalMs?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  reorgedFrom: number | null;
+}
+
+const toJson = (value: unknown): string | string[] =>
+  Array.isArray(value) ? value.map((v) => String(v)) : typeof value === "bigint" ? value.toString() : String(value);
+
+export class LemmingsIndexer {
+  readonly provider: ethers.Provider;
+  readonly store: JsonStore;
+  view: LemmingsView;
+
+  private readonly blockRange: number;
+  private readonly reorgDepth: number;
+  private readonly lemmingsInterface = LemmingsFHE__factory.createInterface();
+  private readonly adapterInterface = new ethers.Interface(ADAPTER_ABI);
+  private readonly poller: Poller;
+
+  constructor(options: IndexerOptions) {
+    this.provider = options.provider;
+    this.store = options.store;
+    this.blockRange = options.blockRange ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 64;
+    this.view = buildView(this.store.snapshot.events);
+    this.poller = new Poller("Indexer sync", options.pollIntervalMs ?? 4000, async () => {
+      const result = await this.syncOnce();
+      if (result.reorgedFrom !== null) console.log(`Reorg detected, re-indexed from block ${result.reorgedFrom}`);
+      if (result.events > 0) console.log(`Indexed ${result.events} events up to block ${result.toBlock}`);
+    });
+  }
+
+  private get addresses(): string[] {
+    const { lemmingsAddress, adapterAddress } = this.store.snapshot;
+    return adapterAddress ? [lemmingsAddress, adapterAddress] : [lemmingsAddress];
+  }
+
+  private get topics(): string[] {
+    const lemmings = LEMMINGS_EVENTS.map((name) => this.lemmingsInterface.getEvent(name)!.topicHash);
+    return this.store.snapshot.adapterAddress
+      ? [...lemmings, this.adapterInterface.getEvent("DataStored")!.topicHash]
+      : lemmings;
+  }
+
+  // Walks back through the recorded block hashes until one still matches the chain
+  private async resolveReorg(): Promise<number | null> {
+    const { cursor, recentBlocks, startBlock } = this.store.snapshot;
+    if (!cursor) return null;
+
+    for (const ref of [...recentBlocks].reverse()) {
+      const block = await this.provider.getBlock(ref.number);
+      if (block?.hash === ref.hash) {
+        if (ref.number === cursor.number) return null;
+        this.store.rollback(ref.number);
+        this.view = buildView(this.store.snapshot.events);
+        return ref.number + 1;
+      }
+    }
+
+    // Fork is deeper than what we track, index again from scratch
+    this.store.rollback(startBlock - 1);
+    this.view = buildView(this.store.snapshot.events);
+    return startBlock;
+  }
+
+  private async decode(logs: ethers.Log[]): Promise<IndexedEvent[]> {
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+    const lemmingsAddress = this.store.snapshot.lemmingsAddress.toLowerCase();
+
+    for (const log of [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)) {
+      const iface = log.address.toLowerCase() === lemmingsAddress ? this.lemmingsInterface : this.adapterInterface;
+      const parsed = iface.parseLog(log);
+      if (!parsed) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+
+      const args: Record<string, string | string[]> = {};
+      parsed.fragment.inputs.forEach((input, i) => (args[input.name] = toJson(parsed.args[i])));
+      events.push({
+        name: parsed.name as IndexedEventName,
+        address: log.address,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        args,
+      });
+    }
+    return events;
+  }
+
+  // Indexes up to the current head, persisting after every block range
+  async syncOnce(): Promise<SyncResult> {
+    const reorgedFrom = await this.resolveReorg();
+    const head = await this.provider.getBlockNumber();
+    const { cursor, startBlock } = this.store.snapshot;
+    const fromBlock = cursor ? cursor.number + 1 : startBlock;
+    let events = 0;
+
+    for (let from = fromBlock; from <= head; from += this.blockRange) {
+      const to = Math.min(head, from + this.blockRange - 1);
+      const logs = await this.provider.getLogs({
+        address: this.addresses,
+        topics: [this.topics],
+        fromBlock: from,
+        toBlock: to,
+      });
+      const decoded = await this.decode(logs);
+      const last = await this.provider.getBlock(to);
+      if (!last?.hash) throw new Error(`Block ${to} not available`);
+
+      const seen: BlockRef[] = decoded.map((e) => ({ number: e.blockNumber, hash: e.blockHash }));
+      this.store.append(decoded, { number: to, hash: last.hash }, seen, this.reorgDepth);
+      for (const event of decoded) applyEvent(this.view, event);
+      this.store.save();
+      events += decoded.length;
+    }
+
+    return { fromBlock, toBlock: head, events, reorgedFrom };
+  }
+
+  // Backfills, then keeps polling for new blocks until stop()
+  async start(): Promise<void> {
+    await this.poller.start();
+  }
+
+  stop() {
+    this.poller.stop();
+  }
+}
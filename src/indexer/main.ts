@@ -0,0 +1,65 @@
+import "dotenv/config";
+import { ethers } from "ethers";
+import path from "path";
+import { DEFAULT_CHAIN_ID, getDeployment } from "../../frontend/web/src/deployments";
+import { RpcPool } from "../../frontend/web/src/rpcPool";
+import { createIndexerServer } from "./api";
+import { LemmingsIndexer } from "./indexer";
+import { JsonStore } from "./store";
+
+// Settings come from the environment and fall back to the frontend config
+async function main() {
+  const chainId = Number(process.env.INDEXER_CHAIN_ID || DEFAULT_CHAIN_ID);
+  const deployment = getDeployment(chainId);
+  const rpcUrls = process.env.INDEXER_RPC_URLS
+    ? process.env.INDEXER_RPC_URLS.split(",").map((url) => url.trim())
+    : (deployment?.rpcUrls ?? []);
+  const lemmingsAddress = process.env.LEMMINGS_ADDRESS || deployment?.contracts.LemmingsFHE || "";
+  const adapterAddress = process.env.ADAPTER_ADDRESS ?? deployment?.contracts.UniversalAdapter;
+  const startBlock = Number(process.env.INDEXER_START_BLOCK || 0);
+  const port = Number(process.env.INDEXER_PORT || 8787);
+
+  if (!ethers.isAddress(lemmingsAddress)) {
+    throw new Error(
+      `LemmingsFHE address missing, set LEMMINGS_ADDRESS or deployments.${chainId}.contracts.LemmingsFHE in config.json`,
+    );
+  }
+
+  // Same pool as the frontend: failover between endpoints and benching of lagging nodes
+  const pool = new RpcPool({ chainId, urls: rpcUrls });
+  await pool.healthCheck();
+  const provider = pool.provider;
+  const storeFile =
+    process.env.INDEXER_STORE || path.join("indexer-data", `${chainId}-${lemmingsAddress.toLowerCase()}.json`);
+
+  const store = new JsonStore(storeFile, {
+    chainId,
+    lemmingsAddress,
+    adapterAddress: adapterAddress ? adapterAddress : null,
+    startBlock,
+  });
+  const indexer = new LemmingsIndexer({
+    provider,
+    store,
+    blockRange: process.env.INDEXER_BLOCK_RANGE ? Number(process.env.INDEXER_BLOCK_RANGE) : undefined,
+    pollIntervalMs: process.env.INDEXER_POLL_MS ? Number(process.env.INDEXER_POLL_MS) : undefined,
+  });
+
+  console.log(`Indexing LemmingsFHE ${lemmingsAddress} on chain ${chainId} into ${storeFile}`);
+  const server = createIndexerServer(indexer);
+  server.listen(port, () => console.log(`Indexer API listening on http://localhost:${port}`));
+  await indexer.start();
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+    pool.destroy();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Indexer failed:", error);
+  process.exit(1);
+});
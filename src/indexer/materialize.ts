@@ -0,0 +1,252 @@
+import { IndexedEvent } from "./store";
+
+export type LemmingStatus = "pending" | "sealed" | "revealed";
+
+export interface IndexedBatch {
+  batchId: number;
+  levelId: number;
+  isOpen: boolean;
+  openedBlock: number;
+  closedBlock: number | null;
+  lemmingCount: number;
+}
+
+export interface IndexedLevel {
+  levelId: number;
+  contentHash: string;
+  fileId: string;
+  lemmingSlots: number;
+  width: number;
+  height: number;
+  targetSavePercent: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface IndexedLemming {
+  batchId: number;
+  lemmingId: number;
+  provider: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  status: LemmingStatus;
+  revealed: { abilityId: number; x: number; y: number; valid: boolean } | null;
+}
+
+export interface IndexedDecryption {
+  requestId: string;
+  batchId: number;
+  fromId: number; // lemmingId range covered by the request, inclusive
+  toId: number;
+  stateHash: string;
+  requestedBlock: number;
+  requestedAt: number;
+  txHash: string;
+  completed: { blockNumber: number; timestamp: number; txHash: string } | null;
+}
+
+export interface IndexedData {
+  sender: string;
+  key: string;
+  value: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface LemmingsView {
+  levels: Map<number, IndexedLevel>;
+  batches: Map<number, IndexedBatch>;
+  lemmings: Map<string, IndexedLemming>;
+  decryptions: Map<string, IndexedDecryption>;
+  data: IndexedData[];
+}
+
+export const lemmingKey = (batchId: number, lemmingId: number) => `${batchId}-${lemmingId}`;
+
+export const emptyView = (): LemmingsView => ({
+  levels: new Map(),
+  batches: new Map(),
+  lemmings: new Map(),
+  decryptions: new Map(),
+  data: [],
+});
+
+const statusOf = (view: LemmingsView, lemming: IndexedLemming): LemmingStatus =>
+  lemming.revealed ? "revealed" : view.batches.get(lemming.batchId)?.isOpen ? "pending" : "sealed";
+
+// Events must be applied in chain order, a reorg rebuilds the view from the remaining events
+export function applyEvent(view: LemmingsView, event: IndexedEvent) {
+  const { args } = event;
+  switch (event.name) {
+    case "LevelRegistered": {
+      const levelId = Number(args.levelId);
+      view.levels.set(levelId, {
+        levelId,
+        contentHash: args.contentHash as string,
+        fileId: args.fileId as string,
+        lemmingSlots: Number(args.lemmingSlots),
+        width: Number(args.width),
+        height: Number(args.height),
+        targetSavePercent: Number(args.targetSavePercent),
+        blockNumber: event.blockNumber,
+        txHash: event.txHash,
+      });
+      break;
+    }
+    case "BatchOpened": {
+      const batchId = Number(args.batchId);
+      view.batches.set(batchId, {
+        batchId,
+        levelId: Number(args.levelId),
+        isOpen: true,
+        openedBlock: event.blockNumber,
+        closedBlock: null,
+        lemmingCount: 0,
+      });
+      break;
+    }
+    case "BatchClosed": {
+      const batch = view.batches.get(Number(args.batchId));
+      if (!batch) break;
+      batch.isOpen = false;
+      batch.closedBlock = event.blockNumber;
+      for (const lemming of view.lemmings.values()) {
+        if (lemming.batchId === batch.batchId) lemming.status = statusOf(view, lemming);
+      }
+      break;
+    }
+    case "LemmingSubmitted": {
+      const batchId = Number(args.batchId);
+      const lemmingId = Number(args.lemmingId);
+      const batch = view.batches.get(batchId);
+      if (batch) batch.lemmingCount = Math.max(batch.lemmingCount, lemmingId);
+      const lemming: IndexedLemming = {
+        batchId,
+        lemmingId,
+        provider: args.provider as string,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+        txHash: event.txHash,
+        status: "pending",
+        revealed: null,
+      };
+      lemming.status = statusOf(view, lemming);
+      view.lemmings.set(lemmingKey(batchId, lemmingId), lemming);
+      break;
+    }
+    case "DecryptionRequested": {
+      const requestId = args.requestId as string;
+      view.decryptions.set(requestId, {
+        requestId,
+        batchId: Number(args.batchId),
+        fromId: Number(args.fromId),
+        toId: Number(args.toId),
+        stateHash: args.stateHash as string,
+        requestedBlock: event.blockNumber,
+        requestedAt: event.timestamp,
+        txHash: event.txHash,
+        completed: null,
+      });
+      break;
+    }
+    case "DecryptionCompleted": {
+      const batchId = Number(args.batchId);
+      const fromId = Number(args.fromId);
+      const decryption = view.decryptions.get(args.requestId as string);
+      if (decryption) {
+        decryption.completed = { blockNumber: event.blockNumber, timestamp: event.timestamp, txHash: event.txHash };
+      }
+      const abilities = args.abilities as string[];
+      const xs = args.xs as string[];
+      const ys = args.ys as string[];
+      const valids = args.valids as string[];
+      abilities.forEach((abilityId, i) => {
+        const lemming = view.lemmings.get(lemmingKey(batchId, fromId + i));
+        if (!lemming) return;
+        const valid = valids[i] === "true";
+        lemming.revealed = { abilityId: Number(abilityId), x: Number(xs[i]), y: Number(ys[i]), valid };
+        lemming.status = "revealed";
+      });
+      break;
+    }
+    case "DataStored": {
+      view.data.push({
+        sender: args.sender as string,
+        key: args.key as string,
+        value: args.value as string,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+        txHash: event.txHash,
+      });
+      break;
+    }
+  }
+}
+
+export function buildView(events: IndexedEvent[]): LemmingsView {
+  const view = emptyView();
+  for (const event of events) applyEvent(view, event);
+  return view;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export const MAX_PAGE_SIZE = 500;
+
+export function paginate<T>(items: T[], offset = 0, limit = 50): Page<T> {
+  const start = Math.max(0, offset);
+  const size = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+  return { items: items.slice(start, start + size), total: items.length, offset: start, limit: size };
+}
+
+export interface LemmingFilter {
+  batchId?: number;
+  provider?: string;
+  status?: LemmingStatus;
+}
+
+// Newest first, matching the frontend table order
+export function queryLemmings(view: LemmingsView, filter: LemmingFilter): IndexedLemming[] {
+  const provider = filter.provider?.toLowerCase();
+  return [...view.lemmings.values()]
+    .filter((l) => filter.batchId === undefined || l.batchId === filter.batchId)
+    .filter((l) => provider === undefined || l.provider.toLowerCase() === provider)
+    .filter((l) => filter.status === undefined || l.status === filter.status)
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.batchId - a.batchId || b.lemmingId - a.lemmingId);
+}
+
+export const queryLevels = (view: LemmingsView): IndexedLevel[] =>
+  [...view.levels.values()].sort((a, b) => a.levelId - b.levelId);
+
+export function queryBatches(view: LemmingsView, filter: { isOpen?: boolean; levelId?: number }): IndexedBatch[] {
+  return [...view.batches.values()]
+    .filter((b) => filter.isOpen === undefined || b.isOpen === filter.isOpen)
+    .filter((b) => filter.levelId === undefined || b.levelId === filter.levelId)
+    .sort((a, b) => b.batchId - a.batchId);
+}
+
+export function queryDecryptions(
+  view: LemmingsView,
+  filter: { batchId?: number; completed?: boolean },
+): IndexedDecryption[] {
+  return [...view.decryptions.values()]
+    .filter((d) => filter.batchId === undefined || d.batchId === filter.batchId)
+    .filter((d) => filter.completed === undefined || (d.completed !== null) === filter.completed)
+    .sort((a, b) => b.requestedBlock - a.requestedBlock);
+}
+
+export function queryData(view: LemmingsView, filter: { sender?: string; key?: string }): IndexedData[] {
+  const sender = filter.sender?.toLowerCase();
+  return view.data
+    .filter((d) => sender === undefined || d.sender.toLowerCase() === sender)
+    .filter((d) => filter.key === undefined || d.key === filter.key)
+    .slice()
+    .reverse();
+}
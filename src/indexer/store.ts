@@ -0,0 +1,102 @@
+import fs from "fs";
+import path from "path";
+
+export type IndexedEventName =
+  | "LevelRegistered"
+  | "LemmingSubmitted"
+  | "BatchOpened"
+  | "BatchClosed"
+  | "DecryptionRequested"
+  | "DecryptionCompleted"
+  | "DataStored";
+
+// Normalized log, uint values are kept as decimal strings so the store stays plain JSON
+export interface IndexedEvent {
+  name: IndexedEventName;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  args: Record<string, string | string[]>;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface IndexerSnapshot {
+  version: number;
+  chainId: number;
+  lemmingsAddress: string;
+  adapterAddress: string | null;
+  startBlock: number;
+  cursor: BlockRef | null; // last fully indexed block
+  recentBlocks: BlockRef[]; // ascending, used to find the fork point after a reorg
+  events: IndexedEvent[];
+}
+
+const SNAPSHOT_VERSION = 1;
+
+export class JsonStore {
+  private readonly file: string;
+  snapshot: IndexerSnapshot;
+
+  constructor(
+    file: string,
+    init: Pick<IndexerSnapshot, "chainId" | "lemmingsAddress" | "adapterAddress" | "startBlock">,
+  ) {
+    this.file = file;
+    const existing = JsonStore.read(file);
+    if (
+      existing &&
+      existing.version === SNAPSHOT_VERSION &&
+      existing.chainId === init.chainId &&
+      existing.lemmingsAddress.toLowerCase() === init.lemmingsAddress.toLowerCase() &&
+      (existing.adapterAddress ?? "").toLowerCase() === (init.adapterAddress ?? "").toLowerCase()
+    ) {
+      this.snapshot = existing;
+    } else {
+      // Different chain or contracts, start over rather than mixing histories
+      this.snapshot = { version: SNAPSHOT_VERSION, ...init, cursor: null, recentBlocks: [], events: [] };
+    }
+  }
+
+  private static read(file: string): IndexerSnapshot | null {
+    if (!fs.existsSync(file)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8")) as IndexerSnapshot;
+    } catch (e) {
+      console.warn(`Ignoring unreadable indexer store ${file}:`, e);
+      return null;
+    }
+  }
+
+  // Write to a temp file and rename so a crash never leaves a truncated store
+  save() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.snapshot));
+    fs.renameSync(tmp, this.file);
+  }
+
+  append(events: IndexedEvent[], cursor: BlockRef, recent: BlockRef[], keepBlocks: number) {
+    this.snapshot.events.push(...events);
+    this.snapshot.cursor = cursor;
+    const known = new Map(this.snapshot.recentBlocks.map((b) => [b.number, b]));
+    for (const block of [...recent, cursor]) known.set(block.number, block);
+    this.snapshot.recentBlocks = [...known.values()]
+      .sort((a, b) => a.number - b.number)
+      .filter((b) => b.number > cursor.number - keepBlocks);
+  }
+
+  // Drops everything after blockNumber, the next sync re-indexes from there
+  rollback(blockNumber: number) {
+    this.snapshot.events = this.snapshot.events.filter((e) => e.blockNumber <= blockNumber);
+    this.snapshot.recentBlocks = this.snapshot.recentBlocks.filter((b) => b.number <= blockNumber);
+    const last = this.snapshot.recentBlocks[this.snapshot.recentBlocks.length - 1];
+    this.snapshot.cursor = blockNumber < this.snapshot.startBlock ? null : (last ?? null);
+  }
+}
@@ -0,0 +1,59 @@
+import "dotenv/config";
+import { ethers } from "ethers";
+import { getDeployment } from "../../frontend/web/src/deployments";
+import { MockOracle, ORACLE_FAULTS, OracleFault } from "./oracle";
+
+const HARDHAT_CHAIN_ID = 31337;
+
+// Settings come from the environment and fall back to the hardhat entry of the frontend config
+async function main() {
+  const deployment = getDeployment(HARDHAT_CHAIN_ID);
+  const rpcUrl = process.env.ORACLE_RPC_URL || deployment?.rpcUrls[0] || "http://127.0.0.1:8545";
+  // Without a contract every request on the node is answered
+  const contract = process.env.LEMMINGS_ADDRESS || deployment?.contracts.LemmingsFHE || undefined;
+  const fault = (process.env.ORACLE_FAULT || "none") as OracleFault;
+
+  if (!ORACLE_FAULTS.includes(fault)) {
+    throw new Error(`ORACLE_FAULT must be one of ${ORACLE_FAULTS.join(", ")}, got "${fault}"`);
+  }
+  if (contract && !ethers.isAddress(contract)) throw new Error(`Invalid LEMMINGS_ADDRESS "${contract}"`);
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (chainId !== HARDHAT_CHAIN_ID) {
+    throw new Error(`The mock oracle only runs against a local hardhat node, ${rpcUrl} is chain ${chainId}`);
+  }
+  // The last default hardhat account stays clear of the deployer and the bootstrap providers
+  const signer = process.env.ORACLE_PRIVATE_KEY
+    ? new ethers.Wallet(process.env.ORACLE_PRIVATE_KEY, provider)
+    : await provider.getSigner(Number(process.env.ORACLE_ACCOUNT || 19));
+
+  const oracle = new MockOracle({
+    provider,
+    signer,
+    decryptionOracleAddress: await MockOracle.decryptionOracleAddress(provider),
+    contract,
+    fromBlock: process.env.ORACLE_START_BLOCK ? Number(process.env.ORACLE_START_BLOCK) : undefined,
+    latencyMs: Number(process.env.ORACLE_LATENCY_MS || 0),
+    jitterMs: Number(process.env.ORACLE_JITTER_MS || 0),
+    fault,
+    faultRate: process.env.ORACLE_FAULT_RATE ? Number(process.env.ORACLE_FAULT_RATE) : undefined,
+    pollIntervalMs: process.env.ORACLE_POLL_MS ? Number(process.env.ORACLE_POLL_MS) : undefined,
+  });
+
+  const target = contract ? `requests from ${contract}` : "every request";
+  console.log(`Mock oracle answering ${target} on ${rpcUrl} as ${await signer.getAddress()}, fault: ${fault}`);
+  await oracle.start();
+
+  const shutdown = () => {
+    oracle.stop();
+    provider.destroy();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Mock oracle failed:", error);
+  process.exit(1);
+});
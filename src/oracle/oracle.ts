@@ -0,0 +1,259 @@
+import { ethers } from "ethers";
+import { findRevertData, lemmingsErrorName } from "../../frontend/web/src/errors";
+import { Poller } from "../poller";
+
+// DecryptionOracle and FHE library events, the same for every contract using FHE.requestDecryption
+const ORACLE_ABI = [
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+];
+const CALLER_ABI = ["event DecryptionFulfilled(uint256 indexed requestID)"];
+
+// KMSVerifier errors bubble up through FHE.checkSignatures and are not part of the LemmingsFHE ABI
+const KMS_ERRORS_ABI = [
+  "error KMSInvalidSigner(address invalidSigner)",
+  "error KMSSignatureThresholdNotReached(uint256 numSignatures)",
+  "error KMSZeroSignature()",
+  "error DeserializingDecryptionProofFail()",
+  "error EmptyDecryptionProof()",
+];
+
+export const ORACLE_FAULTS = ["none", "drop", "duplicate", "wrong-proof"] as const;
+export type OracleFault = (typeof ORACLE_FAULTS)[number];
+
+// Needs the fhevm_* methods the FHEVM hardhat plugin adds to a hardhat node
+export type FhevmRpcProvider = ethers.Provider & { send(method: string, params: unknown[]): Promise<any> };
+
+export interface MockOracleOptions {
+  provider: FhevmRpcProvider;
+  signer: ethers.Signer; // sends the callbacks, any funded account works since only the KMS signatures are checked
+  decryptionOracleAddress: string;
+  contract?: string; // only answer requests made by this contract
+  fromBlock?: number; // defaults to the latest block when the oracle starts
+  latencyMs?: number; // delay between seeing a request and answering it
+  jitterMs?: number; // random extra delay on top of latencyMs
+  fault?: OracleFault;
+  faultRate?: number; // share of requests the fault applies to, 0 to 1
+  pollIntervalMs?: number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  log?: (message: string) => void;
+}
+
+export interface OracleRequest {
+  requestId: bigint;
+  caller: string;
+  callbackSelector: string;
+  handles: string[];
+  blockNumber: number;
+  seenAt: number; // ms timestamp of the poll that found it
+}
+
+export type OracleOutcome = "answered" | "dropped" | "reverted";
+
+export interface OracleAnswer {
+  request: OracleRequest;
+  fault: OracleFault;
+  outcome: OracleOutcome;
+  txHashes: string[];
+  errors: string[]; // revert reason of every callback that failed, e.g. ReplayAttempt for the duplicate
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class MockOracle {
+  readonly provider: FhevmRpcProvider;
+  readonly signer: ethers.Signer;
+
+  private readonly oracleAddress: string;
+  private readonly contract: string | null;
+  private readonly latencyMs: number;
+  private readonly jitterMs: number;
+  private readonly fault: OracleFault;
+  private readonly faultRate: number;
+  private readonly random: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly log: (message: string) => void;
+  private readonly oracleInterface = new ethers.Interface(ORACLE_ABI);
+  private readonly callerInterface = new ethers.Interface(CALLER_ABI);
+  private readonly kmsInterface = new ethers.Interface(KMS_ERRORS_ABI);
+  private readonly pending = new Map<bigint, OracleRequest>();
+  private nextBlock: number | null;
+  private readonly poller: Poller;
+
+  constructor(options: MockOracleOptions) {
+    if (options.faultRate !== undefined && !(options.faultRate >= 0 && options.faultRate <= 1)) {
+      throw new Error(`faultRate must be between 0 and 1, got ${options.faultRate}`);
+    }
+    this.provider = options.provider;
+    this.signer = options.signer;
+    this.oracleAddress = options.decryptionOracleAddress;
+    this.contract = options.contract ? options.contract.toLowerCase() : null;
+    this.nextBlock = options.fromBlock ?? null;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.jitterMs = options.jitterMs ?? 0;
+    this.fault = options.fault ?? "none";
+    this.faultRate = options.faultRate ?? 1;
+    this.random = options.random ?? Math.random;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.log = options.log ?? console.log;
+    this.poller = new Poller("Oracle poll", options.pollIntervalMs ?? 1000, () => this.runOnce());
+  }
+
+  // DecryptionOracle address of the mock FHEVM deployed by the plugin
+  static async decryptionOracleAddress(provider: FhevmRpcProvider): Promise<string> {
+    const metadata = await provider.send("fhevm_relayer_metadata", []);
+    if (!ethers.isAddress(metadata?.DecryptionOracleAddress)) {
+      throw new Error("The node did not return FHEVM metadata, is it a hardhat node running the FHEVM plugin?");
+    }
+    return metadata.DecryptionOracleAddress;
+  }
+
+  // Requests emitted since the last poll plus the ones not answered yet, minus those fulfilled in the meantime
+  async poll(): Promise<OracleRequest[]> {
+    const latest = await this.provider.getBlockNumber();
+    if (this.nextBlock === null) this.nextBlock = latest + 1;
+    if (this.nextBlock <= latest) {
+      const logs = await this.provider.getLogs({
+        address: this.oracleAddress,
+        topics: [this.oracleInterface.getEvent("DecryptionRequest")!.topicHash],
+        fromBlock: this.nextBlock,
+        toBlock: latest,
+      });
+      this.nextBlock = latest + 1;
+
+      const seenAt = Date.now();
+      for (const log of logs) {
+        const parsed = this.oracleInterface.parseLog(log)!;
+        const caller = String(parsed.args.contractCaller);
+        if (this.contract && caller.toLowerCase() !== this.contract) continue;
+        this.pending.set(parsed.args.requestID, {
+          requestId: parsed.args.requestID,
+          caller,
+          callbackSelector: parsed.args.callbackSelector,
+          handles: [...parsed.args.cts],
+          blockNumber: log.blockNumber,
+          seenAt,
+        });
+      }
+    }
+
+    // Requests answered by someone else, e.g. a restarted oracle catching up with a start block
+    for (const request of this.pending.values()) {
+      if (await this.isFulfilled(request)) this.pending.delete(request.requestId);
+    }
+    return [...this.pending.values()];
+  }
+
+  private async isFulfilled(request: OracleRequest) {
+    const fulfilled = await this.provider.getLogs({
+      address: request.caller,
+      topics: [this.callerInterface.getEvent("DecryptionFulfilled")!.topicHash, ethers.toBeHex(request.requestId, 32)],
+      fromBlock: request.blockNumber,
+    });
+    return fulfilled.length > 0;
+  }
+
+  // Callback calldata with the cleartexts and KMS signatures the real oracle would send
+  async callbackData(request: OracleRequest, tamper = false): Promise<string> {
+    const cleartexts: string[] = await this.provider.send("fhevm_getClearText", [request.handles]);
+    const extraData = ethers.solidityPacked(["uint8"], [0]);
+    const real = await this.sign(request.handles, cleartexts, extraData);
+    // A well-formed proof over different values, so only the KMS signature check can reject it
+    const bumped = cleartexts.map((value, i) => (i === 0 ? ethers.toBeHex(BigInt(value) ^ 1n) : value));
+    const { signatures } = tamper ? await this.sign(request.handles, bumped, extraData) : real;
+
+    const proof = ethers.concat([
+      ethers.solidityPacked(["uint8"], [signatures.length]),
+      ethers.solidityPacked(Array(signatures.length).fill("bytes"), signatures),
+      extraData,
+    ]);
+    // The signed result ends with the offset word FHE.checkSignatures appends on-chain, the callback gets the values only
+    const cleartextsData = ethers.dataSlice(real.decryptedResult, 0, ethers.dataLength(real.decryptedResult) - 32);
+    const args = ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint256", "bytes", "bytes"],
+      [request.requestId, cleartextsData, proof],
+    );
+    return ethers.concat([request.callbackSelector, args]);
+  }
+
+  private async sign(handles: string[], cleartexts: string[], extraData: string) {
+    const signed: { decryptedResult: string; signatures: string[] } = await this.provider.send(
+      "fhevm_createDecryptionSignatures",
+      [{ handlesBytes32Hex: handles, clearTextValuesHex: cleartexts, extraData }],
+    );
+    return signed;
+  }
+
+  // Waits out the configured latency, then answers with the configured fault applied at faultRate
+  async answer(request: OracleRequest): Promise<OracleAnswer> {
+    const delay = this.latencyMs + Math.floor(this.random() * this.jitterMs);
+    await this.sleep(Math.max(0, request.seenAt + delay - Date.now()));
+
+    const fault = this.fault !== "none" && this.random() < this.faultRate ? this.fault : "none";
+    const result: OracleAnswer = { request, fault, outcome: "answered", txHashes: [], errors: [] };
+    const label = `Request ${request.requestId} from ${request.caller}`;
+    if (fault === "drop") {
+      result.outcome = "dropped";
+      this.log(`${label}: dropped`);
+      return result;
+    }
+
+    const data = await this.callbackData(request, fault === "wrong-proof");
+    const sends = fault === "duplicate" ? 2 : 1;
+    for (let i = 0; i < sends; i++) {
+      try {
+        const tx = await this.signer.sendTransaction({ to: request.caller, data });
+        result.txHashes.push(tx.hash);
+        await tx.wait();
+      } catch (e) {
+        result.errors.push(this.errorName(e));
+      }
+    }
+
+    // A duplicate counts as answered when the first callback went through
+    if (result.errors.length === sends) result.outcome = "reverted";
+    const faultNote = fault === "none" ? "" : ` (${fault})`;
+    const errorNote = result.errors.length > 0 ? `, reverted with ${result.errors.join(", ")}` : "";
+    this.log(`${label}: ${result.outcome}${faultNote}${errorNote}`);
+    return result;
+  }
+
+  private errorName(e: any): string {
+    const name = lemmingsErrorName(e);
+    if (name) return name;
+    const data = findRevertData(e);
+    try {
+      const parsed = data ? this.kmsInterface.parseError(data) : null;
+      if (parsed) return parsed.name;
+    } catch {
+      // Not a KMSVerifier error either
+    }
+    return e?.shortMessage || e?.message || "unknown error";
+  }
+
+  // One poll, answering requests one at a time so callbacks never race for the signer's nonce.
+  // A request whose answer could not even be attempted stays pending and is retried on the next poll.
+  async runOnce(): Promise<OracleAnswer[]> {
+    const answers: OracleAnswer[] = [];
+    for (const request of await this.poll()) {
+      try {
+        answers.push(await this.answer(request));
+        this.pending.delete(request.requestId);
+      } catch (e) {
+        this.log(
+          `Request ${request.requestId} from ${request.caller}: ${this.errorName(e)}, retrying on the next poll`,
+        );
+      }
+    }
+    return answers;
+  }
+
+  // Keeps polling for requests until stop()
+  async start(): Promise<void> {
+    await this.poller.start();
+  }
+
+  stop() {
+    this.poller.stop();
+  }
+}
@@ -0,0 +1,36 @@
+// Runs a task every `intervalMs` until stop(), shared by the indexer, the oracle and the run verifier.
+// A failing run is logged and retried on the next tick, runs never overlap.
+export class Poller {
+  private readonly name: string;
+  private readonly intervalMs: number;
+  private readonly task: () => Promise<unknown>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(name: string, intervalMs: number, task: () => Promise<unknown>) {
+    this.name = name;
+    this.intervalMs = intervalMs;
+    this.task = task;
+  }
+
+  // Resolves once the first run is done, later runs are scheduled after the previous one finished
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      try {
+        await this.task();
+      } catch (e) {
+        console.error(`${this.name} failed:`, e);
+      }
+      if (this.running) this.timer = setTimeout(loop, this.intervalMs);
+    };
+    await loop();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
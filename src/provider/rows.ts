@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import { ABILITY_TYPES, AbilityType } from "../../frontend/web/src/engine/abilities";
+
+const UINT32_MAX = 2 ** 32 - 1;
+
+// One lemming to submit, `row` is the 1-based position in the source file
+export interface LemmingRow {
+  row: number;
+  ability: number;
+  x: number;
+  y: number;
+}
+
+// Abilities are written by name ("climb") or by id ("0")
+function parseAbility(value: unknown, where: string): number {
+  const text = String(value).trim().toLowerCase();
+  const byName = ABILITY_TYPES.indexOf(text as AbilityType);
+  if (byName !== -1) return byName;
+  const id = Number(text);
+  if (text !== "" && Number.isInteger(id) && id >= 0 && id < ABILITY_TYPES.length) return id;
+  throw new Error(
+    `${where}: unknown ability "${value}", expected one of ${ABILITY_TYPES.join(", ")} or 0-${ABILITY_TYPES.length - 1}`,
+  );
+}
+
+function parseCoordinate(value: unknown, name: string, where: string): number {
+  const n = typeof value === "number" ? value : Number(String(value).trim());
+  if (String(value).trim() === "" || !Number.isInteger(n) || n < 0 || n > UINT32_MAX) {
+    throw new Error(`${where}: ${name} must be an integer between 0 and ${UINT32_MAX}, got "${value}"`);
+  }
+  return n;
+}
+
+const toRow = (raw: Record<string, unknown>, row: number, where: string): LemmingRow => ({
+  row,
+  ability: parseAbility(raw.ability, where),
+  x: parseCoordinate(raw.x, "x", where),
+  y: parseCoordinate(raw.y, "y", where),
+});
+
+// CSV needs an ability,x,y header in any column order, blank lines and # comments are skipped
+export function parseCsvRows(content: string, source = "csv"): LemmingRow[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line, i) => ({ text: line.trim(), line: i + 1 }))
+    .filter(({ text }) => text !== "" && !text.startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].text.split(",").map((h) => h.trim().toLowerCase());
+  for (const column of ["ability", "x", "y"]) {
+    if (!header.includes(column)) throw new Error(`${source}: header must contain ability, x and y columns`);
+  }
+  return lines.slice(1).map(({ text, line }, i) => {
+    const cells = text.split(",");
+    if (cells.length !== header.length) {
+      throw new Error(`${source}:${line}: expected ${header.length} columns, got ${cells.length}`);
+    }
+    const raw = Object.fromEntries(header.map((h, c) => [h, cells[c]]));
+    return toRow(raw, i + 1, `${source}:${line}`);
+  });
+}
+
+// JSON is an array of { ability, x, y } objects
+export function parseJsonRows(content: string, source = "json"): LemmingRow[] {
+  const parsed = JSON.parse(content);
+  if (!Array.isArray(parsed)) throw new Error(`${source}: expected an array of { ability, x, y } objects`);
+  return parsed.map((raw, i) => {
+    if (typeof raw !== "object" || raw === null) throw new Error(`${source}[${i}]: expected an object`);
+    return toRow(raw as Record<string, unknown>, i + 1, `${source}[${i}]`);
+  });
+}
+
+export function readLemmingRows(file: string): LemmingRow[] {
+  const content = fs.readFileSync(file, "utf-8");
+  const source = path.basename(file);
+  const rows =
+    path.extname(file).toLowerCase() === ".json" ? parseJsonRows(content, source) : parseCsvRows(content, source);
+  if (rows.length === 0) throw new Error(`${source} has no lemming rows`);
+  return rows;
+}
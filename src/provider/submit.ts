@@ -0,0 +1,197 @@
+import fs from "fs";
+import path from "path";
+import type { Signer } from "ethers";
+import { MAX_LEMMINGS_PER_PROOF } from "../../frontend/web/src/engine/abilities";
+import type { LemmingsFHE } from "../../types";
+import { LemmingRow } from "./rows";
+
+type Handle = Uint8Array | string;
+
+// One input proof covering every row of a chunk, handles are in row order
+export interface EncryptedRows {
+  handles: [Handle, Handle, Handle][]; // ability, x, y per row
+  inputProof: Uint8Array | string;
+}
+
+export interface SubmittedRow extends LemmingRow {
+  txHash: string | null;
+  lemmingId: number | null;
+}
+
+// Written after every transaction, rerunning with the same file resumes from it
+export interface SubmissionReport {
+  contract: string;
+  chainId: number;
+  batchId: number;
+  provider: string;
+  rows: SubmittedRow[];
+}
+
+export interface SubmitRowsOptions {
+  contract: LemmingsFHE; // connected to the provider's signer
+  batchId: number;
+  rows: LemmingRow[];
+  reportFile: string;
+  encrypt: (rows: LemmingRow[], contractAddress: string, provider: string) => Promise<EncryptedRows>;
+  perTransaction?: number; // rows per submitLemmings call, defaults to MAX_LEMMINGS_PER_PROOF
+  sleep?: (ms: number) => Promise<void>;
+  log?: (message: string) => void;
+}
+
+const RECEIPT_POLL_MS = 4000;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const sameRow = (a: LemmingRow, b: LemmingRow) =>
+  a.row === b.row && a.ability === b.ability && a.x === b.x && a.y === b.y;
+
+function saveReport(file: string, report: SubmissionReport) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(report, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+}
+
+function loadReport(file: string, fresh: SubmissionReport): SubmissionReport {
+  if (!fs.existsSync(file)) return fresh;
+  const report = JSON.parse(fs.readFileSync(file, "utf-8")) as SubmissionReport;
+  const matches =
+    report.contract.toLowerCase() === fresh.contract.toLowerCase() &&
+    report.chainId === fresh.chainId &&
+    report.batchId === fresh.batchId &&
+    report.provider.toLowerCase() === fresh.provider.toLowerCase() &&
+    report.rows.length === fresh.rows.length &&
+    report.rows.every((row, i) => sameRow(row, fresh.rows[i]));
+  if (!matches) {
+    throw new Error(`${file} belongs to a different contract, batch, provider or input, move it away to start over`);
+  }
+  return report;
+}
+
+// LemmingSubmitted ids in emission order, which is the order the rows were passed in
+function lemmingIdsFromLogs(contract: LemmingsFHE, logs: readonly { topics: readonly string[]; data: string }[]) {
+  const ids: number[] = [];
+  for (const log of logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "LemmingSubmitted") ids.push(Number(parsed.args.lemmingId));
+  }
+  return ids;
+}
+
+function recordIds(rows: SubmittedRow[], ids: number[], txHash: string) {
+  if (ids.length !== rows.length) {
+    throw new Error(`Transaction ${txHash} emitted ${ids.length} LemmingSubmitted events for ${rows.length} rows`);
+  }
+  rows.forEach((row, i) => (row.lemmingId = ids[i]));
+}
+
+// Settles rows whose transaction was sent by an earlier run that stopped before recording the outcome
+async function reconcile(
+  contract: LemmingsFHE,
+  report: SubmissionReport,
+  sleep: (ms: number) => Promise<void>,
+  log: (message: string) => void,
+) {
+  const chain = contract.runner!.provider!;
+  const pending = report.rows.filter((row) => row.txHash && row.lemmingId === null);
+  for (const txHash of new Set(pending.map((row) => row.txHash!))) {
+    const rows = pending.filter((row) => row.txHash === txHash);
+    const label = rows.length === 1 ? `Row ${rows[0].row}` : `Rows ${rows[0].row}-${rows[rows.length - 1].row}`;
+    const tx = await chain.getTransaction(txHash);
+    // Not tx.wait(), it throws on reverted transactions instead of returning their receipt
+    let receipt = tx ? await chain.getTransactionReceipt(txHash) : null;
+    while (tx && !receipt) {
+      log(`${label}: earlier transaction ${txHash} is still pending, waiting`);
+      await sleep(RECEIPT_POLL_MS);
+      receipt = await chain.getTransactionReceipt(txHash);
+    }
+    if (receipt?.status === 1) {
+      recordIds(rows, lemmingIdsFromLogs(contract, receipt.logs), txHash);
+      log(`${label}: earlier transaction ${txHash} landed as lemming(s) #${rows.map((r) => r.lemmingId).join(", #")}`);
+    } else {
+      log(`${label}: earlier transaction ${txHash} ${tx ? "reverted" : "was dropped"}, resubmitting`);
+      rows.forEach((row) => (row.txHash = null));
+    }
+  }
+}
+
+// Sleeps until lastSubmissionTime + cooldownSeconds has passed for this provider
+async function waitForCooldown(
+  contract: LemmingsFHE,
+  provider: string,
+  sleep: (ms: number) => Promise<void>,
+  log: (message: string) => void,
+) {
+  const chain = contract.runner!.provider!;
+  for (;;) {
+    const [cooldown, last, block] = await Promise.all([
+      contract.cooldownSeconds(),
+      contract.lastSubmissionTime(provider),
+      chain.getBlock("latest"),
+    ]);
+    // Automining nodes only advance block time on new blocks, the next one is at least wall-clock time
+    const now = Math.max(block!.timestamp, Math.floor(Date.now() / 1000));
+    const remaining = Number(last + cooldown) - now;
+    if (remaining <= 0) return;
+    log(`Cooldown active, waiting ${remaining + 1}s`);
+    await sleep((remaining + 1) * 1000);
+  }
+}
+
+// Encrypts and submits the rows not yet recorded in the report in file order, up to perTransaction rows per call
+export async function submitRows(options: SubmitRowsOptions): Promise<SubmissionReport> {
+  const { contract, batchId, rows, reportFile } = options;
+  const perTransaction = options.perTransaction ?? MAX_LEMMINGS_PER_PROOF;
+  if (!Number.isInteger(perTransaction) || perTransaction < 1 || perTransaction > MAX_LEMMINGS_PER_PROOF) {
+    throw new Error(`perTransaction must be between 1 and ${MAX_LEMMINGS_PER_PROOF}, got ${perTransaction}`);
+  }
+  const sleep = options.sleep ?? defaultSleep;
+  const log = options.log ?? console.log;
+  const contractAddress = await contract.getAddress();
+  const provider = await (contract.runner as Signer).getAddress();
+  const chainId = Number((await contract.runner!.provider!.getNetwork()).chainId);
+
+  const report = loadReport(reportFile, {
+    contract: contractAddress,
+    chainId,
+    batchId,
+    provider,
+    rows: rows.map((row) => ({ ...row, txHash: null, lemmingId: null })),
+  });
+  await reconcile(contract, report, sleep, log);
+  saveReport(reportFile, report);
+
+  // Recorded ids above the on-chain count mean the report comes from another deployment or a reorged chain
+  const count = Number(await contract.lemmingCountInBatch(batchId));
+  const landed = report.rows.filter((row) => row.lemmingId !== null);
+  const highest = Math.max(0, ...landed.map((row) => row.lemmingId!));
+  if (highest > count) {
+    throw new Error(`${reportFile} records lemming #${highest} but batch ${batchId} only has ${count} lemmings`);
+  }
+  const todo = report.rows.filter((row) => row.lemmingId === null);
+  log(`Batch ${batchId} has ${count} lemmings, ${landed.length}/${rows.length} rows already landed`);
+  if (todo.length === 0) return report;
+
+  if (!(await contract.isBatchOpen(batchId))) throw new Error(`Batch ${batchId} is closed or does not exist`);
+  if (!(await contract.isProvider(provider))) throw new Error(`${provider} is not a registered provider`);
+
+  for (let start = 0; start < todo.length; start += perTransaction) {
+    const chunk = todo.slice(start, start + perTransaction);
+    await waitForCooldown(contract, provider, sleep, log);
+    const encrypted = await options.encrypt(chunk, contractAddress, provider);
+    const field = (i: number) => encrypted.handles.map((handles) => handles[i]);
+    const tx =
+      chunk.length === 1
+        ? await contract.submitLemming(batchId, ...encrypted.handles[0], encrypted.inputProof)
+        : await contract.submitLemmings(batchId, field(0), field(1), field(2), encrypted.inputProof);
+    // Persist the hash before waiting so a crash here is settled by reconcile() on the next run
+    chunk.forEach((row) => (row.txHash = tx.hash));
+    saveReport(reportFile, report);
+
+    const receipt = await tx.wait();
+    recordIds(chunk, lemmingIdsFromLogs(contract, receipt!.logs), tx.hash);
+    saveReport(reportFile, report);
+    for (const row of chunk) log(`Row ${row.row} landed as lemming #${row.lemmingId} (${tx.hash})`);
+  }
+  return report;
+}
@@ -0,0 +1,82 @@
+import "dotenv/config";
+import { ethers } from "ethers";
+import fs from "fs";
+import path from "path";
+import { DEFAULT_CHAIN_ID, getDeployment } from "../../frontend/web/src/deployments";
+import { decodeLevelFile, LevelFile, parseLevelFile } from "../../frontend/web/src/engine";
+import { levelKey } from "../../frontend/web/src/levelHash";
+import { LemmingsFHE__factory } from "../../types";
+import { RunVerifier } from "./verifier";
+
+const HARDHAT_CHAIN_ID = 31337;
+
+// UniversalAdapter has no source in this repo, only getData is needed here
+const ADAPTER_ABI = ["function getData(string key) view returns (bytes)"];
+
+// Bundled level files first, then community levels stored in UniversalAdapter
+function levelFileResolver(levelsDir: string, adapter: ethers.Contract | null) {
+  return async (fileId: string): Promise<LevelFile | null> => {
+    const bundled = path.join(levelsDir, `${fileId}.json`);
+    if (fs.existsSync(bundled)) return parseLevelFile(JSON.parse(fs.readFileSync(bundled, "utf8")));
+    if (!adapter) return null;
+    const bytes = ethers.getBytes(await adapter.getData(levelKey(fileId)));
+    return bytes.length > 0 ? decodeLevelFile(bytes) : null;
+  };
+}
+
+// Settings come from the environment and fall back to the frontend config
+async function main() {
+  const chainId = Number(process.env.VERIFIER_CHAIN_ID || DEFAULT_CHAIN_ID);
+  const deployment = getDeployment(chainId);
+  const rpcUrl = process.env.VERIFIER_RPC_URL || deployment?.rpcUrls[0];
+  const lemmingsAddress = process.env.LEMMINGS_ADDRESS || deployment?.contracts.LemmingsFHE || "";
+  const adapterAddress = process.env.ADAPTER_ADDRESS ?? deployment?.contracts.UniversalAdapter;
+  const levelsDir = process.env.VERIFIER_LEVELS_DIR || path.join("frontend", "web", "src", "levels");
+
+  if (!rpcUrl) throw new Error(`No RPC URL for chain ${chainId}, set VERIFIER_RPC_URL`);
+  if (!ethers.isAddress(lemmingsAddress)) {
+    throw new Error(
+      `LemmingsFHE address missing, set LEMMINGS_ADDRESS or deployments.${chainId}.contracts.LemmingsFHE in config.json`,
+    );
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  // Hardhat nodes fall back to a default account that stays clear of the deployer, providers and the mock oracle
+  let signer: ethers.Signer;
+  if (process.env.VERIFIER_PRIVATE_KEY) {
+    signer = new ethers.Wallet(process.env.VERIFIER_PRIVATE_KEY, provider);
+  } else if (chainId === HARDHAT_CHAIN_ID) {
+    signer = await provider.getSigner(Number(process.env.VERIFIER_ACCOUNT || 18));
+  } else {
+    throw new Error("VERIFIER_PRIVATE_KEY is required outside a local hardhat node");
+  }
+
+  const contract = LemmingsFHE__factory.connect(lemmingsAddress, signer);
+  const signerAddress = await signer.getAddress();
+  if (!(await contract.isVerifier(signerAddress))) {
+    throw new Error(`${signerAddress} is not a verifier, add it with lemmings:add-verifier`);
+  }
+
+  const adapter = adapterAddress ? new ethers.Contract(adapterAddress, ADAPTER_ABI, provider) : null;
+  const verifier = new RunVerifier({
+    contract,
+    resolveLevelFile: levelFileResolver(levelsDir, adapter),
+    fromBlock: Number(process.env.VERIFIER_START_BLOCK || 0),
+    pollIntervalMs: process.env.VERIFIER_POLL_MS ? Number(process.env.VERIFIER_POLL_MS) : undefined,
+  });
+
+  console.log(`Verifying runs of LemmingsFHE ${lemmingsAddress} on chain ${chainId} as ${signerAddress}`);
+  await verifier.start();
+
+  const shutdown = () => {
+    verifier.stop();
+    provider.destroy();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Run verifier failed:", error);
+  process.exit(1);
+});
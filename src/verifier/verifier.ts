@@ -0,0 +1,149 @@
+import { ethers } from "ethers";
+import { LevelFile, loadLevel, RunVerdict, slotAbilities, verifyRun } from "../../frontend/web/src/engine";
+import { lemmingsErrorName } from "../../frontend/web/src/errors";
+import { levelContentHash } from "../../frontend/web/src/levelHash";
+import { Poller } from "../poller";
+import type { LemmingsFHE } from "../../types";
+
+// Same values as LemmingsFHE.RunStatus
+export const RUN_STATUS = { None: 0, Pending: 1, Valid: 2, Invalid: 3 } as const;
+
+export interface RunVerifierOptions {
+  contract: LemmingsFHE; // connected to an address the owner added with addVerifier
+  resolveLevelFile: (fileId: string) => Promise<LevelFile | null>;
+  fromBlock?: number; // first block searched for RunSubmitted, defaults to 0
+  pollIntervalMs?: number;
+  log?: (message: string) => void;
+}
+
+export interface SubmittedRun {
+  runId: bigint;
+  player: string;
+  batchId: bigint;
+  claimedSaved: number;
+  record: Uint8Array;
+  blockNumber: number;
+}
+
+export interface VerifiedRun {
+  run: SubmittedRun;
+  verdict: RunVerdict;
+  txHash: string | null;
+  error: string | null; // why postRunResult failed, the run is retried on the next poll
+}
+
+export class RunVerifier {
+  readonly contract: LemmingsFHE;
+
+  private readonly resolveLevelFile: (fileId: string) => Promise<LevelFile | null>;
+  private readonly log: (message: string) => void;
+  private readonly pending = new Map<bigint, SubmittedRun>();
+  private nextBlock: number;
+  private readonly poller: Poller;
+
+  constructor(options: RunVerifierOptions) {
+    this.contract = options.contract;
+    this.resolveLevelFile = options.resolveLevelFile;
+    this.nextBlock = options.fromBlock ?? 0;
+    this.log = options.log ?? console.log;
+    this.poller = new Poller("Verifier poll", options.pollIntervalMs ?? 5000, () => this.runOnce());
+  }
+
+  // Picks up runs submitted since the last poll that nobody has verified yet
+  async poll(): Promise<SubmittedRun[]> {
+    const latest = await this.contract.runner!.provider!.getBlockNumber();
+    if (this.nextBlock <= latest) {
+      const logs = await this.contract.queryFilter(this.contract.filters.RunSubmitted(), this.nextBlock, latest);
+      this.nextBlock = latest + 1;
+      for (const log of logs) {
+        const { runId, player, batchId, claimedSaved, record } = log.args;
+        this.pending.set(runId, {
+          runId,
+          player,
+          batchId,
+          claimedSaved: Number(claimedSaved),
+          record: ethers.getBytes(record),
+          blockNumber: log.blockNumber,
+        });
+      }
+    }
+
+    for (const runId of this.pending.keys()) {
+      const { status } = await this.contract.runs(runId);
+      if (Number(status) !== RUN_STATUS.Pending) this.pending.delete(runId);
+    }
+    return [...this.pending.values()];
+  }
+
+  // Replays a run once every lemming that was in its batch when it was submitted has been revealed, null until then
+  async verify(run: SubmittedRun): Promise<RunVerdict | null> {
+    const { contract } = this;
+    // Lemmings submitted after the run were not part of what the player played
+    const lemmingCount = Number(await contract.lemmingCountInBatch(run.batchId, { blockTag: run.blockNumber }));
+    const logs = await contract.queryFilter(contract.filters.DecryptionCompleted(undefined, run.batchId));
+    const reveals = logs
+      .flatMap(({ args: { fromId, abilities, valids } }) =>
+        abilities.map((abilityId, i) => ({
+          lemmingId: Number(fromId) + i,
+          abilityId: Number(abilityId),
+          valid: valids[i],
+        })),
+      )
+      .filter((r) => r.lemmingId <= lemmingCount);
+    const revealed = new Set(reveals.map((r) => r.lemmingId));
+    for (let lemmingId = 1; lemmingId <= lemmingCount; lemmingId++) {
+      if (!revealed.has(lemmingId)) return null;
+    }
+
+    const registered = await contract.getLevel(await contract.batchLevel(run.batchId));
+    const file = await this.resolveLevelFile(registered.fileId);
+    if (!file) throw new Error(`Level file "${registered.fileId}" not found`);
+    if (levelContentHash(file) !== registered.contentHash) {
+      throw new Error(`Level file "${registered.fileId}" does not match the registered content hash`);
+    }
+    const { engine } = loadLevel(file);
+    return verifyRun(engine, slotAbilities(engine.lemmingCount, reveals), run.record, run.claimedSaved);
+  }
+
+  private async post(run: SubmittedRun, verdict: RunVerdict): Promise<VerifiedRun> {
+    const result: VerifiedRun = { run, verdict, txHash: null, error: null };
+    const label = `Run ${run.runId} by ${run.player} on batch #${run.batchId}`;
+    try {
+      const tx = await this.contract.postRunResult(run.runId, verdict.valid, verdict.saved);
+      result.txHash = tx.hash;
+      await tx.wait();
+      this.pending.delete(run.runId);
+      const outcome = verdict.valid ? `valid, ${verdict.saved} saved` : `invalid, ${verdict.reason}`;
+      this.log(`${label}: ${outcome}`);
+    } catch (e: any) {
+      result.error = lemmingsErrorName(e) ?? e?.shortMessage ?? e?.message ?? "unknown error";
+      this.log(`${label}: posting the result failed with ${result.error}`);
+    }
+    return result;
+  }
+
+  // One poll, verifying every pending run whose batch has been revealed
+  async runOnce(): Promise<VerifiedRun[]> {
+    const results: VerifiedRun[] = [];
+    for (const run of await this.poll()) {
+      let verdict: RunVerdict | null;
+      try {
+        verdict = await this.verify(run);
+      } catch (e: any) {
+        this.log(`Run ${run.runId} cannot be verified yet: ${e.message}`);
+        continue;
+      }
+      if (verdict) results.push(await this.post(run, verdict));
+    }
+    return results;
+  }
+
+  // Keeps polling for runs until stop()
+  async start(): Promise<void> {
+    await this.poller.start();
+  }
+
+  stop() {
+    this.poller.stop();
+  }
+}
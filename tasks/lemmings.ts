@@ -0,0 +1,356 @@
+// tasks/lemmings.ts
+//
+// Owner CLI for LemmingsFHE, e.g. `npx hardhat lemmings:status --network localhost`.
+// The contract comes from --contract, deployments/<network>.json or the chain's entry in the frontend config.
+import fs from "fs";
+import path from "path";
+import { isAddress, Signer } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { CLIArgumentType, HardhatRuntimeEnvironment } from "hardhat/types";
+import { getDeployer } from "../deploy/accounts";
+import { readManifest } from "../deploy/manifest";
+import { getDeployment } from "../frontend/web/src/deployments";
+import { MAX_LEMMINGS_PER_PROOF, parseLevelFile } from "../frontend/web/src/engine";
+import { describeLemmingsError, lemmingsErrorName } from "../frontend/web/src/errors";
+import { levelContentHash } from "../frontend/web/src/levelHash";
+import { readLemmingRows } from "../src/provider/rows";
+import { submitRows } from "../src/provider/submit";
+import { RUN_STATUS } from "../src/verifier/verifier";
+import type { LemmingsFHE } from "../types";
+
+const PLUGIN_NAME = "lemmings";
+
+const address: CLIArgumentType<string> = {
+  name: "address",
+  parse: (_argName, strValue) => strValue,
+  validate: (argName, value) => {
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new HardhatPluginError(PLUGIN_NAME, `Invalid value ${value} for argument ${argName}, expected an address`);
+    }
+  },
+};
+
+interface ContractArgs {
+  contract?: string;
+}
+
+async function resolveAddress(hre: HardhatRuntimeEnvironment, override?: string): Promise<string> {
+  if (override) return override;
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const fromManifest = readManifest(hre.network.name, chainId).contracts.LemmingsFHE?.address;
+  const fromConfig = getDeployment(chainId)?.contracts.LemmingsFHE;
+  const resolved = fromManifest || fromConfig;
+  if (!resolved) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `No LemmingsFHE deployment known for ${hre.network.name} (chain ${chainId}), pass --contract or deploy first`,
+    );
+  }
+  return resolved;
+}
+
+async function getLemmings(hre: HardhatRuntimeEnvironment, args: ContractArgs, signer?: Signer): Promise<LemmingsFHE> {
+  const contractAddress = await resolveAddress(hre, args.contract);
+  if ((await hre.ethers.provider.getCode(contractAddress)) === "0x") {
+    throw new HardhatPluginError(PLUGIN_NAME, `No contract deployed at ${contractAddress} on ${hre.network.name}`);
+  }
+  return (await hre.ethers.getContractAt(
+    "LemmingsFHE",
+    contractAddress,
+    signer ?? (await getDeployer(hre)),
+  )) as unknown as LemmingsFHE;
+}
+
+// Sends an owner transaction and turns custom error reverts into readable messages
+async function send(label: string, tx: () => Promise<{ hash: string; wait: () => Promise<unknown> }>) {
+  try {
+    const response = await tx();
+    console.log(`${label}: ${response.hash}`);
+    await response.wait();
+    console.log(`${label}: confirmed`);
+  } catch (e) {
+    const name = lemmingsErrorName(e);
+    const reason = describeLemmingsError(e);
+    throw new HardhatPluginError(PLUGIN_NAME, `${label} failed: ${name ? `${name} (${reason})` : reason}`, e as Error);
+  }
+}
+
+task("lemmings:add-provider", "Registers a lemming provider")
+  .addParam("provider", "Provider address", undefined, address)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { provider: string }, hre) => {
+    const contract = await getLemmings(hre, args);
+    if (await contract.isProvider(args.provider)) {
+      console.log(`${args.provider} is already a provider`);
+      return;
+    }
+    await send(`addProvider(${args.provider})`, () => contract.addProvider(args.provider));
+  });
+
+task("lemmings:remove-provider", "Removes a lemming provider")
+  .addParam("provider", "Provider address", undefined, address)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { provider: string }, hre) => {
+    const contract = await getLemmings(hre, args);
+    if (!(await contract.isProvider(args.provider))) {
+      console.log(`${args.provider} is not a provider`);
+      return;
+    }
+    await send(`removeProvider(${args.provider})`, () => contract.removeProvider(args.provider));
+  });
+
+task("lemmings:add-verifier", "Allows an address to post run verification results")
+  .addParam("verifier", "Verifier address", undefined, address)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { verifier: string }, hre) => {
+    const contract = await getLemmings(hre, args);
+    if (await contract.isVerifier(args.verifier)) {
+      console.log(`${args.verifier} is already a verifier`);
+      return;
+    }
+    await send(`addVerifier(${args.verifier})`, () => contract.addVerifier(args.verifier));
+  });
+
+task("lemmings:remove-verifier", "Removes a run verifier")
+  .addParam("verifier", "Verifier address", undefined, address)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { verifier: string }, hre) => {
+    const contract = await getLemmings(hre, args);
+    if (!(await contract.isVerifier(args.verifier))) {
+      console.log(`${args.verifier} is not a verifier`);
+      return;
+    }
+    await send(`removeVerifier(${args.verifier})`, () => contract.removeVerifier(args.verifier));
+  });
+
+task("lemmings:set-paused", "Pauses or unpauses submissions, batches and decryption requests")
+  .addPositionalParam("paused", "true to pause, false to unpause", undefined, types.boolean)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { paused: boolean }, hre) => {
+    const contract = await getLemmings(hre, args);
+    await send(`setPaused(${args.paused})`, () => contract.setPaused(args.paused));
+  });
+
+task("lemmings:set-cooldown", "Sets the per-address cooldown between submissions and decryption requests")
+  .addPositionalParam("seconds", "Cooldown in seconds", undefined, types.int)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { seconds: number }, hre) => {
+    if (args.seconds < 0) throw new HardhatPluginError(PLUGIN_NAME, "seconds must not be negative");
+    const contract = await getLemmings(hre, args);
+    await send(`setCooldownSeconds(${args.seconds})`, () => contract.setCooldownSeconds(args.seconds));
+  });
+
+interface RegisterLevelArgs extends ContractArgs {
+  file: string;
+  target?: number;
+}
+
+task("lemmings:register-level", "Registers a level file so batches can be opened for it")
+  .addParam("file", "Level file (JSON), it must also be bundled with the frontend or stored in UniversalAdapter")
+  .addOptionalParam(
+    "target",
+    "Share of lemmings to save in percent, defaults to requiredSavePercent",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: RegisterLevelArgs, hre) => {
+    const file = parseLevelFile(JSON.parse(fs.readFileSync(args.file, "utf-8")));
+    const target = args.target ?? file.requiredSavePercent;
+    if (target < 0 || target > 100) throw new HardhatPluginError(PLUGIN_NAME, "--target must be between 0 and 100");
+    const contract = await getLemmings(hre, args);
+    const contentHash = levelContentHash(file);
+    const next = (await contract.levelCount()) + 1n;
+    await send(
+      `registerLevel(${file.id}, ${file.lemmingCount} slots, ${file.width}x${file.height}, ${target}%) (level #${next}, ${contentHash})`,
+      () => contract.registerLevel(contentHash, file.id, file.lemmingCount, file.width, file.height, target),
+    );
+  });
+
+task("lemmings:open-batch", "Opens the next batch for a registered level")
+  .addPositionalParam("level", "Level id", undefined, types.int)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { level: number }, hre) => {
+    const contract = await getLemmings(hre, args);
+    const next = (await contract.currentBatchId()) + 1n;
+    await send(`openBatch(${args.level}) (batch #${next})`, () => contract.openBatch(args.level));
+  });
+
+task("lemmings:close-batch", "Closes a batch so no more lemmings can be submitted to it")
+  .addPositionalParam("batch", "Batch id", undefined, types.int)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { batch: number }, hre) => {
+    const contract = await getLemmings(hre, args);
+    await send(`closeBatch(${args.batch})`, () => contract.closeBatch(args.batch));
+  });
+
+interface DecryptionArgs extends ContractArgs {
+  batch: number;
+  from?: number;
+  to?: number;
+  lemming?: number;
+}
+
+task("lemmings:request-decryption", "Asks the decryption oracle to reveal a batch, a range of it or a single lemming")
+  .addPositionalParam("batch", "Batch id", undefined, types.int)
+  .addOptionalParam("from", "First lemmingId of the range", undefined, types.int)
+  .addOptionalParam("to", "Last lemmingId of the range, inclusive", undefined, types.int)
+  .addOptionalParam("lemming", "Reveal only this lemmingId", undefined, types.int)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: DecryptionArgs, hre) => {
+    const ranged = args.from !== undefined || args.to !== undefined;
+    if (ranged && args.lemming !== undefined) {
+      throw new HardhatPluginError(PLUGIN_NAME, "Pass either --from/--to or --lemming, not both");
+    }
+    const contract = await getLemmings(hre, args);
+    if (args.lemming !== undefined) {
+      const { batch, lemming } = args;
+      await send(`requestLemmingDecryption(${batch}, ${lemming})`, () =>
+        contract.requestLemmingDecryption(batch, lemming),
+      );
+    } else if (ranged) {
+      const from = args.from ?? 1;
+      const to = args.to ?? Number(await contract.lemmingCountInBatch(args.batch));
+      await send(`requestRangeDecryption(${args.batch}, ${from}, ${to})`, () =>
+        contract.requestRangeDecryption(args.batch, from, to),
+      );
+    } else {
+      await send(`requestBatchDecryption(${args.batch})`, () => contract.requestBatchDecryption(args.batch));
+    }
+  });
+
+task("lemmings:status", "Prints paused state, batches, pending decryption requests and unverified runs")
+  .addOptionalParam("fromBlock", "First block to scan for decryption requests", undefined, types.int)
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: ContractArgs & { fromBlock?: number }, hre) => {
+    const contract = await getLemmings(hre, args);
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const [owner, paused, cooldownSeconds, levelCount, currentBatchId, runCount] = await Promise.all([
+      contract.owner(),
+      contract.paused(),
+      contract.cooldownSeconds(),
+      contract.levelCount(),
+      contract.currentBatchId(),
+      contract.runCount(),
+    ]);
+
+    console.log(`LemmingsFHE ${await contract.getAddress()} on ${hre.network.name} (chain ${chainId})`);
+    console.log(`  owner:          ${owner}`);
+    console.log(`  paused:         ${paused}`);
+    console.log(`  cooldown:       ${cooldownSeconds}s`);
+    console.log(`  current batch:  ${currentBatchId === 0n ? "none" : `#${currentBatchId}`}`);
+
+    if (levelCount > 0n) {
+      console.log("  levels:");
+      for (let levelId = 1n; levelId <= levelCount; levelId++) {
+        const level = await contract.getLevel(levelId);
+        const details = `${level.lemmingSlots} slots  ${level.width}x${level.height}  save ${level.targetSavePercent}%  ${level.contentHash}`;
+        console.log(`    #${levelId}  ${level.fileId}  ${details}`);
+      }
+    }
+
+    if (currentBatchId > 0n) {
+      console.log("  batches:");
+      for (let batchId = 1n; batchId <= currentBatchId; batchId++) {
+        const [levelId, isOpen, count] = await Promise.all([
+          contract.batchLevel(batchId),
+          contract.isBatchOpen(batchId),
+          contract.lemmingCountInBatch(batchId),
+        ]);
+        console.log(`    #${batchId}  level #${levelId}  ${isOpen ? "open  " : "closed"}  ${count} lemming(s)`);
+      }
+    }
+
+    // Contexts are only enumerable through their DecryptionRequested events
+    const fromBlock = args.fromBlock ?? readManifest(hre.network.name, chainId).contracts.LemmingsFHE?.blockNumber ?? 0;
+    const requests = await contract.queryFilter(contract.filters.DecryptionRequested(), fromBlock);
+    const pending = [];
+    for (const event of requests) {
+      const context = await contract.decryptionContexts(event.args.requestId);
+      if (!context.processed) pending.push({ event, context });
+    }
+    console.log(`  pending decryptions: ${pending.length === 0 ? "none" : ""}`);
+    for (const { event, context } of pending) {
+      const range = `batch #${context.batchId}  lemmings ${context.fromId}-${context.toId}`;
+      console.log(
+        `    request ${event.args.requestId}  ${range}  block ${event.blockNumber}  state ${context.stateHash}`,
+      );
+    }
+
+    // Run ids are sequential, so unverified runs can be read without scanning events
+    const unverified = [];
+    for (let runId = 1n; runId <= runCount; runId++) {
+      const run = await contract.runs(runId);
+      if (Number(run.status) === RUN_STATUS.Pending) unverified.push({ runId, run });
+    }
+    console.log(`  unverified runs: ${unverified.length === 0 ? "none" : ""}`);
+    for (const { runId, run } of unverified) {
+      console.log(`    run ${runId}  batch #${run.batchId}  player ${run.player}  claims ${run.claimedSaved} saved`);
+    }
+  });
+
+interface SubmitArgs extends ContractArgs {
+  file: string;
+  batch: number;
+  account: number;
+  perTx: number;
+  report?: string;
+}
+
+task("lemmings:submit", "Encrypts lemmings from a CSV or JSON file and submits them to an open batch as a provider")
+  .addParam("file", "CSV with an ability,x,y header or JSON array of { ability, x, y }")
+  .addParam("batch", "Open batch to submit into", undefined, types.int)
+  .addOptionalParam("account", "Index of the network account to submit from", 0, types.int)
+  .addOptionalParam(
+    "perTx",
+    `Lemmings per transaction, 1 to ${MAX_LEMMINGS_PER_PROOF}`,
+    MAX_LEMMINGS_PER_PROOF,
+    types.int,
+  )
+  .addOptionalParam("report", "Progress report, defaults to <file>.<network>-batch<batch>.report.json")
+  .addOptionalParam("contract", "LemmingsFHE address", undefined, address)
+  .setAction(async (args: SubmitArgs, hre) => {
+    if (args.perTx < 1 || args.perTx > MAX_LEMMINGS_PER_PROOF) {
+      throw new HardhatPluginError(PLUGIN_NAME, `--per-tx must be between 1 and ${MAX_LEMMINGS_PER_PROOF}`);
+    }
+    const rows = readLemmingRows(args.file);
+    const accounts = await hre.ethers.getSigners();
+    if (accounts.length > 0 && !accounts[args.account]) {
+      throw new HardhatPluginError(PLUGIN_NAME, `Network ${hre.network.name} has no account #${args.account}`);
+    }
+    const contract = await getLemmings(hre, args, accounts[args.account] ?? (await getDeployer(hre)));
+    const reportFile =
+      args.report ??
+      path.join(
+        path.dirname(args.file),
+        `${path.basename(args.file)}.${hre.network.name}-batch${args.batch}.report.json`,
+      );
+
+    await hre.fhevm.initializeCLIApi();
+    try {
+      const report = await submitRows({
+        contract,
+        batchId: args.batch,
+        rows,
+        reportFile,
+        perTransaction: args.perTx,
+        encrypt: async (chunk, contractAddress, provider) => {
+          const input = hre.fhevm.createEncryptedInput(contractAddress, provider);
+          for (const row of chunk) input.add32(row.ability).add32(row.x).add32(row.y);
+          const { handles, inputProof } = await input.encrypt();
+          return { handles: chunk.map((_, i) => [handles[i * 3], handles[i * 3 + 1], handles[i * 3 + 2]]), inputProof };
+        },
+      });
+      console.log(`Report written to ${reportFile}`);
+      for (const row of report.rows) console.log(`  row ${row.row} -> lemming #${row.lemmingId}`);
+    } catch (e) {
+      const name = lemmingsErrorName(e);
+      const reason = name ? `${name} (${describeLemmingsError(e)})` : describeLemmingsError(e);
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Submission stopped: ${reason}, rerun to resume from ${reportFile}`,
+        e as Error,
+      );
+    }
+  });
@@ -0,0 +1,738 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ABILITY_COUNT, AbilityId } from "../frontend/web/src/engine";
+import { LemmingsFHE, LemmingsFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type LemmingInput = { ability: number; x: number; y: number };
+
+// Level #1 of every fixture, with enough slots for the larger batches below
+const TEST_LEVEL = {
+  contentHash: ethers.id("test-level"),
+  fileId: "test-level",
+  lemmingSlots: 100,
+  width: 320,
+  height: 160,
+  targetSavePercent: 50,
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("LemmingsFHE")) as LemmingsFHE__factory;
+  const lemmingsContract = (await factory.deploy()) as LemmingsFHE;
+  const lemmingsContractAddress = await lemmingsContract.getAddress();
+  const { contentHash, fileId, lemmingSlots, width, height, targetSavePercent } = TEST_LEVEL;
+  await lemmingsContract.registerLevel(contentHash, fileId, lemmingSlots, width, height, targetSavePercent);
+  return { lemmingsContract, lemmingsContractAddress };
+}
+
+describe("LemmingsFHE", function () {
+  let signers: Signers;
+  let lemmingsContract: LemmingsFHE;
+  let lemmingsContractAddress: string;
+
+  async function submit(provider: HardhatEthersSigner, batchId: number, lemming: LemmingInput) {
+    const encrypted = await fhevm
+      .createEncryptedInput(lemmingsContractAddress, provider.address)
+      .add32(lemming.ability)
+      .add32(lemming.x)
+      .add32(lemming.y)
+      .encrypt();
+    return lemmingsContract
+      .connect(provider)
+      .submitLemming(batchId, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof);
+  }
+
+  async function submitMany(provider: HardhatEthersSigner, batchId: number, lemmings: LemmingInput[]) {
+    const input = fhevm.createEncryptedInput(lemmingsContractAddress, provider.address);
+    for (const lemming of lemmings) input.add32(lemming.ability).add32(lemming.x).add32(lemming.y);
+    const encrypted = await input.encrypt();
+    const field = (offset: number) => lemmings.map((_, i) => encrypted.handles[i * 3 + offset]);
+    return lemmingsContract
+      .connect(provider)
+      .submitLemmings(batchId, field(0), field(1), field(2), encrypted.inputProof);
+  }
+
+  async function requestDecryption(batchId: number, range?: [number, number]) {
+    const asOwner = lemmingsContract.connect(signers.deployer);
+    const tx = range
+      ? await asOwner.requestRangeDecryption(batchId, range[0], range[1])
+      : await asOwner.requestBatchDecryption(batchId);
+    const receipt = await tx.wait();
+    const log = receipt!.logs
+      .map((l) => lemmingsContract.interface.parseLog(l))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return { requestId: log!.args.requestId as bigint, stateHash: log!.args.stateHash as string };
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ lemmingsContract, lemmingsContractAddress } = await deployFixture());
+  });
+
+  describe("permissions", function () {
+    it("sets the deployer as owner", async function () {
+      expect(await lemmingsContract.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("restricts admin functions to the owner", async function () {
+      const asAlice = lemmingsContract.connect(signers.alice);
+      await expect(asAlice.addProvider(signers.alice.address)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "NotOwner",
+      );
+      await expect(asAlice.removeProvider(signers.alice.address)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "NotOwner",
+      );
+      await expect(asAlice.setPaused(true)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+      await expect(asAlice.setCooldownSeconds(1)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+      await expect(asAlice.openBatch(1)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+      await expect(asAlice.closeBatch(1)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+      await expect(asAlice.requestBatchDecryption(1)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+      await expect(asAlice.transferOwnership(signers.alice.address)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "NotOwner",
+      );
+    });
+
+    it("transfers ownership", async function () {
+      await expect(lemmingsContract.transferOwnership(signers.alice.address))
+        .to.emit(lemmingsContract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await lemmingsContract.owner()).to.eq(signers.alice.address);
+      await expect(lemmingsContract.openBatch(1)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+    });
+
+    it("adds and removes providers", async function () {
+      await expect(lemmingsContract.addProvider(signers.alice.address))
+        .to.emit(lemmingsContract, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await lemmingsContract.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(lemmingsContract.removeProvider(signers.alice.address))
+        .to.emit(lemmingsContract, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await lemmingsContract.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects submissions from non-providers", async function () {
+      await lemmingsContract.openBatch(1);
+      await expect(submit(signers.alice, 1, { ability: 0, x: 1, y: 1 })).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "NotProvider",
+      );
+    });
+  });
+
+  describe("pause and cooldown", function () {
+    beforeEach(async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+    });
+
+    it("blocks submissions, batch opening and decryption while paused", async function () {
+      await submit(signers.alice, 1, { ability: 0, x: 1, y: 1 });
+      await expect(lemmingsContract.setPaused(true))
+        .to.emit(lemmingsContract, "Paused")
+        .withArgs(signers.deployer.address);
+
+      await expect(submit(signers.alice, 1, { ability: 0, x: 1, y: 1 })).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "PausedState",
+      );
+      await expect(lemmingsContract.openBatch(1)).to.be.revertedWithCustomError(lemmingsContract, "PausedState");
+      await expect(lemmingsContract.requestBatchDecryption(1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "PausedState",
+      );
+
+      await expect(lemmingsContract.setPaused(false))
+        .to.emit(lemmingsContract, "Unpaused")
+        .withArgs(signers.deployer.address);
+      await submit(signers.alice, 1, { ability: 0, x: 1, y: 1 });
+      expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(2);
+    });
+
+    it("enforces the submission cooldown per provider", async function () {
+      await expect(lemmingsContract.setCooldownSeconds(60))
+        .to.emit(lemmingsContract, "CooldownSecondsSet")
+        .withArgs(0, 60);
+      await lemmingsContract.addProvider(signers.bob.address);
+
+      await submit(signers.alice, 1, { ability: 0, x: 1, y: 1 });
+      await expect(submit(signers.alice, 1, { ability: 1, x: 2, y: 2 })).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "CooldownActive",
+      );
+      // Other providers are not affected
+      await submit(signers.bob, 1, { ability: 1, x: 2, y: 2 });
+
+      await time.increase(60);
+      await submit(signers.alice, 1, { ability: 1, x: 2, y: 2 });
+      expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(3);
+    });
+
+    it("enforces the decryption request cooldown", async function () {
+      await lemmingsContract.setCooldownSeconds(60);
+      await submit(signers.alice, 1, { ability: 0, x: 1, y: 1 });
+
+      await lemmingsContract.requestBatchDecryption(1);
+      await expect(lemmingsContract.requestBatchDecryption(1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "CooldownActive",
+      );
+      await time.increase(60);
+      await lemmingsContract.requestBatchDecryption(1);
+    });
+  });
+
+  describe("level registry", function () {
+    it("registers levels with increasing ids", async function () {
+      const contentHash = ethers.id("second-level");
+      await expect(lemmingsContract.registerLevel(contentHash, "second-level", 20, 640, 200, 75))
+        .to.emit(lemmingsContract, "LevelRegistered")
+        .withArgs(2, contentHash, "second-level", 20, 640, 200, 75);
+      expect(await lemmingsContract.levelCount()).to.eq(2);
+
+      const level = await lemmingsContract.getLevel(2);
+      expect([
+        level.contentHash,
+        level.fileId,
+        level.lemmingSlots,
+        level.width,
+        level.height,
+        level.targetSavePercent,
+      ]).to.deep.eq([contentHash, "second-level", 20n, 640n, 200n, 75n]);
+      expect((await lemmingsContract.getLevel(1)).fileId).to.eq(TEST_LEVEL.fileId);
+    });
+
+    it("rejects incomplete levels and unknown ids", async function () {
+      const contentHash = ethers.id("level");
+      for (const [hash, fileId, slots, width, height, target] of [
+        [ethers.ZeroHash, "level", 10, 320, 160, 50],
+        [contentHash, "", 10, 320, 160, 50],
+        [contentHash, "level", 0, 320, 160, 50],
+        [contentHash, "level", 10, 0, 160, 50],
+        [contentHash, "level", 10, 320, 0, 50],
+        [contentHash, "level", 10, 320, 160, 101],
+      ] as const) {
+        await expect(
+          lemmingsContract.registerLevel(hash, fileId, slots, width, height, target),
+        ).to.be.revertedWithCustomError(lemmingsContract, "InvalidLevel");
+      }
+      await expect(lemmingsContract.getLevel(0)).to.be.revertedWithCustomError(lemmingsContract, "UnknownLevel");
+      await expect(lemmingsContract.getLevel(2)).to.be.revertedWithCustomError(lemmingsContract, "UnknownLevel");
+    });
+
+    it("restricts registration to the owner", async function () {
+      await expect(
+        lemmingsContract.connect(signers.alice).registerLevel(ethers.id("level"), "level", 10, 320, 160, 50),
+      ).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+    });
+  });
+
+  describe("batches", function () {
+    it("opens batches with increasing ids", async function () {
+      await expect(lemmingsContract.openBatch(1)).to.emit(lemmingsContract, "BatchOpened").withArgs(1, 1);
+      await expect(lemmingsContract.openBatch(1)).to.emit(lemmingsContract, "BatchOpened").withArgs(2, 1);
+      expect(await lemmingsContract.currentBatchId()).to.eq(2);
+      expect(await lemmingsContract.isBatchOpen(1)).to.eq(true);
+      expect(await lemmingsContract.isBatchOpen(2)).to.eq(true);
+      expect(await lemmingsContract.batchLevel(2)).to.eq(1);
+    });
+
+    it("only opens batches for registered levels", async function () {
+      await expect(lemmingsContract.openBatch(0)).to.be.revertedWithCustomError(lemmingsContract, "UnknownLevel");
+      await expect(lemmingsContract.openBatch(2)).to.be.revertedWithCustomError(lemmingsContract, "UnknownLevel");
+    });
+
+    it("accepts one lemming per slot of the batch's level", async function () {
+      await lemmingsContract.registerLevel(ethers.id("tiny"), "tiny", 2, 320, 160, 100);
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(2);
+
+      await submitMany(signers.alice, 1, [
+        { ability: 0, x: 1, y: 1 },
+        { ability: 1, x: 2, y: 2 },
+      ]);
+      await expect(submit(signers.alice, 1, { ability: 2, x: 3, y: 3 })).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "BatchFull",
+      );
+      await lemmingsContract.openBatch(2);
+      await expect(
+        submitMany(signers.alice, 2, [
+          { ability: 0, x: 1, y: 1 },
+          { ability: 1, x: 2, y: 2 },
+          { ability: 2, x: 3, y: 3 },
+        ]),
+      ).to.be.revertedWithCustomError(lemmingsContract, "BatchFull");
+    });
+
+    it("closes an open batch once", async function () {
+      await lemmingsContract.openBatch(1);
+      await expect(lemmingsContract.closeBatch(1)).to.emit(lemmingsContract, "BatchClosed").withArgs(1);
+      expect(await lemmingsContract.isBatchOpen(1)).to.eq(false);
+      await expect(lemmingsContract.closeBatch(1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "BatchClosedOrInvalid",
+      );
+    });
+
+    it("rejects closing a batch that was never opened", async function () {
+      await expect(lemmingsContract.closeBatch(7)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "BatchClosedOrInvalid",
+      );
+    });
+
+    it("rejects submissions to closed or unknown batches", async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+      await lemmingsContract.closeBatch(1);
+
+      await expect(submit(signers.alice, 1, { ability: 0, x: 1, y: 1 })).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "BatchClosedOrInvalid",
+      );
+      await expect(submit(signers.alice, 2, { ability: 0, x: 1, y: 1 })).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "BatchClosedOrInvalid",
+      );
+    });
+  });
+
+  describe("encrypted submission", function () {
+    beforeEach(async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+    });
+
+    it("stores the encrypted lemming and numbers it within the batch", async function () {
+      await expect(submit(signers.alice, 1, { ability: 3, x: 40, y: 80 }))
+        .to.emit(lemmingsContract, "LemmingSubmitted")
+        .withArgs(signers.alice.address, 1, 1);
+      await expect(submit(signers.alice, 1, { ability: 1, x: 41, y: 81 }))
+        .to.emit(lemmingsContract, "LemmingSubmitted")
+        .withArgs(signers.alice.address, 1, 2);
+      expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(2);
+
+      const lemming = await lemmingsContract.lemmings(1, 1);
+      expect(lemming.ability).to.not.eq(ethers.ZeroHash);
+    });
+
+    it("lets the provider user-decrypt the submitted values", async function () {
+      await submit(signers.alice, 1, { ability: 3, x: 40, y: 80 });
+      const lemming = await lemmingsContract.lemmings(1, 1);
+
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, lemmingsContractAddress, signers.alice);
+      expect(await decrypt(lemming.ability)).to.eq(3);
+      expect(await decrypt(lemming.x)).to.eq(40);
+      expect(await decrypt(lemming.y)).to.eq(80);
+    });
+
+    it("rejects inputs encrypted for another sender", async function () {
+      await lemmingsContract.addProvider(signers.bob.address);
+      const encrypted = await fhevm
+        .createEncryptedInput(lemmingsContractAddress, signers.alice.address)
+        .add32(1)
+        .add32(2)
+        .add32(3)
+        .encrypt();
+      await expect(
+        lemmingsContract
+          .connect(signers.bob)
+          .submitLemming(1, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("multi-lemming submission", function () {
+    const lemmingsOf = (count: number): LemmingInput[] =>
+      Array.from({ length: count }, (_, i) => ({ ability: i % ABILITY_COUNT, x: 10 + i, y: 20 + i }));
+
+    beforeEach(async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+    });
+
+    it("stores every lemming under one proof and emits one event each", async function () {
+      const tx = submitMany(signers.alice, 1, lemmingsOf(3));
+      await expect(tx).to.emit(lemmingsContract, "LemmingSubmitted").withArgs(signers.alice.address, 1, 1);
+      const receipt = await (await tx).wait();
+      const ids = receipt!.logs
+        .map((l) => lemmingsContract.interface.parseLog(l))
+        .filter((parsed) => parsed?.name === "LemmingSubmitted")
+        .map((parsed) => parsed!.args.lemmingId);
+      expect(ids).to.deep.eq([1n, 2n, 3n]);
+      expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(3);
+
+      const lemming = await lemmingsContract.lemmings(1, 3);
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, lemmingsContractAddress, signers.alice);
+      expect(await decrypt(lemming.ability)).to.eq(2);
+      expect(await decrypt(lemming.x)).to.eq(12);
+      expect(await decrypt(lemming.y)).to.eq(22);
+    });
+
+    it("rejects empty and mismatched arrays", async function () {
+      const asAlice = lemmingsContract.connect(signers.alice);
+      await expect(asAlice.submitLemmings(1, [], [], [], "0x")).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "LengthMismatch",
+      );
+      const encrypted = await fhevm
+        .createEncryptedInput(lemmingsContractAddress, signers.alice.address)
+        .add32(1)
+        .add32(2)
+        .add32(3)
+        .encrypt();
+      const [ability, x, y] = encrypted.handles;
+      await expect(
+        asAlice.submitLemmings(1, [ability], [x], [y, y], encrypted.inputProof),
+      ).to.be.revertedWithCustomError(lemmingsContract, "LengthMismatch");
+    });
+
+    it("applies the same guards as single submission", async function () {
+      await expect(submitMany(signers.bob, 1, lemmingsOf(2))).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "NotProvider",
+      );
+      await expect(submitMany(signers.alice, 2, lemmingsOf(2))).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "BatchClosedOrInvalid",
+      );
+      await lemmingsContract.setCooldownSeconds(60);
+      await submitMany(signers.alice, 1, lemmingsOf(2));
+      await expect(submitMany(signers.alice, 1, lemmingsOf(2))).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "CooldownActive",
+      );
+      await lemmingsContract.setPaused(true);
+      await expect(submitMany(signers.alice, 1, lemmingsOf(2))).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "PausedState",
+      );
+    });
+
+    it("costs less gas per lemming than single submissions", async function () {
+      const gasOf = async (tx: ReturnType<typeof submit>) => (await (await tx).wait())!.gasUsed;
+      let single = 0n;
+      for (const lemming of lemmingsOf(5)) single += await gasOf(submit(signers.alice, 1, lemming));
+      const singlePerLemming = single / 5n;
+
+      const rows = [`submitLemming   x1   ${singlePerLemming} gas/lemming`];
+      for (const count of [1, 5, 10, 21]) {
+        const perLemming = (await gasOf(submitMany(signers.alice, 1, lemmingsOf(count)))) / BigInt(count);
+        rows.push(`submitLemmings  x${String(count).padEnd(3)} ${perLemming} gas/lemming`);
+        // Every handle passes the whole proof to the InputVerifier, so the saving shrinks again near the 21 limit
+        if (count === 5 || count === 10) expect(perLemming).to.be.lt(singlePerLemming);
+      }
+      // Opt-in like the gas reporter, a plain test run stays quiet
+      if (process.env.REPORT_GAS) {
+        console.log(`      gas benchmark:\n${rows.map((row) => `        ${row}`).join("\n")}`);
+      }
+    });
+  });
+
+  describe("range validation", function () {
+    const { width, height } = TEST_LEVEL;
+
+    beforeEach(async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+    });
+
+    async function reveal() {
+      const { requestId } = await requestDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await lemmingsContract.queryFilter(lemmingsContract.filters.DecryptionCompleted(requestId));
+      return completed.args;
+    }
+
+    it("shares the ability ids with the frontend", async function () {
+      expect(await lemmingsContract.ABILITY_COUNT()).to.eq(ABILITY_COUNT);
+      expect(AbilityId.Float).to.eq(ABILITY_COUNT - 1);
+    });
+
+    it("accepts the edges of the ability range and the level", async function () {
+      await submitMany(signers.alice, 1, [
+        { ability: AbilityId.Climb, x: 0, y: 0 },
+        { ability: AbilityId.Float, x: width - 1, y: height - 1 },
+      ]);
+      const { abilities, xs, ys, valids } = await reveal();
+      expect(abilities).to.deep.eq([0n, BigInt(AbilityId.Float)]);
+      expect(xs).to.deep.eq([0n, BigInt(width - 1)]);
+      expect(ys).to.deep.eq([0n, BigInt(height - 1)]);
+      expect(valids).to.deep.eq([true, true]);
+    });
+
+    it("clamps out of range values and flags the lemming invalid", async function () {
+      await submitMany(signers.alice, 1, [
+        { ability: 9999, x: 10, y: 20 },
+        { ability: AbilityId.Dig, x: width, y: 20 },
+        { ability: AbilityId.Dig, x: 10, y: 2 ** 32 - 1 },
+      ]);
+      const { abilities, xs, ys, valids } = await reveal();
+      expect(abilities).to.deep.eq([BigInt(AbilityId.Float), BigInt(AbilityId.Dig), BigInt(AbilityId.Dig)]);
+      expect(xs).to.deep.eq([10n, BigInt(width - 1), 10n]);
+      expect(ys).to.deep.eq([20n, 20n, BigInt(height - 1)]);
+      expect(valids).to.deep.eq([false, false, false]);
+    });
+
+    it("lets the provider user-decrypt the validity flag", async function () {
+      await submit(signers.alice, 1, { ability: AbilityId.Block, x: 10, y: 20 });
+      await submit(signers.alice, 1, { ability: ABILITY_COUNT, x: 10, y: 20 });
+      const decryptValid = async (lemmingId: number) => {
+        const { valid } = await lemmingsContract.lemmings(1, lemmingId);
+        return fhevm.userDecryptEbool(valid, lemmingsContractAddress, signers.alice);
+      };
+      expect(await decryptValid(1)).to.eq(true);
+      expect(await decryptValid(2)).to.eq(false);
+    });
+  });
+
+  describe("batch decryption", function () {
+    const batch: LemmingInput[] = [
+      { ability: AbilityId.Climb, x: 10, y: 20 },
+      { ability: AbilityId.Float, x: 30, y: 40 },
+      { ability: AbilityId.Build, x: 50, y: 60 },
+    ];
+
+    beforeEach(async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+      for (const lemming of batch) {
+        await submit(signers.alice, 1, lemming);
+      }
+    });
+
+    it("rejects decrypting an empty batch", async function () {
+      await lemmingsContract.openBatch(1);
+      await expect(lemmingsContract.requestBatchDecryption(2)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidBatchId",
+      );
+    });
+
+    it("reveals the batch through the oracle callback", async function () {
+      const { requestId, stateHash } = await requestDecryption(1);
+      const context = await lemmingsContract.decryptionContexts(requestId);
+      expect(context.batchId).to.eq(1);
+      expect(context.stateHash).to.eq(stateHash);
+      expect(context.processed).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const completed = await lemmingsContract.queryFilter(lemmingsContract.filters.DecryptionCompleted(requestId));
+      expect(completed).to.have.length(1);
+      const { batchId, abilities, xs, ys, valids } = completed[0].args;
+      expect(batchId).to.eq(1);
+      expect(abilities).to.deep.eq(batch.map((l) => BigInt(l.ability)));
+      expect(xs).to.deep.eq(batch.map((l) => BigInt(l.x)));
+      expect(ys).to.deep.eq(batch.map((l) => BigInt(l.y)));
+      expect(valids).to.deep.eq([true, true, true]);
+      expect((await lemmingsContract.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+
+    it("rejects replaying a processed callback", async function () {
+      const { requestId } = await requestDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(lemmingsContract.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "ReplayAttempt",
+      );
+    });
+
+    it("only covers the lemmings present when the request was made", async function () {
+      const { requestId } = await requestDecryption(1);
+      await submit(signers.alice, 1, { ability: 1, x: 70, y: 80 });
+
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await lemmingsContract.queryFilter(lemmingsContract.filters.DecryptionCompleted(requestId));
+      expect(completed.args.fromId).to.eq(1);
+      expect(completed.args.abilities).to.deep.eq(batch.map((l) => BigInt(l.ability)));
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(lemmingsContract.myCallback(12345, "0x", "0x")).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "UnknownRequest",
+      );
+    });
+
+    it("rejects callbacks without valid oracle signatures", async function () {
+      const { requestId } = await requestDecryption(1);
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        Array(batch.length * 4).fill("uint256"),
+        batch.flatMap((l) => [l.ability, l.x, l.y, 1]),
+      );
+
+      await expect(lemmingsContract.myCallback(requestId, cleartexts, "0x")).to.be.reverted;
+      expect((await lemmingsContract.decryptionContexts(requestId)).processed).to.eq(false);
+    });
+  });
+
+  describe("range decryption", function () {
+    const batch: LemmingInput[] = Array.from({ length: 5 }, (_, i) => ({ ability: i, x: 10 * i, y: 10 * i + 1 }));
+
+    beforeEach(async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+      await submitMany(signers.alice, 1, batch);
+    });
+
+    it("reveals only the requested range", async function () {
+      const { requestId, stateHash } = await requestDecryption(1, [2, 4]);
+      const context = await lemmingsContract.decryptionContexts(requestId);
+      expect([context.batchId, context.fromId, context.toId]).to.deep.eq([1n, 2n, 4n]);
+      expect(context.stateHash).to.eq(stateHash);
+
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await lemmingsContract.queryFilter(lemmingsContract.filters.DecryptionCompleted(requestId));
+      const { fromId, abilities, xs, ys } = completed.args;
+      expect(fromId).to.eq(2);
+      expect(abilities).to.deep.eq(batch.slice(1, 4).map((l) => BigInt(l.ability)));
+      expect(xs).to.deep.eq(batch.slice(1, 4).map((l) => BigInt(l.x)));
+      expect(ys).to.deep.eq(batch.slice(1, 4).map((l) => BigInt(l.y)));
+    });
+
+    it("reveals a single lemming", async function () {
+      await expect(lemmingsContract.requestLemmingDecryption(1, 5))
+        .to.emit(lemmingsContract, "DecryptionRequested")
+        .withArgs(anyValue, 1, 5, 5, anyValue);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await lemmingsContract.queryFilter(lemmingsContract.filters.DecryptionCompleted());
+      expect(completed.args.fromId).to.eq(5);
+      expect(completed.args.abilities).to.deep.eq([4n]);
+    });
+
+    it("hashes each range separately", async function () {
+      const first = await requestDecryption(1, [1, 2]);
+      const second = await requestDecryption(1, [3, 3]);
+      expect(first.stateHash).to.not.eq(second.stateHash);
+      await fhevm.awaitDecryptionOracle();
+      expect((await lemmingsContract.decryptionContexts(first.requestId)).processed).to.eq(true);
+      expect((await lemmingsContract.decryptionContexts(second.requestId)).processed).to.eq(true);
+    });
+
+    it("rejects empty, reversed, out of bounds and oversized ranges", async function () {
+      for (const [fromId, toId] of [
+        [0, 2],
+        [3, 2],
+        [4, 6],
+      ]) {
+        await expect(lemmingsContract.requestRangeDecryption(1, fromId, toId)).to.be.revertedWithCustomError(
+          lemmingsContract,
+          "InvalidRange",
+        );
+      }
+      await expect(lemmingsContract.requestLemmingDecryption(1, 6)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidLemmingId",
+      );
+
+      const max = Number(await lemmingsContract.MAX_LEMMINGS_PER_DECRYPTION());
+      await submitMany(
+        signers.alice,
+        1,
+        Array.from({ length: max }, () => batch[0]),
+      );
+      await expect(lemmingsContract.requestRangeDecryption(1, 1, max + 1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidRange",
+      );
+      await expect(lemmingsContract.requestBatchDecryption(1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidRange",
+      );
+      await requestDecryption(1, [2, max + 1]);
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("restricts range and single requests to the owner", async function () {
+      const asAlice = lemmingsContract.connect(signers.alice);
+      await expect(asAlice.requestRangeDecryption(1, 1, 2)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+      await expect(asAlice.requestLemmingDecryption(1, 1)).to.be.revertedWithCustomError(lemmingsContract, "NotOwner");
+    });
+  });
+
+  describe("ability guesses", function () {
+    beforeEach(async function () {
+      await lemmingsContract.addProvider(signers.alice.address);
+      await lemmingsContract.openBatch(1);
+      await submit(signers.alice, 1, { ability: AbilityId.Build, x: 10, y: 20 });
+    });
+
+    it("resolves right and wrong guesses through the oracle", async function () {
+      await expect(lemmingsContract.connect(signers.bob).guessAbility(1, 1, 2))
+        .to.emit(lemmingsContract, "AbilityGuessed")
+        .withArgs(1, signers.bob.address, 1, 1, 2, anyValue);
+      await lemmingsContract.connect(signers.bob).guessAbility(1, 1, 3);
+      expect(await lemmingsContract.guessCount()).to.eq(2);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const right = await lemmingsContract.guesses(1);
+      const wrong = await lemmingsContract.guesses(2);
+      expect(right.resolved).to.eq(true);
+      expect(right.correct).to.eq(true);
+      expect(wrong.resolved).to.eq(true);
+      expect(wrong.correct).to.eq(false);
+    });
+
+    it("lets the player user-decrypt the encrypted result", async function () {
+      await lemmingsContract.connect(signers.bob).guessAbility(1, 1, 2);
+      const guess = await lemmingsContract.guesses(1);
+      expect(await fhevm.userDecryptEbool(guess.result, lemmingsContractAddress, signers.bob)).to.eq(true);
+    });
+
+    it("rejects guesses for unknown lemmings", async function () {
+      await expect(lemmingsContract.guessAbility(1, 0, 1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidLemmingId",
+      );
+      await expect(lemmingsContract.guessAbility(1, 2, 1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidLemmingId",
+      );
+    });
+
+    it("rejects replaying a resolved guess", async function () {
+      await lemmingsContract.connect(signers.bob).guessAbility(1, 1, 2);
+      const { requestId } = await lemmingsContract.guesses(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(lemmingsContract.guessCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "ReplayAttempt",
+      );
+      await expect(lemmingsContract.guessCallback(requestId + 100n, "0x", "0x")).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "UnknownRequest",
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import path from "path";
+import { applyBootstrap, parseBootstrapSpec, planBootstrap } from "../deploy/bootstrap";
+import { levelContentHash } from "../frontend/web/src/levelHash";
+import { LemmingsFHE, LemmingsFHE__factory } from "../types";
+
+describe("Bootstrap", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let lemmingsContract: LemmingsFHE;
+
+  const silent = () => {};
+  const levelsDir = path.join(__dirname, "..", "frontend", "web", "src", "levels");
+
+  before(async function () {
+    [deployer, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = (await ethers.getContractFactory("LemmingsFHE")) as LemmingsFHE__factory;
+    lemmingsContract = (await factory.deploy()) as LemmingsFHE;
+  });
+
+  it("plans every step on a fresh deployment and nothing once applied", async function () {
+    const spec = parseBootstrapSpec(
+      {
+        providers: [alice.address, bob.address],
+        verifiers: [alice.address],
+        cooldownSeconds: 30,
+        levels: ["first-steps.json"],
+        openBatch: "first-steps",
+        owner: bob.address,
+      },
+      "spec",
+      levelsDir,
+    );
+
+    const steps = await planBootstrap(lemmingsContract, spec);
+    expect(steps.map((s) => s.description.split("(")[0])).to.deep.eq([
+      "addProvider",
+      "addProvider",
+      "addVerifier",
+      "setCooldownSeconds",
+      "registerLevel",
+      "openBatch",
+      "transferOwnership",
+    ]);
+
+    await applyBootstrap(steps, silent);
+    expect(await lemmingsContract.isProvider(alice.address)).to.eq(true);
+    expect(await lemmingsContract.isProvider(bob.address)).to.eq(true);
+    expect(await lemmingsContract.isVerifier(alice.address)).to.eq(true);
+    expect(await lemmingsContract.cooldownSeconds()).to.eq(30n);
+    const level = await lemmingsContract.getLevel(1);
+    const file = spec.levels![0];
+    expect([level.contentHash, level.fileId, level.lemmingSlots, level.width, level.height]).to.deep.eq([
+      levelContentHash(file),
+      "first-steps",
+      10n,
+      BigInt(file.width),
+      BigInt(file.height),
+    ]);
+    expect(await lemmingsContract.isBatchOpen(1)).to.eq(true);
+    expect(await lemmingsContract.batchLevel(1)).to.eq(1);
+    expect(await lemmingsContract.owner()).to.eq(bob.address);
+    expect(await planBootstrap(lemmingsContract, spec)).to.have.length(0);
+  });
+
+  it("only sends the steps that differ from on-chain state", async function () {
+    await lemmingsContract.connect(deployer).addProvider(alice.address);
+    await lemmingsContract.connect(deployer).registerLevel(ethers.id("level"), "level", 10, 320, 160, 50);
+    await lemmingsContract.connect(deployer).openBatch(1);
+
+    const steps = await planBootstrap(
+      lemmingsContract,
+      parseBootstrapSpec({ providers: [alice.address, bob.address], cooldownSeconds: 0, openBatch: "level" }),
+    );
+    expect(steps.map((s) => s.description)).to.deep.eq([`addProvider(${bob.address})`]);
+  });
+
+  it("opens a new batch once the current one is closed", async function () {
+    await lemmingsContract.connect(deployer).registerLevel(ethers.id("level"), "level", 10, 320, 160, 50);
+    await lemmingsContract.connect(deployer).openBatch(1);
+    await lemmingsContract.connect(deployer).closeBatch(1);
+
+    const steps = await planBootstrap(lemmingsContract, { openBatch: "level" });
+    expect(steps.map((s) => s.description)).to.deep.eq(["openBatch(1) (batch #2, level level)"]);
+  });
+
+  it("registers a changed level file again and opens batches for the newest registration", async function () {
+    const spec = parseBootstrapSpec({ levels: ["first-steps.json"], openBatch: "first-steps" }, "spec", levelsDir);
+    await applyBootstrap(await planBootstrap(lemmingsContract, spec), silent);
+    await lemmingsContract.connect(deployer).closeBatch(1);
+
+    const changed = { ...spec, levels: [{ ...spec.levels![0], requiredSavePercent: 80 }] };
+    const steps = await planBootstrap(lemmingsContract, changed);
+    expect(steps.map((s) => s.description.split(" (")[0])).to.deep.eq(["registerLevel(first-steps)", "openBatch(2)"]);
+    await applyBootstrap(steps, silent);
+    expect(await lemmingsContract.batchLevel(2)).to.eq(2);
+    expect((await lemmingsContract.getLevel(2)).targetSavePercent).to.eq(80n);
+  });
+
+  it("refuses to plan openBatch for an unknown level or while paused", async function () {
+    await expect(planBootstrap(lemmingsContract, { openBatch: "level" })).to.be.rejectedWith(
+      'Level "level" is neither registered nor listed in levels',
+    );
+    await lemmingsContract.connect(deployer).registerLevel(ethers.id("level"), "level", 10, 320, 160, 50);
+    await lemmingsContract.connect(deployer).setPaused(true);
+    await expect(planBootstrap(lemmingsContract, { openBatch: "level" })).to.be.rejectedWith("paused");
+  });
+
+  it("rejects malformed specs", async function () {
+    expect(() => parseBootstrapSpec([])).to.throw("must be a JSON object");
+    expect(() => parseBootstrapSpec({ providers: ["0x1234"] })).to.throw("providers must be a list of addresses");
+    expect(() => parseBootstrapSpec({ verifiers: "0x1234" })).to.throw("verifiers must be a list of addresses");
+    expect(() => parseBootstrapSpec({ cooldownSeconds: -1 })).to.throw("non-negative integer");
+    expect(() => parseBootstrapSpec({ openBatch: true })).to.throw("openBatch must be the id of a level file");
+    expect(() => parseBootstrapSpec({ levels: "level.json" })).to.throw("levels must be a list of level file paths");
+    expect(() => parseBootstrapSpec({ levels: ["missing.json"] }, "spec", levelsDir)).to.throw("level missing.json");
+    expect(() => parseBootstrapSpec({ owner: "bob" })).to.throw("owner must be an address");
+    expect(() => parseBootstrapSpec({ cooldown: 30 })).to.throw("unknown keys: cooldown");
+  });
+});
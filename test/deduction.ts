@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import firstSteps from "../frontend/web/src/levels/first-steps.json";
+import {
+  AbilityType,
+  commandsByTick,
+  createSimulation,
+  deduceAbilities,
+  describeEvent,
+  LemmingEvent,
+  loadLevel,
+  step,
+  TimedCommand,
+} from "../frontend/web/src/engine";
+
+describe("Observation log", function () {
+  const level = loadLevel(firstSteps);
+  const abilities = Array.from(
+    { length: level.engine.lemmingCount },
+    (_, i) => (["dig", "float", "climb", "block", "build"] as AbilityType[])[i % 5],
+  );
+  const commands: TimedCommand[] = [
+    { tick: 30, lemming: 0, ability: "dig" },
+    { tick: 30, lemming: 0, ability: "build" },
+    { tick: 130, lemming: 2, ability: "climb" },
+    { tick: 170, lemming: 3, ability: "block" },
+    { tick: 210, lemming: 4, ability: "build" },
+    { tick: 250, lemming: 5, ability: "build" },
+  ];
+
+  function observe(): LemmingEvent[] {
+    const state = createSimulation(level.engine, abilities);
+    const byTick = commandsByTick(commands);
+    while (!state.finished) step(state, byTick.get(state.tick));
+    return state.events;
+  }
+
+  const eventsOf = (events: LemmingEvent[], lemming: number) =>
+    events.filter((e) => e.lemming === lemming).map(({ tick, type }) => [tick, type]);
+
+  it("emits what every lemming was seen doing, in order", function () {
+    const events = observe();
+    expect(events.map((e) => e.tick)).to.deep.eq([...events.map((e) => e.tick)].sort((a, b) => a - b));
+    expect(eventsOf(events, 0).slice(0, 5)).to.deep.eq([
+      [0, "released"],
+      [13, "fell"],
+      [30, "assigned"],
+      [30, "rejected"],
+      [95, "dug"],
+    ]);
+    const rejected = events.filter((e) => e.type === "rejected");
+    expect(rejected.map((e) => e.lemming)).to.deep.eq([0, 5]);
+    // Lemming 0 is already digging, lemming 5 is walking and never had build
+    expect(rejected[0]).to.deep.include({ ability: "build", reason: "state" });
+    expect(rejected[1]).to.deep.include({ ability: "build", reason: "ability" });
+    expect(events.find((e) => e.type === "dug")).to.deep.include({ lemming: 0, depth: 32 });
+    expect(events.find((e) => e.type === "climbed")).to.deep.include({ lemming: 2, height: 32 });
+    expect(events.find((e) => e.type === "built")).to.deep.include({ lemming: 4, bricks: 5 });
+  });
+
+  it("reports every lemming a blocker stops once", function () {
+    const stopped = observe()
+      .filter((e) => e.type === "blocked")
+      .map((e) => (e.type === "blocked" ? e.other : -1));
+    expect(stopped).to.deep.eq([1, 0, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("narrows the candidate abilities down to what nothing contradicts", function () {
+    const deductions = deduceAbilities(observe());
+    expect(deductions.map((d) => [d.lemming, d.known])).to.deep.eq([
+      [0, "dig"],
+      [1, null],
+      [2, "climb"],
+      [3, "block"],
+      [4, "build"],
+      [5, null],
+      [6, null],
+      [7, null],
+      [8, null],
+      [9, null],
+    ]);
+    expect(deductions[0].candidates).to.deep.eq(["dig"]);
+    expect(deductions[5].ruledOut).to.deep.eq(["build"]);
+    expect(deductions[5].candidates).to.deep.eq(["climb", "dig", "block", "float"]);
+    expect(deductions[6].candidates).to.have.length(5);
+  });
+
+  it("logs the same refusal for busy lemmings whether they have the ability or not", function () {
+    const state = createSimulation(level.engine, abilities);
+    const interval = level.engine.releaseInterval;
+    // Both are still falling out of the hatch, lemming 0 has dig and lemming 1 does not
+    const byTick = commandsByTick([
+      { tick: 5, lemming: 0, ability: "dig" },
+      { tick: interval + 5, lemming: 1, ability: "dig" },
+    ]);
+    while (state.tick <= interval + 5) step(state, byTick.get(state.tick));
+    const [withAbility, without] = state.events
+      .filter((e) => e.type === "rejected")
+      .map(({ tick, lemming, ...details }) => details);
+    expect(withAbility).to.deep.eq({ type: "rejected", ability: "dig", reason: "state" });
+    expect(without).to.deep.eq(withAbility);
+  });
+
+  it("proves abilities from behaviour and ignores refusals of busy lemmings", function () {
+    const at = (tick: number, details: object) => ({ tick, lemming: 0, ...details }) as LemmingEvent;
+    const [floater] = deduceAbilities([
+      at(0, { type: "released" }),
+      at(50, { type: "fell", height: 80, survived: true, floated: true }),
+    ]);
+    expect(floater.known).to.eq("float");
+
+    // Falling, refuses dig without giving anything away, then walking, refuses climb outright
+    const [busy] = deduceAbilities([
+      at(0, { type: "released" }),
+      at(5, { type: "rejected", ability: "dig", reason: "state" }),
+      at(13, { type: "fell", height: 39, survived: true, floated: false }),
+      at(20, { type: "rejected", ability: "climb", reason: "ability" }),
+    ]);
+    expect(busy.ruledOut).to.deep.eq(["climb"]);
+    expect(busy.candidates).to.deep.eq(["dig", "build", "block", "float"]);
+    expect(describeEvent(busy.events[1])).to.eq("could not take dig right now");
+
+    const refusals = (["climb", "dig", "build", "block", "float"] as AbilityType[]).map((ability, i) =>
+      at(i, { type: "rejected", ability, reason: "ability" }),
+    );
+    const [none] = deduceAbilities(refusals);
+    expect(none.known).to.eq(null);
+    expect(none.candidates).to.deep.eq([]);
+    expect(describeEvent(refusals[0])).to.eq("refused climb");
+  });
+});
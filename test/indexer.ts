@@ -0,0 +1,151 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import { ethers, fhevm } from "hardhat";
+import os from "os";
+import path from "path";
+import { LemmingsIndexer } from "../src/indexer/indexer";
+import { paginate, queryLemmings } from "../src/indexer/materialize";
+import { JsonStore } from "../src/indexer/store";
+import { LemmingsFHE, LemmingsFHE__factory } from "../types";
+
+describe("LemmingsIndexer", function () {
+  let deployer: HardhatEthersSigner;
+  let provider: HardhatEthersSigner;
+  let lemmingsContract: LemmingsFHE;
+  let lemmingsContractAddress: string;
+  let startBlock: number;
+  let storeFile: string;
+
+  async function submit(batchId: number, ability: number) {
+    const encrypted = await fhevm
+      .createEncryptedInput(lemmingsContractAddress, provider.address)
+      .add32(ability)
+      .add32(10)
+      .add32(20)
+      .encrypt();
+    await lemmingsContract
+      .connect(provider)
+      .submitLemming(batchId, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof);
+  }
+
+  function createIndexer() {
+    const store = new JsonStore(storeFile, {
+      chainId: 31337,
+      lemmingsAddress: lemmingsContractAddress,
+      adapterAddress: null,
+      startBlock,
+    });
+    return new LemmingsIndexer({ provider: ethers.provider, store, blockRange: 3 });
+  }
+
+  before(async function () {
+    [deployer, provider] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("LemmingsFHE")) as LemmingsFHE__factory;
+    lemmingsContract = (await factory.deploy()) as LemmingsFHE;
+    lemmingsContractAddress = await lemmingsContract.getAddress();
+    startBlock = (await lemmingsContract.deploymentTransaction()!.wait())!.blockNumber;
+    storeFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "lemmings-indexer-")), "store.json");
+
+    await lemmingsContract.connect(deployer).addProvider(provider.address);
+    await lemmingsContract.connect(deployer).registerLevel(ethers.id("level"), "level", 10, 320, 160, 50);
+    await lemmingsContract.connect(deployer).openBatch(1);
+  });
+
+  afterEach(function () {
+    if (storeFile) fs.rmSync(path.dirname(storeFile), { recursive: true, force: true });
+  });
+
+  it("backfills and materializes batches, lemmings and reveals", async function () {
+    await submit(1, 0);
+    await submit(1, 3);
+    await lemmingsContract.closeBatch(1);
+    await lemmingsContract.requestBatchDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+
+    const indexer = createIndexer();
+    const result = await indexer.syncOnce();
+    expect(result.events).to.eq(7);
+
+    expect(indexer.view.levels.get(1)!.fileId).to.eq("level");
+    const batch = indexer.view.batches.get(1)!;
+    expect(batch.levelId).to.eq(1);
+    expect(batch.isOpen).to.eq(false);
+    expect(batch.lemmingCount).to.eq(2);
+
+    const lemmings = queryLemmings(indexer.view, { status: "revealed" });
+    expect(lemmings.map((l) => [l.lemmingId, l.revealed!.abilityId])).to.deep.eq([
+      [2, 3],
+      [1, 0],
+    ]);
+    const [decryption] = indexer.view.decryptions.values();
+    expect(decryption.completed).to.not.eq(null);
+  });
+
+  it("maps range reveals onto their lemmingIds", async function () {
+    await submit(1, 0);
+    await submit(1, 3);
+    await submit(1, 5); // out of range, stored clamped
+    await lemmingsContract.requestRangeDecryption(1, 2, 3);
+    await fhevm.awaitDecryptionOracle();
+
+    const indexer = createIndexer();
+    await indexer.syncOnce();
+
+    const lemmings = queryLemmings(indexer.view, { status: "revealed" });
+    expect(lemmings.map((l) => [l.lemmingId, l.revealed!.abilityId, l.revealed!.valid])).to.deep.eq([
+      [3, 4, false],
+      [2, 3, true],
+    ]);
+    const [decryption] = indexer.view.decryptions.values();
+    expect([decryption.fromId, decryption.toId]).to.deep.eq([2, 3]);
+  });
+
+  it("persists progress and resumes from the stored cursor", async function () {
+    await submit(1, 1);
+    const first = createIndexer();
+    await first.syncOnce();
+
+    await submit(1, 2);
+    const resumed = createIndexer();
+    expect(resumed.view.lemmings.size).to.eq(1);
+    const result = await resumed.syncOnce();
+    expect(result.fromBlock).to.eq(first.store.snapshot.cursor!.number + 1);
+    expect(result.events).to.eq(1);
+    expect(paginate(queryLemmings(resumed.view, { batchId: 1 }), 0, 1).total).to.eq(2);
+  });
+
+  it("rolls back events from blocks that were reorged out", async function () {
+    await submit(1, 1);
+    const indexer = createIndexer();
+    await indexer.syncOnce();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await submit(1, 2);
+    await lemmingsContract.closeBatch(1);
+    await indexer.syncOnce();
+    expect(indexer.view.lemmings.size).to.eq(2);
+    expect(indexer.view.batches.get(1)!.isOpen).to.eq(false);
+
+    // Replace the last blocks with a different chain of the same height
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await mine(3);
+
+    const result = await indexer.syncOnce();
+    expect(result.reorgedFrom).to.not.eq(null);
+    expect(indexer.view.lemmings.size).to.eq(1);
+    expect(indexer.view.batches.get(1)!.isOpen).to.eq(true);
+    expect(indexer.store.snapshot.events.every((e) => e.blockNumber <= indexer.store.snapshot.cursor!.number)).to.eq(
+      true,
+    );
+  });
+});
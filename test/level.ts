@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import firstSteps from "../frontend/web/src/levels/first-steps.json";
+import {
+  decodeLevelFile,
+  encodeLevelFile,
+  LEVEL_FORMAT_VERSION,
+  LevelFile,
+  LevelValidationError,
+  loadLevel,
+  parseLevelFile,
+  TERRAIN_DIRT,
+  TERRAIN_EMPTY,
+  TERRAIN_STEEL,
+} from "../frontend/web/src/engine";
+
+describe("Level files", function () {
+  // 16x8 pixels: a dirt ledge on the left over a steel floor
+  const tiles: LevelFile = {
+    version: LEVEL_FORMAT_VERSION,
+    id: "tiny",
+    name: "Tiny",
+    width: 16,
+    height: 8,
+    terrain: { type: "tiles", tileSize: 4, rows: ["#...", "SSSS"] },
+    entrance: { x: 1, y: 0 },
+    exit: { x: 14, y: 3 },
+    lemmingCount: 2,
+    releaseInterval: 10,
+    requiredSavePercent: 50,
+    timeLimitSeconds: 30,
+    abilities: ["dig", "float"],
+  };
+
+  function issuesOf(input: unknown) {
+    try {
+      parseLevelFile(input);
+    } catch (e) {
+      expect(e).to.be.instanceOf(LevelValidationError);
+      return (e as LevelValidationError).issues;
+    }
+    return expect.fail("expected the level to be rejected");
+  }
+
+  it("accepts the bundled levels", function () {
+    expect(parseLevelFile(firstSteps)).to.eq(firstSteps);
+    const level = loadLevel(firstSteps);
+    expect(level.requiredSaved).to.eq(5);
+    expect(level.engine.timeLimit).to.eq(180 * 20);
+  });
+
+  it("reports every issue with its path", function () {
+    const issues = issuesOf({
+      ...tiles,
+      id: "Not An Id",
+      name: " ",
+      terrain: { type: "tiles", tileSize: 4, rows: ["#..", "SSXS", 7] },
+      exit: { x: 16, y: 3 },
+      lemmingCount: 0,
+      releaseInterval: 1.5,
+      abilities: ["dig", "fly", "dig"],
+    });
+    expect(issues).to.deep.eq([
+      { path: "id", message: "must only contain lowercase letters, digits and dashes" },
+      { path: "name", message: "must be a non-empty string" },
+      { path: "terrain.rows", message: "3 rows of 4px do not match height 8" },
+      { path: "terrain.rows[0]", message: "3 tiles of 4px do not match width 16" },
+      { path: "terrain.rows[1]", message: 'unknown tile "X" at column 2' },
+      { path: "terrain.rows[2]", message: "must be a string" },
+      { path: "exit.x", message: "must be between 0 and 15" },
+      { path: "lemmingCount", message: "must be between 1 and 100" },
+      { path: "releaseInterval", message: "must be an integer" },
+      { path: "abilities[1]", message: "must be one of climb, dig, build, block, float" },
+      { path: "abilities[2]", message: "duplicate ability dig" },
+    ]);
+    expect(() => parseLevelFile({ ...tiles, entrance: null })).to.throw(
+      LevelValidationError,
+      "Invalid level: entrance: must be an object with x and y",
+    );
+    expect(issuesOf([])).to.deep.eq([{ path: "", message: "must be an object" }]);
+    expect(issuesOf({ ...tiles, terrain: { type: "vector" } })).to.deep.eq([
+      { path: "terrain.type", message: 'must be "tiles" or "bitmap"' },
+    ]);
+  });
+
+  it("rejects other format versions before looking at anything else", function () {
+    expect(issuesOf({ version: LEVEL_FORMAT_VERSION + 1 })).to.deep.eq([
+      { path: "version", message: `unsupported version ${LEVEL_FORMAT_VERSION + 1}, expected ${LEVEL_FORMAT_VERSION}` },
+    ]);
+    expect(issuesOf({ ...tiles, version: undefined })[0].path).to.eq("version");
+  });
+
+  it("builds the same terrain from tiles and from a bitmap", function () {
+    const pixels = new Uint8Array(16 * 8);
+    for (let y = 0; y < 4; y++) pixels.fill(TERRAIN_DIRT, y * 16, y * 16 + 4);
+    pixels.fill(TERRAIN_STEEL, 4 * 16);
+    const bitmap = { ...tiles, terrain: { type: "bitmap" as const, data: Buffer.from(pixels).toString("base64") } };
+
+    const fromTiles = loadLevel(tiles).engine.terrain;
+    const fromBitmap = loadLevel(bitmap).engine.terrain;
+    expect(fromTiles.pixels).to.deep.eq(pixels);
+    expect(fromBitmap.pixels).to.deep.eq(fromTiles.pixels);
+    expect(fromTiles.pixels[3 * 16 + 4]).to.eq(TERRAIN_EMPTY);
+
+    expect(issuesOf({ ...bitmap, terrain: { type: "bitmap", data: "AAAA" } })).to.deep.eq([
+      { path: "terrain.data", message: "decodes to 3 pixels, expected 128" },
+    ]);
+    expect(
+      issuesOf({
+        ...bitmap,
+        terrain: { type: "bitmap", data: Buffer.from([...pixels.slice(1), 3]).toString("base64") },
+      }),
+    ).to.deep.eq([{ path: "terrain.data", message: "contains unknown pixel values" }]);
+    expect(issuesOf({ ...bitmap, terrain: { type: "bitmap", data: "not base64!" } })).to.deep.eq([
+      { path: "terrain.data", message: "is not valid base64" },
+    ]);
+  });
+
+  it("round trips through the encoded form", function () {
+    const bytes = encodeLevelFile(tiles);
+    expect(decodeLevelFile(bytes)).to.deep.eq(tiles);
+    expect(encodeLevelFile(decodeLevelFile(bytes))).to.deep.eq(bytes);
+
+    expect(() => decodeLevelFile(new TextEncoder().encode("{"))).to.throw(
+      LevelValidationError,
+      "<root>: is not valid JSON",
+    );
+    const tooWide = new TextEncoder().encode(JSON.stringify({ ...tiles, width: 8192 }));
+    expect(() => decodeLevelFile(tooWide)).to.throw(LevelValidationError, "width: must be between 1 and 4096");
+  });
+});
@@ -0,0 +1,169 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AbilityId } from "../frontend/web/src/engine";
+import { MockOracle, MockOracleOptions } from "../src/oracle/oracle";
+import { LemmingsFHE, LemmingsFHE__factory } from "../types";
+
+describe("Mock decryption oracle", function () {
+  let deployer: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let lemmingsContract: LemmingsFHE;
+  let decryptionOracleAddress: string;
+
+  const lemmings = [
+    { ability: AbilityId.Block, x: 10, y: 20 },
+    { ability: AbilityId.Float, x: 11, y: 21 },
+  ];
+
+  const createOracle = (options: Partial<MockOracleOptions> = {}) =>
+    new MockOracle({
+      provider: ethers.provider,
+      signer: relayer,
+      decryptionOracleAddress,
+      contract: lemmingsContract.target as string,
+      log: () => {},
+      ...options,
+    });
+
+  async function requestDecryption() {
+    const receipt = await (await lemmingsContract.requestBatchDecryption(1)).wait();
+    const parsed = receipt!.logs
+      .map((l) => lemmingsContract.interface.parseLog(l))
+      .find((log) => log?.name === "DecryptionRequested");
+    return parsed!.args.requestId as bigint;
+  }
+
+  const completions = () => lemmingsContract.queryFilter(lemmingsContract.filters.DecryptionCompleted());
+
+  before(async function () {
+    [deployer, , , relayer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    decryptionOracleAddress = await MockOracle.decryptionOracleAddress(ethers.provider);
+    const factory = (await ethers.getContractFactory("LemmingsFHE")) as LemmingsFHE__factory;
+    lemmingsContract = (await factory.deploy()) as LemmingsFHE;
+    await lemmingsContract.addProvider(deployer.address);
+    await lemmingsContract.registerLevel(ethers.id("level"), "level", 10, 320, 160, 50);
+    await lemmingsContract.openBatch(1);
+    const contractAddress = await lemmingsContract.getAddress();
+    const input = fhevm.createEncryptedInput(contractAddress, deployer.address);
+    for (const l of lemmings) input.add32(l.ability).add32(l.x).add32(l.y);
+    const encrypted = await input.encrypt();
+    const field = (offset: number) => lemmings.map((_, i) => encrypted.handles[i * 3 + offset]);
+    await lemmingsContract.submitLemmings(1, field(0), field(1), field(2), encrypted.inputProof);
+  });
+
+  it("answers a request with the decrypted values", async function () {
+    const oracle = createOracle();
+    await oracle.poll(); // starts watching from the current block
+    const requestId = await requestDecryption();
+
+    const answers = await oracle.runOnce();
+    expect(answers.map((a) => [a.request.requestId, a.outcome])).to.deep.eq([[requestId, "answered"]]);
+    const [completed] = await completions();
+    expect(completed.args.abilities).to.deep.eq([3n, 4n]);
+    expect(completed.args.xs).to.deep.eq([10n, 11n]);
+    expect(completed.args.ys).to.deep.eq([20n, 21n]);
+    expect(completed.args.valids).to.deep.eq([true, true]);
+    expect(await oracle.runOnce()).to.deep.eq([]);
+  });
+
+  it("skips requests from other contracts and requests already fulfilled", async function () {
+    const fromBlock = await ethers.provider.getBlockNumber();
+    await requestDecryption();
+    expect(await createOracle({ fromBlock, contract: deployer.address }).runOnce()).to.deep.eq([]);
+
+    await createOracle({ fromBlock }).runOnce();
+    expect(await createOracle({ fromBlock }).runOnce()).to.deep.eq([]);
+    expect(await completions()).to.have.length(1);
+  });
+
+  it("retries a request whose answer failed on the next poll", async function () {
+    const logs: string[] = [];
+    const oracle = createOracle({ log: (message) => logs.push(message) });
+    const callbackData = oracle.callbackData.bind(oracle);
+    let calls = 0;
+    oracle.callbackData = async (request, tamper) => {
+      if (++calls === 1) throw new Error("fhevm_getClearText failed");
+      return callbackData(request, tamper);
+    };
+    await oracle.poll();
+    const requestId = await requestDecryption();
+
+    expect(await oracle.runOnce()).to.deep.eq([]);
+    expect(logs).to.deep.eq([
+      `Request ${requestId} from ${lemmingsContract.target}: fhevm_getClearText failed, retrying on the next poll`,
+    ]);
+    const [answer] = await oracle.runOnce();
+    expect(answer.outcome).to.eq("answered");
+    expect(await completions()).to.have.length(1);
+    expect(await oracle.runOnce()).to.deep.eq([]);
+  });
+
+  it("waits out the configured latency", async function () {
+    const waits: number[] = [];
+    const oracle = createOracle({
+      latencyMs: 5000,
+      jitterMs: 1000,
+      random: () => 0.5,
+      sleep: async (ms) => void waits.push(ms),
+    });
+    await oracle.poll();
+    await requestDecryption();
+
+    await oracle.runOnce();
+    expect(waits).to.have.length(1);
+    expect(waits[0]).to.be.within(5000, 5500);
+  });
+
+  it("drops requests, leaving them pending", async function () {
+    const oracle = createOracle({ fault: "drop" });
+    await oracle.poll();
+    await requestDecryption();
+
+    const [answer] = await oracle.runOnce();
+    expect(answer.outcome).to.eq("dropped");
+    expect(await completions()).to.have.length(0);
+  });
+
+  it("duplicates callbacks, the replay guard rejects the second one", async function () {
+    const oracle = createOracle({ fault: "duplicate" });
+    await oracle.poll();
+    await requestDecryption();
+
+    const [answer] = await oracle.runOnce();
+    expect(answer.outcome).to.eq("answered");
+    expect(answer.errors).to.deep.eq(["ReplayAttempt"]);
+    expect(await completions()).to.have.length(1);
+  });
+
+  it("sends a wrong proof that the KMS signature check rejects", async function () {
+    const oracle = createOracle({ fault: "wrong-proof" });
+    await oracle.poll();
+    await requestDecryption();
+
+    const [answer] = await oracle.runOnce();
+    expect(answer.outcome).to.eq("reverted");
+    expect(answer.errors).to.deep.eq(["KMSInvalidSigner"]);
+    expect(await completions()).to.have.length(0);
+  });
+
+  it("applies the fault to faultRate of the requests only", async function () {
+    const rolls = [0, 0.9]; // jitter, then the fault roll
+    const oracle = createOracle({ fault: "drop", faultRate: 0.5, random: () => rolls.shift() ?? 0 });
+    await oracle.poll();
+    await requestDecryption();
+
+    const [answer] = await oracle.runOnce();
+    expect(answer.fault).to.eq("none");
+    expect(answer.outcome).to.eq("answered");
+    expect(() => createOracle({ faultRate: 2 })).to.throw("faultRate must be between 0 and 1");
+  });
+});
@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import { Poller } from "../src/poller";
+
+describe("Poller", function () {
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("keeps polling after a failed run until stopped", async function () {
+    let runs = 0;
+    const errors: unknown[][] = [];
+    const error = console.error;
+    console.error = (...args: unknown[]) => errors.push(args);
+    const poller = new Poller("Test poll", 5, async () => {
+      runs++;
+      if (runs === 1) throw new Error("node unreachable");
+    });
+    try {
+      await poller.start();
+      // The first run has finished by the time start() resolves
+      expect(runs).to.eq(1);
+      await poller.start();
+      expect(runs).to.eq(1);
+
+      await wait(50);
+      poller.stop();
+      const stoppedAt = runs;
+      expect(stoppedAt).to.be.greaterThan(2);
+      await wait(30);
+      expect(runs).to.eq(stoppedAt);
+    } finally {
+      poller.stop();
+      console.error = error;
+    }
+    expect(errors).to.have.length(1);
+    expect(errors[0][0]).to.eq("Test poll failed:");
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import firstSteps from "../frontend/web/src/levels/first-steps.json";
+import {
+  decodeReplay,
+  encodeReplay,
+  encodeRunRecord,
+  getResult,
+  loadLevel,
+  parseLevelFile,
+  parseReplayFile,
+  Replay,
+  REPLAY_VERSION,
+  replayFromJson,
+  replayState,
+  replayTimeline,
+  replayToJson,
+  runSimulation,
+} from "../frontend/web/src/engine";
+import { levelContentHash } from "../frontend/web/src/levelHash";
+
+describe("Replays", function () {
+  const levelFile = parseLevelFile(firstSteps);
+  const level = loadLevel(levelFile);
+  const abilities = Array.from({ length: level.engine.lemmingCount }, (_, i) =>
+    i === 0 ? ("dig" as const) : i === 1 ? ("float" as const) : null,
+  );
+  const commands = [
+    { tick: 30, lemming: 0, ability: "dig" as const },
+    { tick: 30, lemming: 0, ability: "build" as const },
+    { tick: 90, lemming: 1, ability: "float" as const },
+  ];
+  const finished = runSimulation(level.engine, abilities, commands);
+  const replay: Replay = {
+    version: REPLAY_VERSION,
+    levelHash: levelContentHash(levelFile),
+    ticks: finished.ticks,
+    abilities,
+    commands,
+  };
+
+  it("round trips the binary form and embeds the run record", function () {
+    const bytes = encodeReplay(replay);
+    expect(decodeReplay(bytes)).to.deep.eq(replay);
+    expect(parseReplayFile(bytes)).to.deep.eq(replay);
+
+    const record = encodeRunRecord(commands);
+    const recordStart = 43 + abilities.length;
+    expect(bytes.slice(recordStart, recordStart + record.length)).to.deep.eq(record);
+  });
+
+  it("round trips the JSON form with the same checksum", function () {
+    const json = replayToJson(replay);
+    expect(replayFromJson(json)).to.deep.eq(replay);
+    expect(parseReplayFile(new TextEncoder().encode(json))).to.deep.eq(replay);
+
+    const bytes = encodeReplay(replay);
+    const trailer = new DataView(bytes.buffer).getUint32(bytes.length - 4);
+    expect(JSON.parse(json).checksum).to.eq("0x" + trailer.toString(16).padStart(8, "0"));
+  });
+
+  it("rejects corrupted and unsupported replays", function () {
+    const bytes = encodeReplay(replay);
+    const flipped = bytes.slice();
+    flipped[50] ^= 1;
+    expect(() => decodeReplay(flipped)).to.throw("checksum mismatch");
+    const future = bytes.slice();
+    future[4] = REPLAY_VERSION + 1;
+    expect(() => decodeReplay(future)).to.throw(`unsupported version ${REPLAY_VERSION + 1}`);
+    expect(() => decodeReplay(bytes.slice(4))).to.throw("not a replay file");
+
+    const json = JSON.parse(replayToJson(replay));
+    expect(() => replayFromJson(JSON.stringify({ ...json, ticks: json.ticks + 1 }))).to.throw("checksum mismatch");
+    expect(() => replayFromJson(JSON.stringify({ ...json, abilities: ["fly"] }))).to.throw("abilities must list");
+    expect(() => replayFromJson(JSON.stringify({ ...json, levelHash: "0x12" }))).to.throw("levelHash must be");
+    expect(() => replayFromJson("{")).to.throw("not valid JSON");
+    expect(() => replayFromJson("[]")).to.throw("not a replay file");
+    expect(() =>
+      replayFromJson(JSON.stringify({ ...json, commands: [{ tick: 1, lemming: -1, ability: "dig" }] })),
+    ).to.throw("commands must be a list");
+  });
+
+  it("rejects inputs for lemmings the level does not have", function () {
+    const slots = level.engine.lemmingCount;
+    const outside = { ...replay, commands: [...commands, { tick: 120, lemming: slots, ability: "float" as const }] };
+    expect(() => decodeReplay(encodeReplay(outside))).to.throw(
+      `tick 120 targets lemming ${slots}, there are ${slots} slots`,
+    );
+    const json = JSON.parse(replayToJson(replay));
+    expect(() => replayFromJson(JSON.stringify({ ...json, commands: outside.commands }))).to.throw(
+      `targets lemming ${slots}`,
+    );
+  });
+
+  it("scrubs to any tick deterministically", function () {
+    const end = replayState(level.engine, replay, replay.ticks);
+    expect(getResult(end)).to.deep.eq(finished);
+
+    const middle = replayState(level.engine, replay, 100);
+    expect(middle.tick).to.eq(100);
+    expect(getResult(replayState(level.engine, replay, 100))).to.deep.eq(getResult(middle));
+  });
+
+  it("builds a per-lemming timeline with every input", function () {
+    const { ticks, lemmings } = replayTimeline(level.engine, replay);
+    expect(ticks).to.eq(finished.ticks);
+    expect(lemmings).to.have.length(finished.released);
+    expect(lemmings.map((l) => l.lemming)).to.deep.eq(lemmings.map((_, i) => i));
+    expect(lemmings[0].commands.map((c) => [c.tick, c.ability])).to.deep.eq([
+      [30, "dig"],
+      [30, "build"],
+    ]);
+    // A lemming can only be given its own ability
+    expect(lemmings[0].commands[1].applied).to.eq(false);
+    expect(lemmings[1].releasedAt).to.eq(level.engine.releaseInterval);
+    for (const lemming of lemmings) {
+      const last = lemming.states[lemming.states.length - 1].state;
+      expect(last).to.eq(finished.lemmings[lemming.lemming].state);
+    }
+  });
+});
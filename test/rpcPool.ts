@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { RpcPool } from "../frontend/web/src/rpcPool";
+
+const CHAIN_ID = 31337;
+
+interface StubEndpoint {
+  url: string;
+  chainId: number;
+  blockNumber: number;
+  down: boolean; // answers every request with HTTP 503
+  delayMs: number;
+  calls: string[];
+  server: http.Server;
+}
+
+// Minimal JSON-RPC node: chain id, block number, and eth_call answering with its own port so tests see who served it
+async function stubEndpoint(
+  options: Partial<Pick<StubEndpoint, "chainId" | "blockNumber">> = {},
+): Promise<StubEndpoint> {
+  const stub = {
+    chainId: CHAIN_ID,
+    blockNumber: 100,
+    down: false,
+    delayMs: 0,
+    calls: [],
+    ...options,
+  } as unknown as StubEndpoint;
+  stub.server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      const request = JSON.parse(body);
+      stub.calls.push(request.method);
+      if (stub.delayMs) await new Promise((resolve) => setTimeout(resolve, stub.delayMs));
+      if (stub.down) {
+        res.writeHead(503).end();
+        return;
+      }
+      const port = (stub.server.address() as AddressInfo).port;
+      const response =
+        request.method === "eth_chainId"
+          ? { result: "0x" + stub.chainId.toString(16) }
+          : request.method === "eth_blockNumber"
+            ? { result: "0x" + stub.blockNumber.toString(16) }
+            : request.method === "eth_call"
+              ? { result: "0x" + port.toString(16).padStart(64, "0") }
+              : { error: { code: -32601, message: `the method ${request.method} does not exist` } };
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, ...response }));
+    });
+  });
+  await new Promise<void>((resolve) => stub.server.listen(0, "127.0.0.1", resolve));
+  stub.url = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+  return stub;
+}
+
+describe("RpcPool", function () {
+  let stubs: StubEndpoint[];
+  let pools: RpcPool[];
+
+  function createPool(endpoints: StubEndpoint[], options: { quorum?: number; timeoutMs?: number } = {}) {
+    // Health checks run by hand so every test controls when endpoints are probed
+    const pool = new RpcPool({ chainId: CHAIN_ID, urls: endpoints.map((e) => e.url), healthIntervalMs: 0, ...options });
+    pools.push(pool);
+    return pool;
+  }
+
+  const servedBy = async (pool: RpcPool) => {
+    const result = await pool.provider.call({ to: "0x0000000000000000000000000000000000000001", data: "0x" });
+    return stubs.find((s) => s.url.endsWith(`:${Number(result)}`));
+  };
+
+  beforeEach(async function () {
+    stubs = [];
+    pools = [];
+  });
+
+  afterEach(async function () {
+    for (const pool of pools) pool.destroy();
+    for (const stub of stubs) {
+      stub.server.closeAllConnections();
+      await new Promise((resolve) => stub.server.close(resolve));
+    }
+  });
+
+  async function stubEndpoints(...options: Parameters<typeof stubEndpoint>[0][]) {
+    for (const option of options) stubs.push(await stubEndpoint(option));
+    return stubs;
+  }
+
+  it("probes every endpoint in parallel", async function () {
+    const endpoints = await stubEndpoints({}, {}, {});
+    for (const endpoint of endpoints) endpoint.delayMs = 300;
+    const pool = createPool(endpoints);
+
+    const started = Date.now();
+    const stats = await pool.healthCheck();
+    // One endpoint after another would take at least three times as long
+    expect(Date.now() - started).to.be.lessThan(600);
+    expect(stats.map((s) => [s.healthy, s.blockNumber])).to.deep.eq([
+      [true, 100],
+      [true, 100],
+      [true, 100],
+    ]);
+    for (const endpoint of endpoints) expect(endpoint.calls).to.have.members(["eth_chainId", "eth_blockNumber"]);
+  });
+
+  it("takes the head at quorum and benches endpoints lagging behind it", async function () {
+    const [ahead, synced, lagging] = await stubEndpoints(
+      { blockNumber: 120 },
+      { blockNumber: 118 },
+      { blockNumber: 110 },
+    );
+    const pool = createPool([ahead, synced, lagging], { quorum: 2 });
+
+    const stats = await pool.healthCheck();
+    // A single endpoint running ahead does not move the head on its own
+    expect(pool.quorumHead).to.eq(118);
+    expect(stats.map((s) => s.healthy)).to.deep.eq([true, true, false]);
+    expect(stats[2].lastError).to.eq("Lagging 8 blocks behind quorum head");
+
+    lagging.blockNumber = 118;
+    expect((await pool.healthCheck())[2].healthy).to.eq(true);
+  });
+
+  it("never routes to an endpoint on another chain", async function () {
+    const [other, right] = await stubEndpoints({ chainId: 1, blockNumber: 5000 }, {});
+    const pool = createPool([other, right]);
+
+    const stats = await pool.healthCheck();
+    expect(stats[0].healthy).to.eq(false);
+    expect(stats[0].lastError).to.eq("Endpoint is on chain 1");
+    expect(pool.quorumHead).to.eq(100);
+
+    // Not even as a last resort once every endpoint on the right chain is down
+    right.down = true;
+    await servedBy(pool).then(
+      () => expect.fail("expected the request to fail"),
+      (e) => expect(e.message).to.match(/All RPC endpoints failed/),
+    );
+    expect(other.calls.filter((m) => m === "eth_call")).to.deep.eq([]);
+  });
+
+  it("fails over mid-session and benches an endpoint only once failures pile up", async function () {
+    const [first, second] = await stubEndpoints({}, {});
+    const pool = createPool([first, second]);
+
+    expect(await servedBy(pool)).to.eq(first);
+    first.down = true;
+    expect(await servedBy(pool)).to.eq(second);
+    // One dropped request only ranks the endpoint lower
+    expect(pool.stats()[0]).to.deep.include({ healthy: true, errors: 1 });
+
+    second.down = true;
+    const warnings: unknown[][] = [];
+    const warn = console.warn;
+    console.warn = (...args: unknown[]) => warnings.push(args);
+    try {
+      for (let i = 0; i < 6; i++) await servedBy(pool).catch(() => undefined);
+    } finally {
+      console.warn = warn;
+    }
+    expect(pool.stats().map((s) => s.healthy)).to.deep.eq([false, false]);
+    // Logged once when each endpoint is benched, not on every failed request
+    expect(warnings).to.have.length(2);
+
+    // Benched endpoints are still tried rather than failing outright, and the next health check takes them back
+    first.down = false;
+    expect(await servedBy(pool)).to.eq(first);
+    await pool.healthCheck();
+    expect(pool.stats().map((s) => s.healthy)).to.deep.eq([true, false]);
+  });
+
+  it("fails over when an endpoint times out", async function () {
+    const [slow, fast] = await stubEndpoints({}, {});
+    slow.delayMs = 500;
+    const pool = createPool([slow, fast], { timeoutMs: 100 });
+
+    expect(await servedBy(pool)).to.eq(fast);
+    expect(pool.stats()[0].lastError).to.eq("RPC timeout after 100ms");
+  });
+
+  it("returns JSON-RPC errors as they are without failing over", async function () {
+    const [first, second] = await stubEndpoints({}, {});
+    const pool = createPool([first, second]);
+
+    const [response] = await pool.send({ jsonrpc: "2.0", id: 7, method: "eth_unknown", params: [] });
+    expect(response).to.deep.eq({
+      jsonrpc: "2.0",
+      id: 7,
+      error: { code: -32601, message: "the method eth_unknown does not exist" },
+    });
+    expect(second.calls).to.deep.eq([]);
+    expect(pool.stats()[0]).to.deep.include({ healthy: true, errors: 0 });
+  });
+});
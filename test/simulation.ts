@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import firstSteps from "../frontend/web/src/levels/first-steps.json";
+import {
+  AbilityType,
+  commandsByTick,
+  createSimulation,
+  EngineLevel,
+  getResult,
+  LemmingEvent,
+  LEVEL_FORMAT_VERSION,
+  loadLevel,
+  Point,
+  runSimulation,
+  SimulationState,
+  stateChecksum,
+  step,
+  TERRAIN_EMPTY,
+  TERRAIN_STEEL,
+  TimedCommand,
+} from "../frontend/web/src/engine";
+
+// 4px tiles, the side edges of a level act as walls
+function level(rows: string[], entrance: Point, lemmingCount = 1): EngineLevel {
+  return loadLevel({
+    version: LEVEL_FORMAT_VERSION,
+    id: "test",
+    name: "Test",
+    width: rows[0].length * 4,
+    height: rows.length * 4,
+    terrain: { type: "tiles", tileSize: 4, rows },
+    entrance,
+    exit: { x: 2, y: 0 }, // out of reach
+    lemmingCount,
+    releaseInterval: 20,
+    requiredSavePercent: 0,
+    timeLimitSeconds: 30,
+    abilities: ["climb", "dig", "build", "block", "float"],
+  }).engine;
+}
+
+// Dirt floor over steel with a wall 12px high, too high to step over, right of the entrance
+const ARENA = [
+  "....................",
+  "....................",
+  "....................",
+  "...............#....",
+  "...............#....",
+  "...............#....",
+  "####################",
+  "SSSSSSSSSSSSSSSSSSSS",
+];
+const arena = level(ARENA, { x: 40, y: 23 });
+
+// A 123px drop onto steel
+const pit = level([...Array(31).fill("...."), "SSSS"], { x: 8, y: 0 });
+
+// Plays for a number of ticks or until the lemming was seen doing `until`
+function play(
+  engine: EngineLevel,
+  abilities: (AbilityType | null)[],
+  commands: TimedCommand[],
+  until: number | LemmingEvent["type"],
+) {
+  const state = createSimulation(engine, abilities);
+  const byTick = commandsByTick(commands);
+  const done = () => (typeof until === "number" ? state.tick >= until : state.events.some((e) => e.type === until));
+  while (!state.finished && !done()) step(state, byTick.get(state.tick));
+  return state;
+}
+
+const eventsOf = (state: SimulationState, lemming = 0) =>
+  state.events.filter((e) => e.lemming === lemming).map(({ tick, lemming, ...details }) => details);
+
+describe("Simulation", function () {
+  it("is deterministic down to the checksum of every tick", function () {
+    const engine = loadLevel(firstSteps).engine;
+    const abilities = Array.from(
+      { length: engine.lemmingCount },
+      (_, i) => (["dig", "float", "climb", "block", "build"] as AbilityType[])[i % 5],
+    );
+    const commands: TimedCommand[] = [
+      { tick: 30, lemming: 0, ability: "dig" },
+      { tick: 130, lemming: 2, ability: "climb" },
+      { tick: 170, lemming: 3, ability: "block" },
+      { tick: 210, lemming: 4, ability: "build" },
+    ];
+
+    const checksums = () => {
+      const state = createSimulation(engine, abilities);
+      const byTick = commandsByTick(commands);
+      const sums: number[] = [];
+      while (!state.finished) {
+        step(state, byTick.get(state.tick));
+        sums.push(stateChecksum(state));
+      }
+      return sums;
+    };
+    const first = checksums();
+    expect(checksums()).to.deep.eq(first);
+    expect(new Set(first).size).to.eq(first.length);
+    expect(runSimulation(engine, abilities, commands)).to.deep.eq(runSimulation(engine, abilities, commands));
+
+    // The level the runs start from is never modified
+    const other = createSimulation(engine, abilities);
+    expect(stateChecksum(other)).to.eq(stateChecksum(createSimulation(engine, abilities)));
+    const fewer = play(engine, abilities, commands.slice(1), first.length);
+    expect(stateChecksum(fewer)).to.not.eq(first[first.length - 1]);
+  });
+
+  it("turns lemmings around at walls they cannot step over", function () {
+    const state = createSimulation(arena, [null]);
+    const turns: [number, number][] = [];
+    let dir = 1;
+    while (state.tick < 200) {
+      step(state);
+      const lemming = state.lemmings[0];
+      if (lemming.dir !== dir) turns.push([lemming.x, lemming.dir]);
+      dir = lemming.dir;
+    }
+    expect(turns).to.deep.eq([
+      [59, -1],
+      [0, 1],
+      [59, -1],
+    ]);
+    expect(state.lemmings[0].y).to.eq(23);
+  });
+
+  it("kills lemmings falling further than the safe height", function () {
+    const state = play(pit, [null], [], 100);
+    expect(eventsOf(state)).to.deep.eq([
+      { type: "released" },
+      { type: "fell", height: 123, survived: false, floated: false },
+      { type: "died", cause: "fall" },
+    ]);
+    expect(getResult(state)).to.deep.include({ dead: 1, saved: 0 });
+  });
+
+  it("floats a lemming that has float down unharmed", function () {
+    const state = play(pit, ["float"], [{ tick: 1, lemming: 0, ability: "float" }], 200);
+    expect(eventsOf(state)).to.deep.eq([
+      { type: "released" },
+      { type: "assigned", ability: "float" },
+      { type: "fell", height: 123, survived: true, floated: true },
+    ]);
+    expect(state.lemmings[0].state).to.eq("walking");
+  });
+
+  it("climbs walls with climb and drops off the other side", function () {
+    const state = play(arena, ["climb"], [{ tick: 1, lemming: 0, ability: "climb" }], 60);
+    expect(eventsOf(state)).to.deep.eq([
+      { type: "released" },
+      { type: "fell", height: 0, survived: true, floated: false },
+      { type: "assigned", ability: "climb" },
+      { type: "climbed", height: 12 },
+      { type: "fell", height: 12, survived: true, floated: false },
+    ]);
+  });
+
+  it("digs down until it hits steel", function () {
+    const state = play(arena, ["dig"], [{ tick: 5, lemming: 0, ability: "dig" }], "dug");
+    expect(eventsOf(state).slice(2)).to.deep.eq([
+      { type: "assigned", ability: "dig" },
+      { type: "dug", depth: 4 },
+    ]);
+    const lemming = state.lemmings[0];
+    expect(lemming).to.deep.include({ state: "walking", y: 27 });
+    const { width, pixels } = state.terrain;
+    for (let y = 24; y <= 27; y++) expect(pixels[y * width + lemming.x]).to.eq(TERRAIN_EMPTY);
+    expect(pixels[28 * width + lemming.x]).to.eq(TERRAIN_STEEL);
+  });
+
+  it("builds a staircase up to the wall", function () {
+    const state = play(arena, ["build"], [{ tick: 1, lemming: 0, ability: "build" }], "built");
+    expect(eventsOf(state).slice(2)).to.deep.eq([
+      { type: "assigned", ability: "build" },
+      { type: "built", bricks: 10 },
+    ]);
+    // Turned around on the top step, the next one would run into the wall
+    expect(state.lemmings[0]).to.deep.include({ state: "walking", dir: -1, x: 58, y: 14 });
+  });
+
+  it("blocks the lemmings walking into a blocker", function () {
+    const state = play(
+      level(ARENA, { x: 40, y: 23 }, 2),
+      ["block", null],
+      [{ tick: 5, lemming: 0, ability: "block" }],
+      200,
+    );
+    const blocked = state.events.filter((e): e is LemmingEvent & { type: "blocked" } => e.type === "blocked");
+    expect(blocked.map(({ lemming, other }) => [lemming, other])).to.deep.eq([[0, 1]]);
+    // Reported once even though the other lemming keeps walking back and forth between the blocker and the edge
+    expect(state.lemmings[0].state).to.eq("blocking");
+    expect(state.lemmings[1].dir).to.eq(-1);
+  });
+});
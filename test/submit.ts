@@ -0,0 +1,278 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import { ethers, fhevm } from "hardhat";
+import os from "os";
+import path from "path";
+import { LemmingRow, parseCsvRows, parseJsonRows } from "../src/provider/rows";
+import { EncryptedRows, submitRows } from "../src/provider/submit";
+import { LemmingsFHE, LemmingsFHE__factory } from "../types";
+
+describe("Provider submission", function () {
+  let deployer: HardhatEthersSigner;
+  let provider: HardhatEthersSigner;
+  let lemmingsContract: LemmingsFHE;
+  let reportFile: string;
+
+  const silent = () => {};
+  const rows = parseCsvRows("ability,x,y\nclimb,1,2\ndig,3,4\n4,5,6\n");
+
+  const encrypt = async (chunk: LemmingRow[], contractAddress: string, user: string): Promise<EncryptedRows> => {
+    const input = fhevm.createEncryptedInput(contractAddress, user);
+    for (const row of chunk) input.add32(row.ability).add32(row.x).add32(row.y);
+    const { handles, inputProof } = await input.encrypt();
+    return { handles: chunk.map((_, i) => [handles[i * 3], handles[i * 3 + 1], handles[i * 3 + 2]]), inputProof };
+  };
+
+  // Cooldown waits advance chain time instead of sleeping
+  const sleep = async (ms: number) => {
+    await time.increase(Math.ceil(ms / 1000));
+  };
+
+  before(async function () {
+    [deployer, provider] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("LemmingsFHE")) as LemmingsFHE__factory;
+    lemmingsContract = (await factory.deploy()) as LemmingsFHE;
+    await lemmingsContract.connect(deployer).addProvider(provider.address);
+    await lemmingsContract.connect(deployer).registerLevel(ethers.id("level"), "level", 100, 320, 160, 50);
+    await lemmingsContract.connect(deployer).openBatch(1);
+    reportFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "lemmings-submit-")), "report.json");
+  });
+
+  describe("rows", function () {
+    it("parses CSV with names, ids, comments and any column order", async function () {
+      expect(parseCsvRows("# provider A\ny,x,ability\n\n2,1,float\n4,3,1\n")).to.deep.eq([
+        { row: 1, ability: 4, x: 1, y: 2 },
+        { row: 2, ability: 1, x: 3, y: 4 },
+      ]);
+    });
+
+    it("parses JSON arrays", async function () {
+      expect(parseJsonRows('[{"ability":"build","x":7,"y":8}]')).to.deep.eq([{ row: 1, ability: 2, x: 7, y: 8 }]);
+    });
+
+    it("rejects unknown abilities and out of range coordinates", async function () {
+      expect(() => parseCsvRows("ability,x,y\nfly,1,2")).to.throw("unknown ability");
+      expect(() => parseCsvRows("ability,x,y\nclimb,-1,2")).to.throw("x must be an integer");
+      expect(() => parseJsonRows('[{"ability":"dig","x":1,"y":4294967296}]')).to.throw("y must be an integer");
+      expect(() => parseCsvRows("ability,x\nclimb,1")).to.throw("header must contain");
+    });
+  });
+
+  it("submits every row and reports the lemmingId each one landed as", async function () {
+    const report = await submitRows({
+      contract: lemmingsContract.connect(provider),
+      batchId: 1,
+      rows,
+      reportFile,
+      encrypt,
+      sleep,
+      log: silent,
+    });
+
+    expect(report.rows.map((r) => r.lemmingId)).to.deep.eq([1, 2, 3]);
+    expect(new Set(report.rows.map((r) => r.txHash)).size).to.eq(1);
+    expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(3n);
+    expect(JSON.parse(fs.readFileSync(reportFile, "utf-8"))).to.deep.eq(report);
+
+    const handles = await lemmingsContract.lemmings(1, 2);
+    const contractAddress = await lemmingsContract.getAddress();
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, handles.ability, contractAddress, provider)).to.eq(1n);
+  });
+
+  it("splits rows into perTransaction sized calls", async function () {
+    const report = await submitRows({
+      contract: lemmingsContract.connect(provider),
+      batchId: 1,
+      rows,
+      reportFile,
+      encrypt,
+      perTransaction: 2,
+      sleep,
+      log: silent,
+    });
+
+    expect(report.rows.map((r) => r.lemmingId)).to.deep.eq([1, 2, 3]);
+    expect(report.rows[0].txHash).to.eq(report.rows[1].txHash);
+    expect(report.rows[2].txHash).to.not.eq(report.rows[0].txHash);
+    await expect(
+      submitRows({
+        contract: lemmingsContract.connect(provider),
+        batchId: 1,
+        rows,
+        reportFile,
+        encrypt,
+        perTransaction: 22,
+        log: silent,
+      }),
+    ).to.be.rejectedWith("perTransaction must be between 1 and 21");
+  });
+
+  it("waits out the cooldown between transactions", async function () {
+    await lemmingsContract.connect(deployer).setCooldownSeconds(60);
+    const waits: number[] = [];
+
+    const report = await submitRows({
+      contract: lemmingsContract.connect(provider),
+      batchId: 1,
+      rows,
+      reportFile,
+      encrypt,
+      perTransaction: 1,
+      sleep: async (ms) => {
+        waits.push(ms);
+        await sleep(ms);
+      },
+      log: silent,
+    });
+
+    expect(report.rows.map((r) => r.lemmingId)).to.deep.eq([1, 2, 3]);
+    expect(waits).to.have.length(2);
+  });
+
+  it("resumes after a failure without resubmitting rows that landed", async function () {
+    let calls = 0;
+    const failingEncrypt = async (chunk: LemmingRow[], contractAddress: string, user: string) => {
+      if (++calls === 2) throw new Error("relayer unavailable");
+      return encrypt(chunk, contractAddress, user);
+    };
+    const options = {
+      contract: lemmingsContract.connect(provider),
+      batchId: 1,
+      rows,
+      reportFile,
+      perTransaction: 1,
+      sleep,
+      log: silent,
+    };
+
+    await expect(submitRows({ ...options, encrypt: failingEncrypt })).to.be.rejectedWith("relayer unavailable");
+    expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(1n);
+
+    // Another provider lands a lemming in between, ids follow the on-chain order
+    await lemmingsContract.connect(deployer).addProvider(deployer.address);
+    await submitRows({
+      ...options,
+      encrypt,
+      contract: lemmingsContract.connect(deployer),
+      rows: rows.slice(0, 1),
+      reportFile: `${reportFile}.other`,
+    });
+
+    const report = await submitRows({ ...options, encrypt });
+    expect(report.rows.map((r) => r.lemmingId)).to.deep.eq([1, 3, 4]);
+    expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(4n);
+  });
+
+  it("settles a transaction sent before the previous run stopped", async function () {
+    const contract = lemmingsContract.connect(provider);
+    const encrypted = await encrypt([rows[0]], await contract.getAddress(), provider.address);
+    const tx = await contract.submitLemming(1, ...encrypted.handles[0], encrypted.inputProof);
+    fs.writeFileSync(
+      reportFile,
+      JSON.stringify({
+        contract: await contract.getAddress(),
+        chainId: 31337,
+        batchId: 1,
+        provider: provider.address,
+        rows: rows.map((row, i) => ({ ...row, txHash: i === 0 ? tx.hash : null, lemmingId: null })),
+      }),
+    );
+
+    const report = await submitRows({ contract, batchId: 1, rows, reportFile, encrypt, sleep, log: silent });
+    expect(report.rows.map((r) => r.lemmingId)).to.deep.eq([1, 2, 3]);
+    expect(report.rows[0].txHash).to.eq(tx.hash);
+  });
+
+  it("settles every row of an earlier multi-lemming transaction", async function () {
+    const contract = lemmingsContract.connect(provider);
+    const encrypted = await encrypt(rows.slice(0, 2), await contract.getAddress(), provider.address);
+    const field = (i: number) => encrypted.handles.map((handles) => handles[i]);
+    const tx = await contract.submitLemmings(1, field(0), field(1), field(2), encrypted.inputProof);
+    fs.writeFileSync(
+      reportFile,
+      JSON.stringify({
+        contract: await contract.getAddress(),
+        chainId: 31337,
+        batchId: 1,
+        provider: provider.address,
+        rows: rows.map((row, i) => ({ ...row, txHash: i < 2 ? tx.hash : null, lemmingId: null })),
+      }),
+    );
+
+    const report = await submitRows({ contract, batchId: 1, rows, reportFile, encrypt, sleep, log: silent });
+    expect(report.rows.map((r) => r.lemmingId)).to.deep.eq([1, 2, 3]);
+    expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(3n);
+  });
+
+  it("resubmits rows whose earlier transaction reverted", async function () {
+    const contract = lemmingsContract.connect(provider);
+    // Encrypted for another user, the InputVerifier rejects the proof on-chain
+    const encrypted = await encrypt(rows.slice(0, 2), await contract.getAddress(), deployer.address);
+    const field = (i: number) => encrypted.handles.map((handles) => handles[i]);
+    await contract
+      .submitLemmings(1, field(0), field(1), field(2), encrypted.inputProof, { gasLimit: 10_000_000 })
+      .catch(() => undefined);
+    const block = await ethers.provider.getBlock("latest");
+    const reverted = block!.transactions[0];
+    expect((await ethers.provider.getTransactionReceipt(reverted))!.status).to.eq(0);
+    fs.writeFileSync(
+      reportFile,
+      JSON.stringify({
+        contract: await contract.getAddress(),
+        chainId: 31337,
+        batchId: 1,
+        provider: provider.address,
+        rows: rows.map((row, i) => ({ ...row, txHash: i < 2 ? reverted : null, lemmingId: null })),
+      }),
+    );
+
+    const logs: string[] = [];
+    const report = await submitRows({
+      contract,
+      batchId: 1,
+      rows,
+      reportFile,
+      encrypt,
+      sleep,
+      log: (m) => logs.push(m),
+    });
+    expect(logs[0]).to.eq(`Rows 1-2: earlier transaction ${reverted} reverted, resubmitting`);
+    expect(report.rows.map((r) => r.lemmingId)).to.deep.eq([1, 2, 3]);
+    expect(report.rows[0].txHash).to.not.eq(reverted);
+    expect(await lemmingsContract.lemmingCountInBatch(1)).to.eq(3n);
+  });
+
+  it("refuses a report written for different input", async function () {
+    await submitRows({
+      contract: lemmingsContract.connect(provider),
+      batchId: 1,
+      rows,
+      reportFile,
+      encrypt,
+      sleep,
+      log: silent,
+    });
+    await expect(
+      submitRows({
+        contract: lemmingsContract.connect(provider),
+        batchId: 1,
+        rows: rows.slice(1),
+        reportFile,
+        encrypt,
+        sleep,
+        log: silent,
+      }),
+    ).to.be.rejectedWith("belongs to a different contract, batch, provider or input");
+  });
+});
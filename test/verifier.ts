@@ -0,0 +1,249 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import firstSteps from "../frontend/web/src/levels/first-steps.json";
+import {
+  AbilityId,
+  decodeRunRecord,
+  encodeRunRecord,
+  LevelFile,
+  loadLevel,
+  parseLevelFile,
+  runSimulation,
+  slotAbilities,
+  TimedCommand,
+} from "../frontend/web/src/engine";
+import { levelContentHash } from "../frontend/web/src/levelHash";
+import { MockOracle } from "../src/oracle/oracle";
+import { RUN_STATUS, RunVerifier } from "../src/verifier/verifier";
+import { LemmingsFHE, LemmingsFHE__factory } from "../types";
+
+describe("Run verification", function () {
+  let deployer: HardhatEthersSigner;
+  let player: HardhatEthersSigner;
+  let verifierSigner: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let lemmingsContract: LemmingsFHE;
+
+  const levelFile = parseLevelFile(firstSteps);
+  const level = loadLevel(levelFile);
+  const lemmings = [
+    { ability: AbilityId.Float, x: 10, y: 20 },
+    { ability: AbilityId.Block, x: 11, y: 21 },
+  ];
+  const commands: TimedCommand[] = [
+    { tick: 0, lemming: 0, ability: "dig" },
+    { tick: 200, lemming: 1, ability: "build" },
+  ];
+  // What the verifier's replay saves once the two lemmings above are revealed
+  const replaySaved = () =>
+    runSimulation(
+      level.engine,
+      slotAbilities(level.engine.lemmingCount, [
+        { lemmingId: 1, abilityId: AbilityId.Float, valid: true },
+        { lemmingId: 2, abilityId: AbilityId.Block, valid: true },
+      ]),
+      commands,
+    ).saved;
+
+  const createVerifier = (resolveLevelFile = async (): Promise<LevelFile | null> => levelFile) =>
+    new RunVerifier({
+      contract: lemmingsContract.connect(verifierSigner),
+      resolveLevelFile,
+      log: () => {},
+    });
+
+  async function submitLemmings(values: { ability: number; x: number; y: number }[]) {
+    const input = fhevm.createEncryptedInput(await lemmingsContract.getAddress(), deployer.address);
+    for (const l of values) input.add32(l.ability).add32(l.x).add32(l.y);
+    const encrypted = await input.encrypt();
+    const field = (offset: number) => values.map((_, i) => encrypted.handles[i * 3 + offset]);
+    await lemmingsContract.submitLemmings(1, field(0), field(1), field(2), encrypted.inputProof);
+  }
+
+  async function submitRun(record: Uint8Array, claimedSaved: number) {
+    const receipt = await (await lemmingsContract.connect(player).submitRun(1, record, claimedSaved)).wait();
+    const parsed = receipt!.logs
+      .map((l) => lemmingsContract.interface.parseLog(l))
+      .find((log) => log?.name === "RunSubmitted");
+    return parsed!.args.runId as bigint;
+  }
+
+  // Answered by the mock oracle, requests of earlier suites it already answered would revert in awaitDecryptionOracle
+  async function reveal() {
+    const fromBlock = await ethers.provider.getBlockNumber();
+    await lemmingsContract.requestBatchDecryption(1);
+    const oracle = new MockOracle({
+      provider: ethers.provider,
+      signer: relayer,
+      decryptionOracleAddress: await MockOracle.decryptionOracleAddress(ethers.provider),
+      contract: lemmingsContract.target as string,
+      fromBlock,
+      log: () => {},
+    });
+    await oracle.runOnce();
+  }
+
+  const runStatus = async (runId: bigint) => Number((await lemmingsContract.runs(runId)).status);
+
+  before(async function () {
+    [deployer, player, verifierSigner, relayer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("LemmingsFHE")) as LemmingsFHE__factory;
+    lemmingsContract = (await factory.deploy()) as LemmingsFHE;
+    await lemmingsContract.addProvider(deployer.address);
+    await lemmingsContract.addVerifier(verifierSigner.address);
+    await lemmingsContract.registerLevel(levelContentHash(levelFile), levelFile.id, 10, 320, 160, 50);
+    await lemmingsContract.openBatch(1);
+    await submitLemmings(lemmings);
+  });
+
+  describe("run records", function () {
+    it("round trips commands", function () {
+      const record = encodeRunRecord(commands);
+      expect(record.length).to.eq(3 + commands.length * 7);
+      expect(decodeRunRecord(record)).to.deep.eq(commands);
+    });
+
+    it("rejects malformed records", function () {
+      const record = encodeRunRecord(commands);
+      expect(() => decodeRunRecord(record.slice(0, 2))).to.throw("too short");
+      expect(() => decodeRunRecord(record.slice(0, record.length - 1))).to.throw("do not hold 2 commands");
+      expect(() => decodeRunRecord(Uint8Array.of(2, ...record.slice(1)))).to.throw("unsupported version 2");
+
+      const unknownAbility = record.slice();
+      unknownAbility[3 + 6] = 5;
+      expect(() => decodeRunRecord(unknownAbility)).to.throw("unknown ability id 5");
+      const backwards = encodeRunRecord([...commands].reverse());
+      expect(() => decodeRunRecord(backwards)).to.throw("goes back to tick 0");
+    });
+  });
+
+  describe("contract", function () {
+    it("stores submitted runs as pending", async function () {
+      const record = encodeRunRecord(commands);
+      await expect(lemmingsContract.connect(player).submitRun(1, record, 3))
+        .to.emit(lemmingsContract, "RunSubmitted")
+        .withArgs(1, player.address, 1, 3, ethers.hexlify(record));
+
+      const run = await lemmingsContract.runs(1);
+      expect(run.player).to.eq(player.address);
+      expect(run.recordHash).to.eq(ethers.keccak256(record));
+      expect(Number(run.status)).to.eq(RUN_STATUS.Pending);
+    });
+
+    it("rejects runs on empty batches, empty or oversized records and impossible claims", async function () {
+      const record = encodeRunRecord(commands);
+      await expect(lemmingsContract.submitRun(2, record, 1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidBatchId",
+      );
+      await expect(lemmingsContract.submitRun(1, "0x", 1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidRun",
+      );
+      await expect(lemmingsContract.submitRun(1, new Uint8Array(4097), 1)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidRun",
+      );
+      await expect(lemmingsContract.submitRun(1, record, 11)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "InvalidRun",
+      );
+    });
+
+    it("only lets verifiers post a result, once", async function () {
+      const runId = await submitRun(encodeRunRecord(commands), 3);
+      await expect(lemmingsContract.connect(player).postRunResult(runId, true, 3)).to.be.revertedWithCustomError(
+        lemmingsContract,
+        "NotVerifier",
+      );
+      await expect(
+        lemmingsContract.connect(verifierSigner).postRunResult(runId + 1n, true, 3),
+      ).to.be.revertedWithCustomError(lemmingsContract, "UnknownRun");
+
+      await expect(lemmingsContract.connect(verifierSigner).postRunResult(runId, false, 2))
+        .to.emit(lemmingsContract, "RunVerified")
+        .withArgs(runId, verifierSigner.address, false, 2);
+      expect(await runStatus(runId)).to.eq(RUN_STATUS.Invalid);
+      await expect(
+        lemmingsContract.connect(verifierSigner).postRunResult(runId, true, 3),
+      ).to.be.revertedWithCustomError(lemmingsContract, "RunAlreadyVerified");
+
+      await lemmingsContract.removeVerifier(verifierSigner.address);
+      const nextRun = await submitRun(encodeRunRecord(commands), 3);
+      await expect(
+        lemmingsContract.connect(verifierSigner).postRunResult(nextRun, true, 3),
+      ).to.be.revertedWithCustomError(lemmingsContract, "NotVerifier");
+    });
+  });
+
+  describe("RunVerifier", function () {
+    it("waits until the batch is revealed, then posts the replay result", async function () {
+      const saved = replaySaved();
+      const runId = await submitRun(encodeRunRecord(commands), saved);
+      const verifier = createVerifier();
+
+      expect(await verifier.runOnce()).to.deep.eq([]);
+      expect(await runStatus(runId)).to.eq(RUN_STATUS.Pending);
+
+      await reveal();
+      const [result] = await verifier.runOnce();
+      expect(result.verdict).to.deep.eq({ valid: true, saved, reason: null });
+      expect(result.error).to.eq(null);
+      expect(await runStatus(runId)).to.eq(RUN_STATUS.Valid);
+      expect((await lemmingsContract.runs(runId)).verifiedSaved).to.eq(saved);
+      expect(await verifier.runOnce()).to.deep.eq([]);
+    });
+
+    it("marks wrong claims and undecodable records invalid", async function () {
+      const saved = replaySaved();
+      const wrongClaim = saved === 10 ? saved - 1 : saved + 1;
+      const overclaimed = await submitRun(encodeRunRecord(commands), wrongClaim);
+      const garbage = await submitRun(Uint8Array.of(7, 7, 7), 0);
+      const outsideLevel = await submitRun(encodeRunRecord([{ tick: 0, lemming: 10, ability: "dig" }]), 0);
+      await reveal();
+
+      const results = await createVerifier().runOnce();
+      const byRun = new Map(results.map((r) => [r.run.runId, r.verdict]));
+      expect(byRun.get(overclaimed)).to.deep.eq({
+        valid: false,
+        saved,
+        reason: `claimed ${wrongClaim} saved, the replay saved ${saved}`,
+      });
+      expect(byRun.get(garbage)!.reason).to.eq("Invalid run record: unsupported version 7");
+      expect(byRun.get(outsideLevel)!.reason).to.eq("command for lemming 10 at tick 0 is outside the level");
+      for (const runId of [overclaimed, garbage, outsideLevel]) {
+        expect(await runStatus(runId)).to.eq(RUN_STATUS.Invalid);
+      }
+    });
+
+    it("replays with the lemmings the batch had when the run was submitted", async function () {
+      const saved = replaySaved();
+      const runId = await submitRun(encodeRunRecord(commands), saved);
+      await submitLemmings([{ ability: AbilityId.Dig, x: 12, y: 22 }]);
+      await reveal();
+
+      const [result] = await createVerifier().runOnce();
+      expect(result.run.runId).to.eq(runId);
+      expect(result.verdict.valid).to.eq(true);
+    });
+
+    it("leaves runs pending when the level file does not match the registered hash", async function () {
+      const runId = await submitRun(encodeRunRecord(commands), replaySaved());
+      await reveal();
+
+      const edited = { ...levelFile, lemmingCount: 9 };
+      expect(await createVerifier(async () => edited).runOnce()).to.deep.eq([]);
+      expect(await createVerifier(async () => null).runOnce()).to.deep.eq([]);
+      expect(await runStatus(runId)).to.eq(RUN_STATUS.Pending);
+    });
+  });
+});
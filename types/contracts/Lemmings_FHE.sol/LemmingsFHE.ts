@@ -0,0 +1,1729 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace LemmingsFHE {
+  export type LevelStruct = {
+    contentHash: BytesLike;
+    fileId: string;
+    lemmingSlots: BigNumberish;
+    width: BigNumberish;
+    height: BigNumberish;
+    targetSavePercent: BigNumberish;
+  };
+
+  export type LevelStructOutput = [
+    contentHash: string,
+    fileId: string,
+    lemmingSlots: bigint,
+    width: bigint,
+    height: bigint,
+    targetSavePercent: bigint
+  ] & {
+    contentHash: string;
+    fileId: string;
+    lemmingSlots: bigint;
+    width: bigint;
+    height: bigint;
+    targetSavePercent: bigint;
+  };
+}
+
+export interface LemmingsFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ABILITY_COUNT"
+      | "MAX_LEMMINGS_PER_DECRYPTION"
+      | "MAX_RUN_RECORD_BYTES"
+      | "addProvider"
+      | "addVerifier"
+      | "batchLevel"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "getLevel"
+      | "guessAbility"
+      | "guessCallback"
+      | "guessCount"
+      | "guessIdByRequest"
+      | "guesses"
+      | "isBatchOpen"
+      | "isProvider"
+      | "isVerifier"
+      | "lastDecryptionRequestTime"
+      | "lastGuessTime"
+      | "lastRunTime"
+      | "lastSubmissionTime"
+      | "lemmingCountInBatch"
+      | "lemmings"
+      | "levelCount"
+      | "levels"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "postRunResult"
+      | "protocolId"
+      | "registerLevel"
+      | "removeProvider"
+      | "removeVerifier"
+      | "requestBatchDecryption"
+      | "requestLemmingDecryption"
+      | "requestRangeDecryption"
+      | "runCount"
+      | "runs"
+      | "setCooldownSeconds"
+      | "setPaused"
+      | "submitLemming"
+      | "submitLemmings"
+      | "submitRun"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AbilityGuessed"
+      | "BatchClosed"
+      | "BatchOpened"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "GuessResolved"
+      | "LemmingSubmitted"
+      | "LevelRegistered"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "RunSubmitted"
+      | "RunVerified"
+      | "Unpaused"
+      | "VerifierAdded"
+      | "VerifierRemoved"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ABILITY_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_LEMMINGS_PER_DECRYPTION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RUN_RECORD_BYTES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addVerifier",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchLevel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLevel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guessAbility",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guessCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guessCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guessIdByRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guesses",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchOpen",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isVerifier",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastGuessTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastRunTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lemmingCountInBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lemmings",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "levelCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "levels",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "postRunResult",
+    values: [BigNumberish, boolean, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerLevel",
+    values: [
+      BytesLike,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeVerifier",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestLemmingDecryption",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRangeDecryption",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "runCount", values?: undefined): string;
+  encodeFunctionData(functionFragment: "runs", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "submitLemming",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitLemmings",
+    values: [BigNumberish, BytesLike[], BytesLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitRun",
+    values: [BigNumberish, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "ABILITY_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_LEMMINGS_PER_DECRYPTION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RUN_RECORD_BYTES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addVerifier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchLevel", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getLevel", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "guessAbility",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "guessCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "guessCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "guessIdByRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "guesses", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchOpen",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isVerifier", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastGuessTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastRunTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lemmingCountInBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "lemmings", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "levelCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "levels", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "postRunResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerLevel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeVerifier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestLemmingDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRangeDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "runCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "runs", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitLemming",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitLemmings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitRun", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AbilityGuessedEvent {
+  export type InputTuple = [
+    guessId: BigNumberish,
+    player: AddressLike,
+    batchId: BigNumberish,
+    lemmingId: BigNumberish,
+    ability: BigNumberish,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    guessId: bigint,
+    player: string,
+    batchId: bigint,
+    lemmingId: bigint,
+    ability: bigint,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    guessId: bigint;
+    player: string;
+    batchId: bigint;
+    lemmingId: bigint;
+    ability: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish, levelId: BigNumberish];
+  export type OutputTuple = [batchId: bigint, levelId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    levelId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    fromId: BigNumberish,
+    abilities: BigNumberish[],
+    xs: BigNumberish[],
+    ys: BigNumberish[],
+    valids: boolean[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    fromId: bigint,
+    abilities: bigint[],
+    xs: bigint[],
+    ys: bigint[],
+    valids: boolean[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    fromId: bigint;
+    abilities: bigint[];
+    xs: bigint[];
+    ys: bigint[];
+    valids: boolean[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    fromId: BigNumberish,
+    toId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    fromId: bigint,
+    toId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    fromId: bigint;
+    toId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GuessResolvedEvent {
+  export type InputTuple = [
+    guessId: BigNumberish,
+    player: AddressLike,
+    correct: boolean
+  ];
+  export type OutputTuple = [guessId: bigint, player: string, correct: boolean];
+  export interface OutputObject {
+    guessId: bigint;
+    player: string;
+    correct: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LemmingSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    lemmingId: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    lemmingId: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    lemmingId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LevelRegisteredEvent {
+  export type InputTuple = [
+    levelId: BigNumberish,
+    contentHash: BytesLike,
+    fileId: string,
+    lemmingSlots: BigNumberish,
+    width: BigNumberish,
+    height: BigNumberish,
+    targetSavePercent: BigNumberish
+  ];
+  export type OutputTuple = [
+    levelId: bigint,
+    contentHash: string,
+    fileId: string,
+    lemmingSlots: bigint,
+    width: bigint,
+    height: bigint,
+    targetSavePercent: bigint
+  ];
+  export interface OutputObject {
+    levelId: bigint;
+    contentHash: string;
+    fileId: string;
+    lemmingSlots: bigint;
+    width: bigint;
+    height: bigint;
+    targetSavePercent: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RunSubmittedEvent {
+  export type InputTuple = [
+    runId: BigNumberish,
+    player: AddressLike,
+    batchId: BigNumberish,
+    claimedSaved: BigNumberish,
+    record: BytesLike
+  ];
+  export type OutputTuple = [
+    runId: bigint,
+    player: string,
+    batchId: bigint,
+    claimedSaved: bigint,
+    record: string
+  ];
+  export interface OutputObject {
+    runId: bigint;
+    player: string;
+    batchId: bigint;
+    claimedSaved: bigint;
+    record: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RunVerifiedEvent {
+  export type InputTuple = [
+    runId: BigNumberish,
+    verifier: AddressLike,
+    valid: boolean,
+    verifiedSaved: BigNumberish
+  ];
+  export type OutputTuple = [
+    runId: bigint,
+    verifier: string,
+    valid: boolean,
+    verifiedSaved: bigint
+  ];
+  export interface OutputObject {
+    runId: bigint;
+    verifier: string;
+    valid: boolean;
+    verifiedSaved: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerifierAddedEvent {
+  export type InputTuple = [verifier: AddressLike];
+  export type OutputTuple = [verifier: string];
+  export interface OutputObject {
+    verifier: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerifierRemovedEvent {
+  export type InputTuple = [verifier: AddressLike];
+  export type OutputTuple = [verifier: string];
+  export interface OutputObject {
+    verifier: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface LemmingsFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): LemmingsFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: LemmingsFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ABILITY_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_LEMMINGS_PER_DECRYPTION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RUN_RECORD_BYTES: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  addVerifier: TypedContractMethod<
+    [verifier: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchLevel: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean] & {
+        batchId: bigint;
+        fromId: bigint;
+        toId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getLevel: TypedContractMethod<
+    [levelId: BigNumberish],
+    [LemmingsFHE.LevelStructOutput],
+    "view"
+  >;
+
+  guessAbility: TypedContractMethod<
+    [batchId: BigNumberish, lemmingId: BigNumberish, ability: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  guessCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  guessCount: TypedContractMethod<[], [bigint], "view">;
+
+  guessIdByRequest: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  guesses: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, string, bigint, boolean, boolean] & {
+        player: string;
+        batchId: bigint;
+        lemmingId: bigint;
+        ability: bigint;
+        result: string;
+        requestId: bigint;
+        resolved: boolean;
+        correct: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  isBatchOpen: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isVerifier: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastGuessTime: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  lastRunTime: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lemmingCountInBatch: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  lemmings: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string] & {
+        ability: string;
+        x: string;
+        y: string;
+        valid: string;
+      }
+    ],
+    "view"
+  >;
+
+  levelCount: TypedContractMethod<[], [bigint], "view">;
+
+  levels: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint, bigint, bigint] & {
+        contentHash: string;
+        fileId: string;
+        lemmingSlots: bigint;
+        width: bigint;
+        height: bigint;
+        targetSavePercent: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[levelId: BigNumberish], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  postRunResult: TypedContractMethod<
+    [runId: BigNumberish, valid: boolean, verifiedSaved: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  registerLevel: TypedContractMethod<
+    [
+      contentHash: BytesLike,
+      fileId: string,
+      lemmingSlots: BigNumberish,
+      width: BigNumberish,
+      height: BigNumberish,
+      targetSavePercent: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeVerifier: TypedContractMethod<
+    [verifier: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestLemmingDecryption: TypedContractMethod<
+    [batchId: BigNumberish, lemmingId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestRangeDecryption: TypedContractMethod<
+    [batchId: BigNumberish, fromId: BigNumberish, toId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  runCount: TypedContractMethod<[], [bigint], "view">;
+
+  runs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, string, bigint, bigint, bigint] & {
+        player: string;
+        batchId: bigint;
+        recordHash: string;
+        claimedSaved: bigint;
+        verifiedSaved: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  submitLemming: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedAbility: BytesLike,
+      encryptedX: BytesLike,
+      encryptedY: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitLemmings: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedAbilities: BytesLike[],
+      encryptedXs: BytesLike[],
+      encryptedYs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitRun: TypedContractMethod<
+    [batchId: BigNumberish, record: BytesLike, claimedSaved: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ABILITY_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_LEMMINGS_PER_DECRYPTION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RUN_RECORD_BYTES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addVerifier"
+  ): TypedContractMethod<[verifier: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchLevel"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean] & {
+        batchId: bigint;
+        fromId: bigint;
+        toId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLevel"
+  ): TypedContractMethod<
+    [levelId: BigNumberish],
+    [LemmingsFHE.LevelStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "guessAbility"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, lemmingId: BigNumberish, ability: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "guessCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "guessCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "guessIdByRequest"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "guesses"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, string, bigint, boolean, boolean] & {
+        player: string;
+        batchId: bigint;
+        lemmingId: bigint;
+        ability: bigint;
+        result: string;
+        requestId: bigint;
+        resolved: boolean;
+        correct: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isBatchOpen"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isVerifier"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastGuessTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastRunTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lemmingCountInBatch"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lemmings"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string] & {
+        ability: string;
+        x: string;
+        y: string;
+        valid: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "levelCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "levels"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint, bigint, bigint] & {
+        contentHash: string;
+        fileId: string;
+        lemmingSlots: bigint;
+        width: bigint;
+        height: bigint;
+        targetSavePercent: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[levelId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "postRunResult"
+  ): TypedContractMethod<
+    [runId: BigNumberish, valid: boolean, verifiedSaved: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerLevel"
+  ): TypedContractMethod<
+    [
+      contentHash: BytesLike,
+      fileId: string,
+      lemmingSlots: BigNumberish,
+      width: BigNumberish,
+      height: BigNumberish,
+      targetSavePercent: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeVerifier"
+  ): TypedContractMethod<[verifier: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestLemmingDecryption"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, lemmingId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestRangeDecryption"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, fromId: BigNumberish, toId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "runCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "runs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, string, bigint, bigint, bigint] & {
+        player: string;
+        batchId: bigint;
+        recordHash: string;
+        claimedSaved: bigint;
+        verifiedSaved: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitLemming"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedAbility: BytesLike,
+      encryptedX: BytesLike,
+      encryptedY: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitLemmings"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedAbilities: BytesLike[],
+      encryptedXs: BytesLike[],
+      encryptedYs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitRun"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, record: BytesLike, claimedSaved: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "AbilityGuessed"
+  ): TypedContractEvent<
+    AbilityGuessedEvent.InputTuple,
+    AbilityGuessedEvent.OutputTuple,
+    AbilityGuessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GuessResolved"
+  ): TypedContractEvent<
+    GuessResolvedEvent.InputTuple,
+    GuessResolvedEvent.OutputTuple,
+    GuessResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LemmingSubmitted"
+  ): TypedContractEvent<
+    LemmingSubmittedEvent.InputTuple,
+    LemmingSubmittedEvent.OutputTuple,
+    LemmingSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LevelRegistered"
+  ): TypedContractEvent<
+    LevelRegisteredEvent.InputTuple,
+    LevelRegisteredEvent.OutputTuple,
+    LevelRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RunSubmitted"
+  ): TypedContractEvent<
+    RunSubmittedEvent.InputTuple,
+    RunSubmittedEvent.OutputTuple,
+    RunSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RunVerified"
+  ): TypedContractEvent<
+    RunVerifiedEvent.InputTuple,
+    RunVerifiedEvent.OutputTuple,
+    RunVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerifierAdded"
+  ): TypedContractEvent<
+    VerifierAddedEvent.InputTuple,
+    VerifierAddedEvent.OutputTuple,
+    VerifierAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerifierRemoved"
+  ): TypedContractEvent<
+    VerifierRemovedEvent.InputTuple,
+    VerifierRemovedEvent.OutputTuple,
+    VerifierRemovedEvent.OutputObject
+  >;
+
+  filters: {
+    "AbilityGuessed(uint256,address,uint256,uint256,uint32,uint256)": TypedContractEvent<
+      AbilityGuessedEvent.InputTuple,
+      AbilityGuessedEvent.OutputTuple,
+      AbilityGuessedEvent.OutputObject
+    >;
+    AbilityGuessed: TypedContractEvent<
+      AbilityGuessedEvent.InputTuple,
+      AbilityGuessedEvent.OutputTuple,
+      AbilityGuessedEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256[],uint256[],uint256[],bool[])": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,uint256,uint256,bytes32)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "GuessResolved(uint256,address,bool)": TypedContractEvent<
+      GuessResolvedEvent.InputTuple,
+      GuessResolvedEvent.OutputTuple,
+      GuessResolvedEvent.OutputObject
+    >;
+    GuessResolved: TypedContractEvent<
+      GuessResolvedEvent.InputTuple,
+      GuessResolvedEvent.OutputTuple,
+      GuessResolvedEvent.OutputObject
+    >;
+
+    "LemmingSubmitted(address,uint256,uint256)": TypedContractEvent<
+      LemmingSubmittedEvent.InputTuple,
+      LemmingSubmittedEvent.OutputTuple,
+      LemmingSubmittedEvent.OutputObject
+    >;
+    LemmingSubmitted: TypedContractEvent<
+      LemmingSubmittedEvent.InputTuple,
+      LemmingSubmittedEvent.OutputTuple,
+      LemmingSubmittedEvent.OutputObject
+    >;
+
+    "LevelRegistered(uint256,bytes32,string,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      LevelRegisteredEvent.InputTuple,
+      LevelRegisteredEvent.OutputTuple,
+      LevelRegisteredEvent.OutputObject
+    >;
+    LevelRegistered: TypedContractEvent<
+      LevelRegisteredEvent.InputTuple,
+      LevelRegisteredEvent.OutputTuple,
+      LevelRegisteredEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "RunSubmitted(uint256,address,uint256,uint32,bytes)": TypedContractEvent<
+      RunSubmittedEvent.InputTuple,
+      RunSubmittedEvent.OutputTuple,
+      RunSubmittedEvent.OutputObject
+    >;
+    RunSubmitted: TypedContractEvent<
+      RunSubmittedEvent.InputTuple,
+      RunSubmittedEvent.OutputTuple,
+      RunSubmittedEvent.OutputObject
+    >;
+
+    "RunVerified(uint256,address,bool,uint32)": TypedContractEvent<
+      RunVerifiedEvent.InputTuple,
+      RunVerifiedEvent.OutputTuple,
+      RunVerifiedEvent.OutputObject
+    >;
+    RunVerified: TypedContractEvent<
+      RunVerifiedEvent.InputTuple,
+      RunVerifiedEvent.OutputTuple,
+      RunVerifiedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "VerifierAdded(address)": TypedContractEvent<
+      VerifierAddedEvent.InputTuple,
+      VerifierAddedEvent.OutputTuple,
+      VerifierAddedEvent.OutputObject
+    >;
+    VerifierAdded: TypedContractEvent<
+      VerifierAddedEvent.InputTuple,
+      VerifierAddedEvent.OutputTuple,
+      VerifierAddedEvent.OutputObject
+    >;
+
+    "VerifierRemoved(address)": TypedContractEvent<
+      VerifierRemovedEvent.InputTuple,
+      VerifierRemovedEvent.OutputTuple,
+      VerifierRemovedEvent.OutputObject
+    >;
+    VerifierRemoved: TypedContractEvent<
+      VerifierRemovedEvent.InputTuple,
+      VerifierRemovedEvent.OutputTuple,
+      VerifierRemovedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as lemmingsFheSol from "./Lemmings_FHE.sol";
+export type { lemmingsFheSol };
@@ -0,0 +1,1648 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  LemmingsFHE,
+  LemmingsFHEInterface,
+} from "../../../contracts/Lemmings_FHE.sol/LemmingsFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedOrInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchFull",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidLemmingId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidLevel",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRun",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "LengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotVerifier",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RunAlreadyVerified",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownLevel",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRun",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "guessId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lemmingId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "ability",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AbilityGuessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "levelId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "abilities",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "xs",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "ys",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "bool[]",
+        name: "valids",
+        type: "bool[]",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "guessId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "correct",
+        type: "bool",
+      },
+    ],
+    name: "GuessResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "lemmingId",
+        type: "uint256",
+      },
+    ],
+    name: "LemmingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "levelId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fileId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lemmingSlots",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "width",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "height",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "targetSavePercent",
+        type: "uint256",
+      },
+    ],
+    name: "LevelRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "runId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "claimedSaved",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "record",
+        type: "bytes",
+      },
+    ],
+    name: "RunSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "runId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "valid",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "verifiedSaved",
+        type: "uint32",
+      },
+    ],
+    name: "RunVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "VerifierAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "VerifierRemoved",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ABILITY_COUNT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_LEMMINGS_PER_DECRYPTION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RUN_RECORD_BYTES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "addVerifier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchLevel",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "levelId",
+        type: "uint256",
+      },
+    ],
+    name: "getLevel",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "contentHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "fileId",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "lemmingSlots",
+            type: "uint32",
+          },
+          {
+            internalType: "uint16",
+            name: "width",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "height",
+            type: "uint16",
+          },
+          {
+            internalType: "uint8",
+            name: "targetSavePercent",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct LemmingsFHE.Level",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lemmingId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "ability",
+        type: "uint32",
+      },
+    ],
+    name: "guessAbility",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "guessId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "guessCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "guessCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "guessIdByRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "guesses",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lemmingId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "ability",
+        type: "uint32",
+      },
+      {
+        internalType: "ebool",
+        name: "result",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "resolved",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "correct",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isVerifier",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastGuessTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastRunTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "lemmingCountInBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "lemmings",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "ability",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "x",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "y",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "valid",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "levelCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "levels",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "fileId",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "lemmingSlots",
+        type: "uint32",
+      },
+      {
+        internalType: "uint16",
+        name: "width",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "height",
+        type: "uint16",
+      },
+      {
+        internalType: "uint8",
+        name: "targetSavePercent",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "levelId",
+        type: "uint256",
+      },
+    ],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "runId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "valid",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "verifiedSaved",
+        type: "uint32",
+      },
+    ],
+    name: "postRunResult",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "fileId",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "lemmingSlots",
+        type: "uint32",
+      },
+      {
+        internalType: "uint16",
+        name: "width",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "height",
+        type: "uint16",
+      },
+      {
+        internalType: "uint8",
+        name: "targetSavePercent",
+        type: "uint8",
+      },
+    ],
+    name: "registerLevel",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "levelId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "removeVerifier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lemmingId",
+        type: "uint256",
+      },
+    ],
+    name: "requestLemmingDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "requestRangeDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "runCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "runs",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "recordHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "claimedSaved",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "verifiedSaved",
+        type: "uint32",
+      },
+      {
+        internalType: "enum LemmingsFHE.RunStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAbility",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedX",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedY",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitLemming",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedAbilities",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedXs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedYs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitLemmings",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "record",
+        type: "bytes",
+      },
+      {
+        internalType: "uint32",
+        name: "claimedSaved",
+        type: "uint32",
+      },
+    ],
+    name: "submitRun",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "runId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000189575f6060620000176200018d565b8281528260208201528260408201520152620000326200018d565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55604051335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a36136959081620001c28239f35b5f80fd5b60405190608082016001600160401b03811183821017620001ad57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c80630a763da1146103045780630b4d0e40146102ff578063124bd04b146102fa578063154e2541146102f5578063155fe78b146102f057806316c38b3c146102eb5780631895ce45146102e65780631f491389146102e157806324b4cee0146102dc57806333105218146102d7578063426fe313146102d257806346e2577a146102cd5780635a94a079146102c85780635c975abb146102c3578063651a2b4c146102be57806367350a2f146102b95780636b074a07146102b45780637b5b1157146102af578063813ed2ef146102aa57806383399f4c146102a557806386481d40146102a05780638a355a571461029b5780638da5cb5b146102965780639000b3d6146102915780639196b7001461028c57806395b18658146102875780639d6448fd14610282578063a43654761461027d578063a47b02aa14610278578063a95ab4cc14610273578063aa7755981461026e578063aacd2d4d14610269578063aba522c814610264578063ae66f57c1461025f578063b2596a671461025a578063b65e894114610255578063b8221bc414610250578063c33229851461024b578063c68a9fe414610246578063ca2dfd0a14610241578063d05aedd21461023c578063d2c411d314610237578063da1f12ab14610232578063dc83155f1461022d578063f2fde38b14610228578063f590b6f2146102235763fb1ba0831461021e575f80fd5b611c48565b611bd0565b611b6e565b611b52565b611b36565b611aaf565b611976565b611919565b6118fc565b6118cd565b6118b0565b611855565b6117d2565b61167f565b61157b565b6114ef565b611492565b611468565b6113d2565b6113a5565b61138a565b6112c9565b6112ac565b61124c565b611225565b6111c8565b61114d565b61102c565b610fee565b610f8f565b610f5d565b610d7f565b610d62565b610d40565b610d13565b610cb3565b610bc6565b610b67565b610a87565b6109e7565b6109bd565b610907565b6108e2565b6106d8565b61050a565b610334565b610317565b5f91031261031357565b5f80fd5b34610313575f366003190112610313576020600654604051908152f35b34610313576040366003190112610313576004355f52600c60205260405f206024355f52602052608060405f208054906001810154906003600282015491015491604051938452602084015260408301526060820152f35b634e487b7160e01b5f52604160045260245ffd5b60c081019081106001600160401b038211176103bb57604052565b61038c565b6001600160401b0381116103bb57604052565b90601f801991011681019081106001600160401b038211176103bb57604052565b6040519061010082018281106001600160401b038211176103bb57604052565b60405190610421826103a0565b565b60405190608082018281106001600160401b038211176103bb57604052565b6040519060a082018281106001600160401b038211176103bb57604052565b9291926001600160401b0382116103bb576040519161048a601f8201601f1916602001846103d3565b829481845281830111610313578281602093845f960137010152565b9080601f83011215610313578160206104c193359101610461565b90565b606060031982011261031357600435916001600160401b0360243581811161031357836104f3916004016104a6565b92604435918211610313576104c1916004016104a6565b3461031357610518366104c4565b919061052c825f52600b60205260405f2090565b600481019161053c835460ff1690565b6106b357600191600181019586549081156106a15761056b6105668454600286019485549161259c565b61263e565b60038401540361068f576105959161058761059092868a612675565b54885490611c94565b611ca1565b9061059f82611cc6565b946105a983611cc6565b946105b384611cc6565b936105bd81611cc6565b955f805b83811061061357855460ff191660011786558c8c7fb180619d88d1c03113423e83659cfc7360a208939ea0173ecc618c3cffce85688d8d61060e8e8e8e5497549360405195869586611d73565b0390a3005b84906106898c61062285611cf8565b60209161063985846005998a1b8b01015192611d2c565b528d610656858461064985611cf8565b948a1b8b01015192611d2c565b528b610666858461064985611cf8565b5261067081611cf8565b951b860101511515610682838d611d2c565b9015159052565b016105c1565b6040516313b304fb60e21b8152600490fd5b604051636d08029760e01b8152600490fd5b60405163dbde098160e01b8152600490fd5b6044359063ffffffff8216820361031357565b34610313576060366003190112610313576024356004356106f76106c5565b9160ff600254166108d057335f526011602052604092835f205460035481018091116108cb5742106108ba578115801561089f575b61088e579181610837937f6c791d05a7c632cdf784046bb6540a5bf5a2ae185adff3ccec9832b377609d9161079761078161088a9896610774875f52600c60205260405f2090565b905f5260205260405f2090565b5461079163ffffffff8516612e81565b90612768565b916107a18361281a565b506107ac3384612f6e565b6107c76107b7611def565b846107c182611d1a565b52613038565b906107d3600e54611cf8565b9788946107df86600e55565b6107e76103f4565b33815290886020830152878a83015261080984606084019063ffffffff169052565b60808201528360a08201525f60c08201525f60e0820152610832865f52600f60205260405f2090565b611e19565b8361084a835f52601060205260405f2090565b55335f908152601160205260409020429055865194855263ffffffff1660208501526040840152339280606081015b0390a4519081529081906020820190565b0390f35b835163c01b36e360e01b8152600490fd5b506108b2835f52600d60205260405f2090565b54821161072c565b835163aa9a98df60e01b8152600490fd5b611c72565b604051637b6560a960e01b8152600490fd5b34610313575f36600319011261031357602060405160058152f35b8015150361031357565b3461031357602036600319011261031357600435610924816108fd565b5f546001600160a01b031633036109ab5715610975576002805460ff191660011790556040513381527f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a25890602090a1005b60ff19600254166002557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b6040516330cd747160e01b8152600490fd5b34610313576020366003190112610313576004355f52600a602052602060405f2054604051908152f35b3461031357602036600319011261031357600480355f908152600f6020908152604091829020805460018201546002830154600384015496840154600585015460069095015487516001600160a01b039095168552958401929092529482019490945263ffffffff9094166060850152608084019290925260a083019190915260ff808216151560c084015260089190911c16151560e082015261010090f35b34610313576020366003190112610313575f54600435906001600160a01b031633036109ab5760ff600254166108d05780158015610b3a575b610b2857610acf600654611cf8565b806006555f52600760205260405f20600160ff1982541617905580610afe6006545f52600a60205260405f2090565b556006547f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf5f80a3005b60405163fce5ac0b60e01b8152600490fd5b506008548111610ac0565b6020906003190112610313576004356001600160a01b03811681036103135790565b34610313576001600160a01b03610b7d36610b45565b165f526012602052602060ff60405f2054166040519015158152f35b9181601f84011215610313578235916001600160401b038311610313576020838186019501011161031357565b346103135760a03660031901126103135760048035906084356001600160401b03811161031357610bfa9036908301610b99565b90335f52600160205260409360ff855f20541615610ca35760ff60025416610c9357335f5283602052845f205460035481018091116108cb574210610c8357805f52600760205260ff855f20541615610c735790610c649291606435906044359060243590612839565b335f5260205242905f20555f80f35b8451631e4f783760e11b81528490fd5b845163aa9a98df60e01b81528490fd5b8451637b6560a960e01b81528490fd5b8451631a40715960e11b81528490fd5b3461031357610cc136610b45565b5f546001600160a01b039190821633036109ab5716805f52600160205260405f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b34610313576001600160a01b03610d2936610b45565b165f526005602052602060405f2054604051908152f35b34610313575f36600319011261031357602060ff600254166040519015158152f35b34610313575f366003190112610313576020600854604051908152f35b3461031357606036600319011261031357600480356024356001600160401b03811161031357610db29036908401610b99565b91610dbb6106c5565b60ff60025416610f4c57335f526015602052604092835f205460035481018091116108cb574210610f3c57610df8835f52600d60205260405f2090565b5415610f2c5784158015610f21575b610f1157610e4b610e426002610e37610e28875f52600a60205260405f2090565b545f52600960205260405f2090565b015463ffffffff1690565b63ffffffff1690565b63ffffffff831611610f115761088a95507f97a8a3c9c5f9f79f0812564034a184e1a4453c58de5423586924de84f9aad505610e88601354611cf8565b958692610e9484601355565b610ef0610ea2368484610461565b60208151910120610eb1610414565b33815290602082018990528982015263ffffffff871660608201525f6080820152600160a0820152610eeb865f52601460205260405f2090565b611efe565b335f9081526015602052604090204290556108798751928392339784611fb0565b8351630e868b7160e31b81528690fd5b506110008511610e07565b8351633b98df6560e01b81528690fd5b835163aa9a98df60e01b81528690fd5b604051637b6560a960e01b81528590fd5b34610313576001600160a01b03610f7336610b45565b165f526001602052602060ff60405f2054166040519015158152f35b34610313576020366003190112610313575f54600435906001600160a01b031633036109ab5760407f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a7391600354908060035582519182526020820152a1005b34610313576001600160a01b0361100436610b45565b165f526015602052602060405f2054604051908152f35b6084359061ffff8216820361031357565b346103135760c0366003190112610313576024356001600160401b0381116103135761105c903690600401610b99565b906110656106c5565b60643561ffff811681036103135761107b61101b565b9060a4359260ff841684036103135761088a9561109a95600435611fcd565b6040519081529081906020820190565b5f5b8381106110bb5750505f910152565b81810151838201526020016110ac565b906020916110e4815180928185528580860191016110aa565b601f01601f1916010190565b602081528151602082015260c060ff60a0611119602086015184604087015260e08601906110cb565b9463ffffffff6040820151166060860152606081015161ffff80911660808701526080820151168286015201511691015290565b34610313576020366003190112610313576004355f60a0604051611170816103a0565b828152606060208201528260408201528260608201528260808201520152801580156111bd575b610b28575f52600960205261088a6111b160405f20612346565b604051918291826110f0565b506008548111611197565b34610313576111d636610b45565b5f546001600160a01b039190821633036109ab5716805f52600160205260405f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b34610313575f366003190112610313575f546040516001600160a01b039091168152602090f35b346103135761125a36610b45565b5f546001600160a01b039190821633036109ab5716805f52601260205260405f20600160ff198254161790557f6d05492139c5ea989514a5d2150c028041e5c087e2a39967f67dc7d2655adb815f80a2005b34610313575f366003190112610313576020601354604051908152f35b3461031357604080600319360112610313575f5460043591602435916001600160a01b0316330361137a5760ff6002541661136a57335f526005602052805f205460035481018091116108cb57421061135a5781158015611346575b61133657508061133492612bd1565b005b5163c01b36e360e01b8152600490fd5b50825f52600d602052805f20548211611325565b5163aa9a98df60e01b8152600490fd5b51637b6560a960e01b8152600490fd5b516330cd747160e01b8152600490fd5b34610313575f36600319011261031357602060405160148152f35b34610313576001600160a01b036113bb36610b45565b165f526004602052602060405f2054604051908152f35b34610313576060366003190112610313575f54600435906001600160a01b031633036109ab5760ff600254166108d057335f52600560205260405f205460035481018091116108cb57421061145657805f52600d60205260405f20541561144457611334906044359060243590612bd1565b604051633b98df6560e01b8152600490fd5b60405163aa9a98df60e01b8152600490fd5b34610313576020366003190112610313576004355f526010602052602060405f2054604051908152f35b34610313576001600160a01b036114a836610b45565b165f526011602052602060405f2054604051908152f35b9181601f84011215610313578235916001600160401b038311610313576020808501948460051b01011161031357565b346103135760a0366003190112610313576001600160401b03602435818111610313576115209036906004016114bf565b90604435838111610313576115399036906004016114bf565b90606435858111610313576115529036906004016114bf565b92909160843596871161031357611570611334973690600401610b99565b96909560043561239f565b3461031357611589366104c4565b61159d8392935f52601060205260405f2090565b549182156106a1576115b7835f52600f60205260405f2090565b9160068301946115c8865460ff1690565b6106b3577f78d0867bf80c89826bb51f670fc7da3daad769e36f199ef84b3b11de30eb692a9361162660208361160861163e966116339661060e99612675565b895491015161ff0090151560081b1661ffff19909116176001178855565b546001600160a01b031690565b945460081c60ff1690565b60405190151581526001600160a01b03909416939081906020820190565b634e487b7160e01b5f52602160045260245ffd5b6004111561167a57565b61165c565b34610313576020366003190112610313576004355f52601460205260405f2060018060a01b038154166001820154916003600282015491015463ffffffff9160ff8260401c169460405194855260208501526040840152818116606084015260201c166080820152600482101561167a5760c09160a0820152f35b90600182811c92168015611728575b602083101461171457565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611709565b9060405191825f8254611744816116fa565b908184526020946001916001811690815f146117b05750600114611772575b505050610421925003836103d3565b5f90815285812095935091905b81831061179857505061042193508201015f8080611763565b8554888401850152948501948794509183019161177f565b9250505061042194925060ff191682840152151560051b8201015f8080611763565b34610313576020366003190112610313576004355f52600960205260405f208054600261180160018401611732565b92015460ff61ffff91611826604051958695865260c0602087015260c08601906110cb565b9263ffffffff82166040860152808260201c1660608601528160301c16608085015260401c1660a08301520390f35b34610313576020366003190112610313576004355f52600b60205260a060405f20805490600181015490600281015460ff60046003840154930154169260405194855260208501526040840152606083015215156080820152f35b34610313575f366003190112610313576020600354604051908152f35b34610313576020366003190112610313576004355f526007602052602060ff60405f2054166040519015158152f35b34610313575f366003190112610313576020600e54604051908152f35b346103135761192736610b45565b5f546001600160a01b039190821633036109ab5716805f52601260205260405f2060ff1981541690557f44a3cd4eb5cc5748f6169df057b1cb2ae4c383e87cd94663c430e095d4cba4245f80a2005b3461031357606036600319011261031357602435600435611996826108fd565b61199e6106c5565b335f52601260205260ff60405f20541615611a9d5760036119c7835f52601460205260405f2090565b01805460401c60ff166119d981611670565b8015611a8b57806119eb600192611670565b03611a795781611a4f7f5f9f27c2450c4f6c5b588cccf9cebdb6778db7a27fda2ac443e9e8dac7f5dec09361060e93875f14611a6f57611a2d60025b82611eda565b9067ffffffff0000000082549160201b169067ffffffff000000001916179055565b60408051951515865263ffffffff90911660208601523394918291820190565b611a2d6003611a27565b60405163b26fe8d760e01b8152600490fd5b6040516395a3b12760e01b8152600490fd5b6040516312331aab60e11b8152600490fd5b34610313576020366003190112610313575f54600435906001600160a01b031633036109ab57805f52600760205260ff60405f20541615611b2457805f52600760205260405f2060ff1981541690557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2005b604051631e4f783760e11b8152600490fd5b34610313575f3660031901126103135760206040516127118152f35b34610313575f3660031901126103135760206040516110008152f35b3461031357611b7c36610b45565b5f54906001600160a01b0380831691338390036109ab571680926bffffffffffffffffffffffff60a01b16175f557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b34610313576020366003190112610313575f54600435906001600160a01b031633036109ab5760ff600254166108d057335f52600560205260405f205460035481018091116108cb57421061145657805f52600d60205260405f2054156114445780611334915f52600d60205260405f205490612ad3565b34610313576020366003190112610313576004355f52600d602052602060405f2054604051908152f35b634e487b7160e01b5f52601160045260245ffd5b5f198101919082116108cb57565b919082039182116108cb57565b90600182018092116108cb57565b6001600160401b0381116103bb5760051b60200190565b90611cd082611caf565b611cdd60405191826103d3565b8281528092611cee601f1991611caf565b0190602036910137565b5f1981146108cb5760010190565b634e487b7160e01b5f52603260045260245ffd5b805115611d275760200190565b611d06565b8051821015611d275760209160051b010190565b9081518082526020808093019301915f5b828110611d5f575050505090565b835185529381019392810192600101611d51565b92611da590611db39395928552611d9760209660a0602088015260a0870190611d40565b908582036040870152611d40565b908382036060850152611d40565b906080818303910152602080845192838152019301915f5b828110611dd9575050505090565b8351151585529381019392810192600101611dcb565b60405190604082018281106001600160401b038211176103bb576040526001825260203681840137565b815181546001600160a01b0319166001600160a01b039091161781556104219190611ec49060e0906006906020850151600182015560408501516002820155611e85611e6c606087015163ffffffff1690565b600383019063ffffffff1663ffffffff19825416179055565b6080850151600482015560a085015160058201550192611ebd611eab60c0830151151590565b859060ff801983541691151516179055565b0151151590565b815461ff00191690151560081b61ff0016179055565b90600481101561167a57815460ff60401b191660409190911b60ff60401b16179055565b815181546001600160a01b0319166001600160a01b039190911617815560a090600390602084015160018201556040840151600282015560608401519101805463ffffffff191663ffffffff9283161781559290611f7c906080830151855467ffffffff000000001916911660201b67ffffffff0000000016178455565b0151600481101561167a5761042191611eda565b908060209392818452848401375f828201840152601f01601f1916010190565b60409063ffffffff6104c195931681528160208201520191611f90565b91949390929560018060a01b035f541633036109ab57821580156120f5575b6120be5763ffffffff87161580156120e9575b80156120dd575b80156120d0575b6120be577f2dc13d7b5f012e02007636a5b547235d90b7325e6d841925e2f54803e8e8e724946120b892612042600854611cf8565b98899861204e8a600855565b6120ac612059610414565b88815261206736848c610461565b602082015263ffffffff8416604082015261ffff8516606082015261ffff8616608082015260ff871660a08201526120a78c5f52600960205260405f2090565b61214c565b60405197889788612300565b0390a290565b60405163d1459f7960e01b8152600490fd5b50606460ff82161161200d565b5061ffff851615612006565b5061ffff821615611fff565b508515611fec565b601f821161210a57505050565b5f5260205f20906020601f840160051c83019310612142575b601f0160051c01905b818110612137575050565b5f815560010161212c565b9091508190612123565b815181556001808201906020808501518051926001600160401b0384116103bb576121818461217b87546116fa565b876120fd565b602092601f85116001146122855750509361225b936121c08460a0956002956104219a995f9261227a575b50508160011b915f199060031b1c19161790565b90555b01926121ef6121d9604083015163ffffffff1690565b855463ffffffff191663ffffffff909116178555565b61221f612201606083015161ffff1690565b855465ffff00000000191660209190911b65ffff0000000016178555565b612253612231608083015161ffff1690565b855467ffff000000000000191660309190911b67ffff00000000000016178555565b015160ff1690565b908054909160ff60401b1990911660409190911b60ff60401b16179055565b015190505f806121ac565b929190601f1985169061229b875f5260205f2090565b945f915b8383106122e9575050508460029461042199989461225b989460a098600195106122d1575b505050811b0190556121c3565b01515f1960f88460031b161c191690555f80806122c4565b84860151875595860195948101949181019161229f565b959061232860a0969360ff969a999563ffffffff938a5260c060208b015260c08a0191611f90565b9816604087015261ffff809216606087015216608085015216910152565b90604051612353816103a0565b60a060ff600283958054855261236b60018201611732565b6020860152015463ffffffff8116604085015261ffff808260201c1660608601528160301c16608085015260401c16910152565b939795909694929197335f526001986001602052604060ff815f205416156124c65760ff6002541661136a57335f526004602052805f205460035481018091116108cb57421061135a5761240c612408612401895f52600760205260405f2090565b5460ff1690565b1590565b6124b657811580156124ac575b80156124a2575b61248f57505f5b818110612453575050335f90815260046020526040902042995097506124509650505050505050565b55565b806124898a8a888f958f818b61247a8f948d612473828f612481986124d6565b35976124d6565b35936124d6565b35918d612839565b01612427565b516001621398b960e31b03198152600490fd5b5081841415612420565b5081831415612419565b51631e4f783760e11b8152600490fd5b51631a40715960e11b8152600490fd5b9190811015611d275760051b0190565b9190805f198101116108cb5760028160021b828104600414831517156108cb5761250f90611cc6565b935f9160019160015b8581111561252857505050505050565b80600361254461259793610774865f52600c60205260405f2090565b80546125596125528a611cf8565b998d611d2c565b528681015461256a6125528a611cf8565b528581015461257b6125528a611cf8565b52015461259161258a88611cf8565b978b611d2c565b52611cf8565b612518565b9291908082038281116108cb57600190600181018091116108cb576002908060021b90808204600414901517156108cb576125d690611cc6565b955f935b858111156125ea57505050505050565b80600361254461260693610774865f52600c60205260405f2090565b6125da565b9081518082526020808093019301915f5b82811061262a575050505090565b83518552938101939281019260010161261c565b60405161266f8161265b602082019460408652606083019061260b565b30604083015203601f1981018352826103d3565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561274757845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210612730575050505091816126ef6126f495936124089503826103d3565b612d3d565b61271e577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906126cf565b60405163d66ca67560e01b8152600490fd5b63ffffffff6104c19116612e81565b90811561280a575b80156127f8575b602090606460018060a01b035f805160206136498339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af19081156127f3575f916127ca575090565b6104c1915060203d6020116127ec575b6127e481836103d3565b810190612e20565b503d6127da565b612d32565b506020612803612ed0565b9050612777565b9050612814612ed0565b90612770565b6104c13082612f6e565b63ffffffff9081165f1901919082116108cb57565b9394929094612853610e28865f52600a60205260405f2090565b956002612868875f52600d60205260405f2090565b5497019661287d610e42895463ffffffff1690565b1115612a805761288e368684610461565b61289791613285565b926128a3368684610461565b6128ac91613285565b9336906128b892610461565b6128c191613285565b6128ca82613370565b855490919060201c61ffff1661ffff166128e390612824565b6128ed90856133ea565b865490919060301c61ffff1661ffff1661290690612824565b61291090826133ea565b93612919612e2f565b61292391856135f6565b875490959060201c61ffff1661ffff1661293c90612824565b61294590612759565b61294f91846135f6565b965460301c61ffff1661ffff1661296590612824565b61296e90612759565b61297891856135f6565b9261298291613468565b61298b91613468565b906129958361281a565b5061299f8561281a565b506129a98161281a565b506129b38261281a565b506129be3384612f6e565b6129c83386612f6e565b6129d23382612f6e565b6129dc3383612f6e565b6129ee845f52600d60205260405f2090565b9485546129fa90611cf8565b809655612a05610423565b93845260208401526040830152606082015282612a2a835f52600c60205260405f2090565b5f91825260205260409020815181556020820151600182015560408201516002820155606090910151600390910155337ff9a1f75348a7bf819d9646e82ca202ae05dd6db017b6e450360867ff45d7fb185f80a4565b6040516314004c9b60e11b8152600490fd5b6004608061042193805184556020810151600185015560408101516002850155606081015160038501550151151591019060ff801983541691151516179055565b90600181108015612bb6575b612ba4576014612af161059083611c86565b11612ba4577f039011ff0e9ea818bd283be47bba68dab4ba893125394be70f45911c07a7ea0c612b2182846124e6565b612b33612b2d8261263e565b91613191565b92612b72612b3f610442565b868152600160208201528260408201528360608201525f6080820152612b6d865f52600b60205260405f2090565b612a92565b335f9081526005602052604090204290556040805160018152602081019290925281019190915280606081015b0390a3565b60405163561ce9bb60e01b8152600490fd5b50612bc9825f52600d60205260405f2090565b548111612adf565b9181158015612cbf575b8015612ca4575b612ba4576014612bf56105908484611c94565b11612ba45780612c277f039011ff0e9ea818bd283be47bba68dab4ba893125394be70f45911c07a7ea0c92848661259c565b92612b9f612c3d612c378661263e565b95613191565b94612c76612c49610442565b8881528460208201528560408201528260608201525f6080820152612b6d885f52600b60205260405f2090565b335f908152600560205260409020429055604051938493846040919493926060820195825260208201520152565b50612cb7835f52600d60205260405f2090565b548111612be2565b50818110612bdb565b6020929190612cde8492828151948592016110aa565b019081520190565b9081602091031261031357516104c1816108fd565b91612d2490612d166104c1959360608652606086019061260b565b9084820360208601526110cb565b9160408184039101526110cb565b6040513d5f823e3d90fd5b9190805191602093838501938486116108cb576040018094116108cb57612de493612d828694612d74604051938492888401612cc8565b03601f1981018352826103d3565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f90612dc690612dba906001600160a01b031681565b6001600160a01b031690565b92604051968795869485936378542ead60e01b855260048501612cfb565b03925af19182156127f3575f92612dfa57505090565b6104c19250803d10612e19575b612e1181836103d3565b810190612ce6565b503d612e07565b90816020910312610313575190565b5f8051602061364983398151915254604051639cd07acb60e01b81526004808201819052602482015290602090829060449082905f906001600160a01b03165af19081156127f3575f916127ca575090565b60205f91604460018060a01b035f805160206136498339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af19081156127f3575f916127ca575090565b5f8051602061364983398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156127f3575f916127ca575090565b5f602060018060a01b035f805160206136498339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af19081156127f3575f916127ca575090565b5f80516020613669833981519152546001600160a01b031691823b1561031357604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156127f357612fcc5750565b610421906103c0565b9060206104c192818152019061260b565b9291612fff91845260606020850152606084019061260b565b916040631574a45960e31b910152565b929161302891845260606020850152606084019061260b565b91604063124bd04b60e01b910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f8051602061366983398151915254909392919061308390612dba906001600160a01b031681565b803b15610313575f6040518092637d6e912360e11b82528183816130aa8960048301612fd5565b03925af180156127f35761317e575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546130f090612dba906001600160a01b031681565b90813b15610313575f6040518093633263b83b60e01b8252818381613119898c60048401612fe6565b03925af180156127f357610421936131419361313b92613165575b50866134ec565b54611cf8565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b80613172613178926103c0565b80610309565b5f613134565b8061317261318b926103c0565b5f6130b9565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f805160206136698339815191525490939291906131dc90612dba906001600160a01b031681565b803b15610313575f6040518092637d6e912360e11b82528183816132038960048301612fd5565b03925af180156127f357613272575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025461324990612dba906001600160a01b031681565b90813b15610313575f6040518093633263b83b60e01b8252818381613119898c6004840161300f565b8061317261327f926103c0565b5f613212565b5f80516020613649833981519152546132d19260209290916132b190612dba906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b84523390600485016135c5565b03925af19081156127f3575f91613351575b505f805160206136698339815191525461330790612dba906001600160a01b031681565b803b1561031357604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156127f357613344575090565b806131726104c1926103c0565b61336a915060203d6020116127ec576127e481836103d3565b5f6132e3565b80156133d6575b5f8051602061364983398151915254604051631d44e90160e21b81526004808201939093526024810192909252600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156127f3575f916127ca575090565b505f60206133e2612ed0565b915050613377565b63ffffffff916020918015613456575b5f8051602061364983398151915254604051631d44e90160e21b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156127f3575f916127ca575090565b506064613461612ed0565b90506133fa565b9081156134dc575b80156134ca575b602090606460018060a01b035f805160206136498339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af19081156127f3575f916127ca575090565b5060206134d5612f22565b9050613477565b90506134e6612f22565b90613470565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f20546135b3575f5260205260405f20908251926001600160401b0384116103bb576801000000000000000084116103bb57825484845580851061358d575b50602061356a9101925f5260205f2090565b905f5b84811061357b575050505050565b8351838201559281019260010161356d565b835f528460205f2091820191015b8181106135a85750613558565b5f815560010161359b565b604051633f06d22b60e01b8152600490fd5b93926135f190600493606093875260018060a01b031660208701526080604087015260808601906110cb565b930152565b9060646020925f60018060a01b035f8051602061364983398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156127f3575f916127ca57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type LemmingsFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: LemmingsFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class LemmingsFHE__factory extends ContractFactory {
+  constructor(...args: LemmingsFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      LemmingsFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): LemmingsFHE__factory {
+    return super.connect(runner) as LemmingsFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): LemmingsFHEInterface {
+    return new Interface(_abi) as LemmingsFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): LemmingsFHE {
+    return new Contract(address, _abi, runner) as unknown as LemmingsFHE;
+  }
+}